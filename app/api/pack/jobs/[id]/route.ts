@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPackJob } from '@/lib/packJobs'
+import { resolveGitHubHost, getGitLabToken } from '@/lib/source'
+import { getGitHubAuth, getRequesterKey } from '@/lib/githubAuth'
+import { createApiSuccess, createApiError } from '@/lib/types'
+
+export const runtime = 'nodejs'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET /api/pack/jobs/:id
+ * Job status, per-repo progress and the repos finished so far
+ *
+ * Only the requester who started the job (same session or tokens) can read it;
+ * anyone else gets 404.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const { id } = await params
+    const githubAuth = await getGitHubAuth(request, githubHost)
+    const job = await getPackJob(id, getRequesterKey(githubAuth, getGitLabToken(request.headers)))
+
+    if (!job) {
+      return NextResponse.json(
+        createApiError('Pack job not found (it may have expired, or was started with other credentials)', 'JOB_NOT_FOUND'),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(createApiSuccess({ job }))
+  } catch (error) {
+    console.error('[api/pack/jobs/[id]] Error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      createApiError(message, 'PACK_JOB_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { validatePackRequest, PackRequestBody } from '@/lib/packRunner'
+import { createPackJob, runPackJob } from '@/lib/packJobs'
+import { resolveGitHubHost, getGitLabToken, needsGitHubToken } from '@/lib/source'
+import { getGitHubAuth, getRequesterKey } from '@/lib/githubAuth'
+import { createApiSuccess, createApiError } from '@/lib/types'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300 // The job runs after the response, within this limit
+
+/**
+ * POST /api/pack/jobs
+ * Start a background pack: same body as POST /api/pack, returns the job right away
+ *
+ * Poll GET /api/pack/jobs/:id for progress and finished repos, with the same
+ * credentials. The job keeps running if the client goes away.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: PackRequestBody = await request.json()
+
+    const invalid = validatePackRequest(body)
+    if (invalid) {
+      return NextResponse.json(
+        createApiError(invalid.message, invalid.code),
+        { status: 400 }
+      )
+    }
+
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const githubAuth = await getGitHubAuth(request, githubHost)
+    const { token: githubToken, appLogin } = githubAuth
+    if (!githubToken && needsGitHubToken(body.repos)) {
+      return NextResponse.json(
+        createApiError('GitHub token required. Sign in or provide token.', 'MISSING_TOKEN'),
+        { status: 401 }
+      )
+    }
+
+    const gitlabToken = getGitLabToken(request.headers)
+    const job = await createPackJob(body, getRequesterKey(githubAuth, gitlabToken))
+
+    // Runs after the response is sent; the tokens stay in memory only
+    after(() => runPackJob(job.id, body, { githubToken: githubToken ?? '', githubHost, githubAppLogin: appLogin, gitlabToken }))
+
+    return NextResponse.json(createApiSuccess({ job }), { status: 202 })
+  } catch (error) {
+    console.error('[api/pack/jobs] Error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      createApiError(message, 'PACK_JOB_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { previewRemoteRepo } from '@/lib/slicePreview'
+import { isChangesetSelection, changesetLabel, parseRepoSource, parseRepoTarget, selectionSliceConfig } from '@/lib/changeset'
+import { createApiSuccess, createApiError, PreviewResult, RepoPreview, RepoSelection, SliceConfig } from '@/lib/types'
+import { GitHubClient } from '@/lib/github'
+import { resolveOwnerToken } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { createSourceClient, resolveGitHubHost, getGitLabToken, needsGitHubToken } from '@/lib/source'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/pack/preview
+ * Dry run of /api/pack: lists the files each repo's slice would include
+ *
+ * Reads the repo tree from the GitHub API instead of downloading the archive,
+ * so globs can be tuned live before committing to a full pack. Import-graph
+ * slices (entryPoints) do download it, to resolve the dependency set.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const {
+      repos,
+      sliceConfig = {},
+    }: {
+      repos: RepoSelection[]
+      sliceConfig?: SliceConfig
+    } = body
+
+    if (!repos || !Array.isArray(repos) || repos.length === 0) {
+      return NextResponse.json(
+        createApiError('At least one repo required', 'MISSING_REPOS'),
+        { status: 400 }
+      )
+    }
+
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const { token: githubToken, appLogin } = await getGitHubAuth(request, githubHost)
+    if (!githubToken && needsGitHubToken(repos)) {
+      return NextResponse.json(
+        createApiError('GitHub token required. Sign in or provide token.', 'MISSING_TOKEN'),
+        { status: 401 }
+      )
+    }
+
+    const tokens = { github: githubToken ?? '', gitlab: getGitLabToken(request.headers) ?? '' }
+    const clients = { github: new GitHubClient(tokens.github, githubHost), gitlab: createSourceClient('gitlab', tokens.gitlab) }
+
+    const previews = await Promise.all(
+      repos.map(async (repo): Promise<RepoPreview> => {
+        // Changeset packs are driven by the diff, not the tree - nothing to dry-run
+        if (isChangesetSelection(repo)) {
+          return {
+            repo: repo.fullName,
+            branch: changesetLabel(repo) || '',
+            files: [],
+            stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+            excluded: {},
+            error: 'Preview is only available for branches, not pull requests or compare ranges',
+          }
+        }
+
+        const target = parseRepoTarget(repo.fullName)
+        const { provider, path } = parseRepoSource(target.repo)
+        let client = clients[provider]
+        let token = tokens[provider]
+
+        // GitHub App mode: the installation on an owner the signed-in user belongs to
+        if (appLogin && provider === 'github') {
+          try {
+            token = await resolveOwnerToken(path.split('/')[0], appLogin, token)
+          } catch (error) {
+            return {
+              repo: repo.fullName,
+              branch: repo.branch || 'main',
+              files: [],
+              stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+              excluded: {},
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }
+          }
+          if (token !== tokens.github) client = new GitHubClient(token, githubHost)
+        }
+
+        return previewRemoteRepo(client, {
+          ...target,
+          branch: repo.branch || 'main',
+          ref: repo.ref,
+          token,
+          githubHost,
+          ...selectionSliceConfig(repo, sliceConfig),
+        })
+      })
+    )
+
+    const errors = previews
+      .filter(p => p.error)
+      .map(p => `${p.repo}: ${p.error}`)
+
+    const totalStats = previews
+      .filter(p => !p.error)
+      .reduce(
+        (acc, p) => ({
+          fileCount: acc.fileCount + p.stats.fileCount,
+          approxChars: acc.approxChars + p.stats.approxChars,
+          approxTokens: acc.approxTokens + p.stats.approxTokens,
+        }),
+        { fileCount: 0, approxChars: 0, approxTokens: 0 }
+      )
+
+    const result: PreviewResult = {
+      repos: previews,
+      totalStats,
+      errors,
+    }
+
+    return NextResponse.json(createApiSuccess(result))
+  } catch (error) {
+    console.error('[api/pack/preview] Error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      createApiError(message, 'PREVIEW_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server'
+import { packRequest, validatePackRequest, PackRequestBody } from '@/lib/packRunner'
+import { PackStreamEvent } from '@/lib/types'
+import { GitHubClient } from '@/lib/github'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { resolveGitHubHost, getGitLabToken, needsGitHubToken } from '@/lib/source'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300 // 5 minutes (adjust based on Vercel plan)
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+}
+
+function encodeEvent(event: PackStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * POST /api/pack/stream
+ * Same body and packing as POST /api/pack, streamed as Server-Sent Events (SSE)
+ *
+ * Events, per repo as it goes:
+ * - progress: stage changes (resolving, resolved + commitSha, cache-hit/miss, downloading, packing, threads)
+ * - repo: the finished (or failed) PackedRepo, usable before slower repos finish
+ *   (sent again with the fitted result in fit-to-budget mode)
+ * Then one complete event (totals, budget, errors) or an error event.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: PackRequestBody = await request.json()
+
+    const invalid = validatePackRequest(body)
+    if (invalid) {
+      return new Response(encodeEvent({ type: 'error', error: invalid.message }), {
+        status: 400,
+        headers: SSE_HEADERS,
+      })
+    }
+
+    const githubHost = resolveGitHubHost(request.headers, error =>
+      new Response(encodeEvent({ type: 'error', error }), { status: 400, headers: SSE_HEADERS })
+    )
+    if (githubHost instanceof Response) return githubHost
+
+    const { token: githubToken, appLogin } = await getGitHubAuth(request, githubHost)
+    if (!githubToken && needsGitHubToken(body.repos)) {
+      return new Response(
+        encodeEvent({ type: 'error', error: 'GitHub token required. Sign in or provide token.' }),
+        { status: 401, headers: SSE_HEADERS }
+      )
+    }
+
+    console.log(`[api/pack/stream] Packing ${body.repos.length} repos:`, body.repos.map(r => r.fullName).join(', '))
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        // The client may disconnect mid-pack; drop events after that
+        const send = (event: PackStreamEvent) => {
+          if (request.signal.aborted) return
+          try {
+            controller.enqueue(encoder.encode(encodeEvent(event)))
+          } catch {
+            // Stream already closed
+          }
+        }
+
+        try {
+          const { repos, ...result } = await packRequest(
+            body,
+            {
+              github: new GitHubClient(githubToken ?? '', githubHost),
+              githubToken: githubToken ?? '',
+              githubAppLogin: appLogin,
+              gitlabToken: getGitLabToken(request.headers),
+              signal: request.signal,
+              onProgress: (repo, stage, commitSha, index) => send({ type: 'progress', repo, index, stage, commitSha }),
+            },
+            (packed, index) => send({ type: 'repo', repo: packed.repo, index, packed })
+          )
+
+          console.log(`[api/pack/stream] Done: ${repos.length - result.errors.length}/${repos.length} repos packed`)
+          send({ type: 'complete', result })
+        } catch (error) {
+          console.error('[api/pack/stream] Streaming error:', error)
+          send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed by a disconnect
+          }
+        }
+      },
+    })
+
+    return new Response(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    console.error('[api/pack/stream] Error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return new Response(encodeEvent({ type: 'error', error: message }), {
+      status: 500,
+      headers: SSE_HEADERS,
+    })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GitHubClient } from '@/lib/github'
+import { resolveGitHubHost } from '@/lib/source'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { createApiSuccess, createApiError } from '@/lib/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/rate-limit
+ * Remaining GitHub API requests for the token (core limit), for the UI
+ *
+ * Returns null when the host doesn't rate limit; without any token, the
+ * unauthenticated (per-IP) limit. GitHub App installations have limits of their own.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const { token } = await getGitHubAuth(request, githubHost)
+    const client = new GitHubClient(token ?? '', githubHost)
+    return NextResponse.json(createApiSuccess(await client.getRateLimit()))
+  } catch (error) {
+    console.error('[api/rate-limit] Error:', error)
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return NextResponse.json(
+      createApiError(message, 'GITHUB_ERROR'),
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { GitHubClient } from '@/lib/github'
+import { createSourceClient, resolveGitHubHost, getGitLabToken } from '@/lib/source'
+import { resolveOwnerToken } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { parseRepoSource } from '@/lib/changeset'
 import { createApiSuccess, createApiError } from '@/lib/types'
 
 export const runtime = 'nodejs'
@@ -7,6 +10,7 @@ export const runtime = 'nodejs'
 /**
  * GET /api/repos/branches?repo=owner/repo
  * List all branches for a repository
+ * GitLab projects are named "gitlab:group/project"
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,18 +21,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(createApiError('repo parameter is required'), { status: 400 })
     }
 
-    // Get GitHub token from header or env
-    const token =
-      request.headers.get('X-GitHub-Token') || process.env.NEXT_PUBLIC_GITHUB_TOKEN
+    const { provider, path: repoPath } = parseRepoSource(repo)
 
-    if (!token) {
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    // "gitlab:" repos use the GitLab token; GitHub repos the owner's installation in GitHub App mode
+    const github = provider === 'github' ? await getGitHubAuth(request, githubHost) : null
+    const token = github
+      ? github.token && await resolveOwnerToken(repoPath.split('/')[0], github.appLogin, github.token)
+      : getGitLabToken(request.headers)
+
+    // Public GitLab projects can be read without a token
+    if (!token && provider === 'github') {
       return NextResponse.json(
-        createApiError('GitHub token is required (header or env)'),
+        createApiError('GitHub token is required (session, header or env)'),
         { status: 401 }
       )
     }
 
-    const client = new GitHubClient(token)
+    const client = createSourceClient(provider, token ?? '', githubHost)
     const branches = await client.listBranches(repo)
 
     return NextResponse.json(createApiSuccess(branches))
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSourceClient, resolveGitHubHost, getGitLabToken } from '@/lib/source'
+import { resolveOwnerToken } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { parseRepoSource } from '@/lib/changeset'
+import { createApiSuccess, createApiError } from '@/lib/types'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/repos/directories?repo=owner/repo&ref=main&path=packages
+ * List the directories directly under a path (top level when path is omitted)
+ * GitLab projects are named "gitlab:group/project"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const repo = searchParams.get('repo')
+    const ref = searchParams.get('ref') || undefined
+    const path = searchParams.get('path') || ''
+
+    if (!repo) {
+      return NextResponse.json(createApiError('repo parameter is required'), { status: 400 })
+    }
+
+    const { provider, path: repoPath } = parseRepoSource(repo)
+
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    // "gitlab:" repos use the GitLab token; GitHub repos the owner's installation in GitHub App mode
+    const github = provider === 'github' ? await getGitHubAuth(request, githubHost) : null
+    const token = github
+      ? github.token && await resolveOwnerToken(repoPath.split('/')[0], github.appLogin, github.token)
+      : getGitLabToken(request.headers)
+
+    // Public GitLab projects can be read without a token
+    if (!token && provider === 'github') {
+      return NextResponse.json(
+        createApiError('GitHub token is required (session, header or env)'),
+        { status: 401 }
+      )
+    }
+
+    const client = createSourceClient(provider, token ?? '', githubHost)
+    const directories = await client.listDirectories(repo, ref, path)
+
+    return NextResponse.json(createApiSuccess(directories))
+  } catch (error) {
+    console.error('[API /repos/directories] Error:', error)
+    return NextResponse.json(
+      createApiError(error instanceof Error ? error.message : 'Failed to list directories'),
+      { status: 500 }
+    )
+  }
+}
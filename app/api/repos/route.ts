@@ -1,69 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createGitHubClient } from '@/lib/github'
-import { createApiSuccess, createApiError } from '@/lib/types'
-import { isServerMode } from '@/lib/prisma'
-
-// Conditionally import auth only in server mode
-const getAuth = async () => {
-  if (isServerMode) {
-    const { auth } = await import('@/lib/auth')
-    return auth
-  }
-  return null
-}
+import { createSourceClient, resolveGitHubHost, getGitLabToken, SOURCE_PROVIDERS, type SourceClient } from '@/lib/source'
+import { listInstallationRepos } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { createApiSuccess, createApiError, type GitHubRepo, type SourceProvider } from '@/lib/types'
 
 export const runtime = 'nodejs'
 
 /**
- * Get GitHub token from session or header
- */
-async function getGitHubToken(request: NextRequest): Promise<string | null> {
-  // 1. Try session (logged-in user with OAuth)
-  const auth = await getAuth()
-  if (auth) {
-    try {
-      const session = await auth()
-      if (session?.accessToken) {
-        return session.accessToken
-      }
-    } catch {
-      // Auth not available, continue to header
-    }
-  }
-
-  // 2. Try header (manual entry)
-  const headerToken = request.headers.get('x-github-token')
-  if (headerToken) {
-    return headerToken
-  }
-
-  // 3. Try env fallback
-  if (process.env.GITHUB_TOKEN) {
-    return process.env.GITHUB_TOKEN
-  }
-
-  return null
-}
-
-/**
- * GET /api/repos?org=<org>&type=<org|user>
+ * GET /api/repos?org=<org>&type=<org|user>&provider=<github|gitlab>
  * List repositories for an organization or user
  *
  * If org is omitted, returns repos from all orgs the user has access to
+ * With provider=gitlab, orgs are GitLab groups and repos come back as "gitlab:group/project"
+ *
+ * Token resolution (GitHub): see getGitHubAuth. With a GitHub App, signed-in users also
+ * get the repos of its installations on owners they belong to
  *
- * Token resolution:
- * 1. OAuth session (if logged in)
- * 2. X-GitHub-Token header
- * 3. GITHUB_TOKEN env var
+ * GitLab: X-GitLab-Token header, then GITLAB_TOKEN env var
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const org = searchParams.get('org')
     const type = searchParams.get('type') || 'org' // 'org' or 'user'
+    const provider = (searchParams.get('provider') || 'github') as SourceProvider
 
-    const token = await getGitHubToken(request)
+    if (!SOURCE_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        createApiError(`Unknown provider "${provider}". Expected one of: ${SOURCE_PROVIDERS.join(', ')}`, 'INVALID_PROVIDER'),
+        { status: 400 }
+      )
+    }
 
+    if (provider === 'gitlab') {
+      const gitlabToken = getGitLabToken(request.headers)
+      if (!gitlabToken) {
+        return NextResponse.json(
+          createApiError(
+            'GitLab token required. Set GITLAB_TOKEN or provide X-GitLab-Token header.',
+            'MISSING_TOKEN'
+          ),
+          { status: 401 }
+        )
+      }
+      return NextResponse.json(createApiSuccess(await listRepos(createSourceClient('gitlab', gitlabToken), org, type)))
+    }
+
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const { token, appLogin } = await getGitHubAuth(request, githubHost)
     if (!token) {
       return NextResponse.json(
         createApiError(
@@ -75,48 +62,21 @@ export async function GET(request: NextRequest) {
     }
 
     // Create client
-    const client = await createGitHubClient(token)
-
-    // If org specified, fetch repos for that org/user only
-    if (org) {
-      const repos = type === 'user'
-        ? await client.listUserRepos(org)
-        : await client.listOrgRepos(org)
-
-      return NextResponse.json(createApiSuccess(repos))
+    const client = await createGitHubClient(token, githubHost)
+    if (!appLogin) {
+      return NextResponse.json(createApiSuccess(await listRepos(client, org, type)))
     }
 
-    // Otherwise, fetch repos from all orgs user has access to + personal repos
-    const orgs = await client.listUserOrgs()
-    console.log(`[api/repos] Fetching repos from ${orgs.length} orgs + personal repos`)
-
-    // Fetch repos from all orgs + personal repos in parallel
-    const [personalRepos, ...orgRepoLists] = await Promise.all([
-      // Personal repos
-      client.listAuthenticatedUserRepos().catch((error) => {
-        console.warn('[api/repos] Failed to fetch personal repos:', error)
+    // GitHub App: orgs that restrict OAuth apps only show up through its installations
+    const [installationRepos, userRepos] = await Promise.all([
+      listInstallationRepos(appLogin, org ?? undefined),
+      listRepos(client, org, type).catch((error) => {
+        console.warn('[api/repos] Failed to fetch repos with the user token:', error)
         return []
       }),
-      // Org repos
-      ...orgs.map(async (org) => {
-        try {
-          return await client.listOrgRepos(org.login)
-        } catch (error) {
-          console.warn(`[api/repos] Failed to fetch repos for org ${org.login}:`, error)
-          return []
-        }
-      })
     ])
-
-    // Flatten and deduplicate by fullName
-    const allRepos = [personalRepos, ...orgRepoLists].flat()
-    const uniqueRepos = Array.from(
-      new Map(allRepos.map(repo => [repo.fullName, repo])).values()
-    )
-
-    console.log(`[api/repos] Fetched ${uniqueRepos.length} unique repos (${personalRepos.length} personal + ${orgs.length} orgs)`)
-
-    return NextResponse.json(createApiSuccess(uniqueRepos))
+    const merged = new Map([...userRepos, ...installationRepos].map(repo => [repo.fullName, repo]))
+    return NextResponse.json(createApiSuccess(Array.from(merged.values())))
   } catch (error) {
     console.error('[api/repos] Error:', error)
 
@@ -127,3 +87,47 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+/**
+ * Repos for one org/user, or for every org the token's user belongs to plus their own
+ */
+async function listRepos(client: SourceClient, org: string | null, type: string): Promise<GitHubRepo[]> {
+  // If org specified, fetch repos for that org/user only
+  if (org) {
+    return type === 'user'
+      ? await client.listUserRepos(org)
+      : await client.listOrgRepos(org)
+  }
+
+  // Otherwise, fetch repos from all orgs user has access to + personal repos
+  const orgs = await client.listUserOrgs()
+  console.log(`[api/repos] Fetching repos from ${orgs.length} orgs + personal repos`)
+
+  // Fetch repos from all orgs + personal repos in parallel
+  const [personalRepos, ...orgRepoLists] = await Promise.all([
+    // Personal repos
+    client.listAuthenticatedUserRepos().catch((error) => {
+      console.warn('[api/repos] Failed to fetch personal repos:', error)
+      return []
+    }),
+    // Org repos
+    ...orgs.map(async (org) => {
+      try {
+        return await client.listOrgRepos(org.login)
+      } catch (error) {
+        console.warn(`[api/repos] Failed to fetch repos for org ${org.login}:`, error)
+        return []
+      }
+    })
+  ])
+
+  // Flatten and deduplicate by fullName
+  const allRepos = [personalRepos, ...orgRepoLists].flat()
+  const uniqueRepos = Array.from(
+    new Map(allRepos.map(repo => [repo.fullName, repo])).values()
+  )
+
+  console.log(`[api/repos] Fetched ${uniqueRepos.length} unique repos (${personalRepos.length} personal + ${orgs.length} orgs)`)
+
+  return uniqueRepos
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createGitHubClient } from '@/lib/github'
+import { GitHubClient } from '@/lib/github'
+import { createSourceClient, resolveGitHubHost, getGitLabToken } from '@/lib/source'
+import { resolveOwnerToken } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { parseRepoSource } from '@/lib/changeset'
 import { createApiSuccess, createApiError } from '@/lib/types'
 
 export const runtime = 'nodejs'
@@ -7,12 +11,15 @@ export const runtime = 'nodejs'
 /**
  * GET /api/repos/validate?repo=owner/name
  * Validate that a repository exists and is accessible
+ * GitLab projects are named "gitlab:group/project" (subgroups allowed)
+ *
+ * GitHub repos the token can't see fail with the reason as the code (MISSING_SCOPE,
+ * SSO_REQUIRED, NOT_GRANTED, NO_ACCESS, NOT_FOUND) and the RepoAccess as details
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const repo = searchParams.get('repo')
-    const token = request.headers.get('x-github-token') || process.env.GITHUB_TOKEN
 
     // Validation
     if (!repo) {
@@ -23,31 +30,53 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate format
-    if (!repo.includes('/') || repo.split('/').length !== 2) {
+    const { provider, path } = parseRepoSource(repo)
+    const segments = path.split('/')
+    if (segments.some(segment => !segment) || (provider === 'gitlab' ? segments.length < 2 : segments.length !== 2)) {
       return NextResponse.json(
-        createApiError('Invalid repo format. Expected: owner/name', 'INVALID_FORMAT'),
+        createApiError('Invalid repo format. Expected: owner/name or gitlab:group/project', 'INVALID_FORMAT'),
         { status: 400 }
       )
     }
 
+    // Public GitLab projects can be read without a token
+    if (provider === 'gitlab') {
+      const client = createSourceClient('gitlab', getGitLabToken(request.headers) ?? '')
+      const repoData = await client.getRepoMetadata(repo)
+      return NextResponse.json(createApiSuccess({ exists: true, repo: repoData }))
+    }
+
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
+
+    const { token, appLogin } = await getGitHubAuth(request, githubHost)
     if (!token) {
       return NextResponse.json(
         createApiError(
-          'GitHub token required. Set GITHUB_TOKEN in .env.local and restart server, or provide X-GitHub-Token header.',
+          'GitHub token required. Sign in, set GITHUB_TOKEN in .env.local and restart server, or provide X-GitHub-Token header.',
           'MISSING_TOKEN'
         ),
         { status: 401 }
       )
     }
 
-    // Create client and fetch repo metadata
-    const client = await createGitHubClient(token)
-    const repoData = await client.getRepoMetadata(repo)
+    // Create client (the owner's installation in GitHub App mode, when the user belongs to it)
+    const client = new GitHubClient(await resolveOwnerToken(segments[0], appLogin, token), githubHost)
+
+    // Private repos the token can't reach look missing; checkRepoAccess says why
+    const access = await client.checkRepoAccess(repo)
+    if (!access.visible) {
+      return NextResponse.json(
+        createApiError(access.message!, access.reason!.toUpperCase().replace(/-/g, '_'), access),
+        { status: access.reason === 'sso-required' ? 403 : 404 }
+      )
+    }
 
     return NextResponse.json(
       createApiSuccess({
         exists: true,
-        repo: repoData,
+        repo: access.repo,
+        access,
       })
     )
   } catch (error) {
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { GitHubClient } from '@/lib/github'
-import { createApiSuccess, createApiError } from '@/lib/types'
+import { createSourceClient, resolveGitHubHost, getGitLabToken, needsGitHubToken } from '@/lib/source'
+import { resolveOwnerToken } from '@/lib/githubApp'
+import { getGitHubAuth } from '@/lib/githubAuth'
+import { parseRepoSource, parseRepoTarget, selectionBranchLabel } from '@/lib/changeset'
+import { createApiSuccess, createApiError, RepoSelection } from '@/lib/types'
 
 export const runtime = 'nodejs'
 
@@ -14,7 +18,7 @@ export async function POST(request: NextRequest) {
     const {
       repos,
     }: {
-      repos: Array<{ fullName: string; branch: string }>
+      repos: RepoSelection[]
     } = body
 
     if (!repos || !Array.isArray(repos) || repos.length === 0) {
@@ -24,28 +28,51 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const githubToken = request.headers.get('x-github-token') || process.env.GITHUB_TOKEN
+    const githubHost = resolveGitHubHost(request.headers)
+    if (githubHost instanceof Response) return githubHost
 
-    if (!githubToken) {
+    const { token: githubToken, appLogin } = await getGitHubAuth(request, githubHost)
+    if (!githubToken && needsGitHubToken(repos)) {
       return NextResponse.json(
         createApiError('GitHub token required', 'MISSING_TOKEN'),
         { status: 401 }
       )
     }
 
-    const client = new GitHubClient(githubToken)
+    const clients = {
+      github: new GitHubClient(githubToken ?? '', githubHost),
+      gitlab: createSourceClient('gitlab', getGitLabToken(request.headers) ?? ''),
+    }
 
     // Fetch SHAs in parallel
     const shaPromises = repos.map(async (repo) => {
       try {
+        const { repo: repoName } = parseRepoTarget(repo.fullName) // Sub-directory targets share the repo's SHA
+        const { provider, path } = parseRepoSource(repoName)
+        // GitHub App mode: the owner's installation, when the signed-in user belongs to it
+        const client = appLogin && provider === 'github'
+          ? new GitHubClient(await resolveOwnerToken(path.split('/')[0], appLogin, githubToken!), githubHost)
+          : clients[provider]
+
         // If branch not specified, fetch repo metadata to get default branch
         let branchToUse = repo.branch
         if (!branchToUse) {
-          const metadata = await client.getRepoMetadata(repo.fullName)
+          const metadata = await client.getRepoMetadata(repoName)
           branchToUse = metadata.defaultBranch
         }
 
-        const sha = await client.fetchCurrentCommitSHA(repo.fullName, branchToUse)
+        // Pinned selections resolve the tag/SHA; the "branch@ref" label keys the cache
+        if (repo.ref) {
+          const sha = await client.resolveCommitSHA(repoName, repo.ref)
+          return {
+            fullName: repo.fullName,
+            branch: selectionBranchLabel({ ...repo, branch: branchToUse }),
+            sha,
+            error: null,
+          }
+        }
+
+        const sha = await client.fetchCurrentCommitSHA(repoName, branchToUse)
         return {
           fullName: repo.fullName,
           branch: branchToUse,
@@ -0,0 +1,293 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { FileManifestEntry } from "@/lib/types";
+
+interface FileManifestProps {
+  files: FileManifestEntry[];
+  onIgnore: (glob: string) => void; // Adds an ignore glob and triggers a repack
+}
+
+type SortKey = "path" | "language" | "approxTokens";
+
+interface TreemapTile {
+  entry: FileManifestEntry;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Treemap canvas in abstract units; rendered as percentages of the container
+const TREEMAP_WIDTH = 360;
+const TREEMAP_HEIGHT = 180;
+const TREEMAP_MAX_TILES = 60;
+
+/**
+ * Per-file token breakdown for one packed repo
+ * Sortable list plus treemap; both offer one-click ignore globs
+ */
+export function FileManifest({ files, onIgnore }: FileManifestProps) {
+  const [view, setView] = useState<"list" | "treemap">("list");
+  const [sortKey, setSortKey] = useState<SortKey>("approxTokens");
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const totalTokens = files.reduce((sum, f) => sum + f.approxTokens, 0);
+
+  const sortedFiles = useMemo(() => {
+    const sorted = [...files].sort((a, b) =>
+      sortKey === "approxTokens"
+        ? a.approxTokens - b.approxTokens
+        : a[sortKey].localeCompare(b[sortKey])
+    );
+    return sortDesc ? sorted.reverse() : sorted;
+  }, [files, sortKey, sortDesc]);
+
+  const tiles = useMemo(
+    () =>
+      view === "treemap"
+        ? layoutTreemap(
+            [...files]
+              .filter((f) => f.approxTokens > 0)
+              .sort((a, b) => b.approxTokens - a.approxTokens)
+              .slice(0, TREEMAP_MAX_TILES)
+          )
+        : [],
+    [files, view]
+  );
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(key === "approxTokens"); // Biggest first, names A-Z
+    }
+  };
+
+  const sortIndicator = (key: SortKey) =>
+    key === sortKey ? (sortDesc ? " ↓" : " ↑") : "";
+
+  if (files.length === 0) {
+    return (
+      <div className="text-[10px] text-muted-foreground p-2">
+        No per-file data for this pack
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-[10px]">
+        {(["list", "treemap"] as const).map((v) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`px-2 py-0.5 rounded border transition cursor-pointer ${
+              view === v
+                ? "border-brand-500 text-foreground"
+                : "border-border text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {v === "list" ? "List" : "Treemap"}
+          </button>
+        ))}
+        <span className="ml-auto text-muted-foreground">
+          {files.length} files • ~{totalTokens.toLocaleString()} tokens
+        </span>
+      </div>
+
+      {view === "list" ? (
+        <div className="max-h-60 overflow-y-auto rounded border border-border">
+          <table className="w-full text-[10px]">
+            <thead className="sticky top-0 bg-card text-muted-foreground">
+              <tr>
+                <th
+                  onClick={() => handleSort("path")}
+                  className="text-left font-medium px-2 py-1 cursor-pointer select-none"
+                >
+                  Path{sortIndicator("path")}
+                </th>
+                <th
+                  onClick={() => handleSort("language")}
+                  className="text-left font-medium px-2 py-1 cursor-pointer select-none"
+                >
+                  Lang{sortIndicator("language")}
+                </th>
+                <th
+                  onClick={() => handleSort("approxTokens")}
+                  className="text-right font-medium px-2 py-1 cursor-pointer select-none"
+                >
+                  Tokens{sortIndicator("approxTokens")}
+                </th>
+                <th className="w-12" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedFiles.map((file) => {
+                const dir = file.path.includes("/")
+                  ? file.path.slice(0, file.path.lastIndexOf("/"))
+                  : null;
+                return (
+                  <tr
+                    key={file.path}
+                    className="group border-t border-border/50 hover:bg-card"
+                  >
+                    <td
+                      className="px-2 py-1 font-mono text-foreground truncate max-w-[160px]"
+                      title={`${file.path} (${file.chars.toLocaleString()} chars)`}
+                    >
+                      {file.path}
+                    </td>
+                    <td className="px-2 py-1 text-muted-foreground">
+                      {file.language}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums text-foreground">
+                      {file.approxTokens.toLocaleString()}
+                      <span className="text-muted-foreground ml-1">
+                        {totalTokens > 0
+                          ? `${Math.round((file.approxTokens / totalTokens) * 100)}%`
+                          : ""}
+                      </span>
+                    </td>
+                    <td className="px-1 py-1 text-right whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => onIgnore(file.path)}
+                        className="px-1 text-muted-foreground hover:text-danger cursor-pointer"
+                        title={`Ignore ${file.path}`}
+                      >
+                        ×
+                      </button>
+                      {dir && (
+                        <button
+                          onClick={() => onIgnore(`${dir}/**`)}
+                          className="px-1 text-muted-foreground hover:text-danger cursor-pointer"
+                          title={`Ignore ${dir}/**`}
+                        >
+                          dir
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div>
+          <div
+            className="relative w-full rounded border border-border overflow-hidden"
+            style={{ aspectRatio: `${TREEMAP_WIDTH} / ${TREEMAP_HEIGHT}` }}
+          >
+            {tiles.map((tile) => (
+              <button
+                key={tile.entry.path}
+                onClick={() => onIgnore(tile.entry.path)}
+                title={`${tile.entry.path} — ~${tile.entry.approxTokens.toLocaleString()} tokens (click to ignore)`}
+                className="absolute border border-background/60 text-[9px] leading-tight text-white/90 text-left p-0.5 overflow-hidden hover:brightness-125 transition cursor-pointer"
+                style={{
+                  left: `${(tile.x / TREEMAP_WIDTH) * 100}%`,
+                  top: `${(tile.y / TREEMAP_HEIGHT) * 100}%`,
+                  width: `${(tile.w / TREEMAP_WIDTH) * 100}%`,
+                  height: `${(tile.h / TREEMAP_HEIGHT) * 100}%`,
+                  backgroundColor: languageColor(tile.entry.language),
+                }}
+              >
+                {tile.w > 40 && tile.h > 14 && tile.entry.path.split("/").pop()}
+              </button>
+            ))}
+          </div>
+          {files.length > TREEMAP_MAX_TILES && (
+            <p className="mt-1 text-[10px] text-muted-foreground">
+              Showing the {TREEMAP_MAX_TILES} largest files. Click a tile to ignore it.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Squarified treemap layout (Bruls, Huizing, van Wijk)
+ * Expects entries sorted by size, largest first
+ */
+function layoutTreemap(entries: FileManifestEntry[]): TreemapTile[] {
+  const total = entries.reduce((sum, e) => sum + e.approxTokens, 0);
+  if (total === 0) return [];
+
+  const scale = (TREEMAP_WIDTH * TREEMAP_HEIGHT) / total;
+  const items = entries.map((entry) => ({ entry, area: entry.approxTokens * scale }));
+  const tiles: TreemapTile[] = [];
+
+  let x = 0;
+  let y = 0;
+  let w = TREEMAP_WIDTH;
+  let h = TREEMAP_HEIGHT;
+  let start = 0;
+
+  // Aspect ratio of the worst tile if these areas are laid along a side
+  const worst = (areas: number[], side: number) => {
+    const sum = areas.reduce((a, b) => a + b, 0);
+    const max = Math.max(...areas);
+    const min = Math.min(...areas);
+    return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+  };
+
+  while (start < items.length) {
+    const side = Math.min(w, h);
+    let end = start + 1;
+
+    // Grow the row while it keeps tiles closer to square
+    while (
+      end < items.length &&
+      worst(items.slice(start, end + 1).map((i) => i.area), side) <=
+        worst(items.slice(start, end).map((i) => i.area), side)
+    ) {
+      end++;
+    }
+
+    const row = items.slice(start, end);
+    const rowArea = row.reduce((sum, i) => sum + i.area, 0);
+
+    if (w >= h) {
+      // Lay the row out as a column on the left
+      const colWidth = rowArea / h;
+      let offset = y;
+      for (const item of row) {
+        const tileHeight = item.area / colWidth;
+        tiles.push({ entry: item.entry, x, y: offset, w: colWidth, h: tileHeight });
+        offset += tileHeight;
+      }
+      x += colWidth;
+      w -= colWidth;
+    } else {
+      // Lay the row out along the top
+      const rowHeight = rowArea / w;
+      let offset = x;
+      for (const item of row) {
+        const tileWidth = item.area / rowHeight;
+        tiles.push({ entry: item.entry, x: offset, y, w: tileWidth, h: rowHeight });
+        offset += tileWidth;
+      }
+      y += rowHeight;
+      h -= rowHeight;
+    }
+
+    start = end;
+  }
+
+  return tiles;
+}
+
+/**
+ * Stable color per language (hue from a string hash)
+ */
+function languageColor(language: string): string {
+  let hash = 0;
+  for (let i = 0; i < language.length; i++) {
+    hash = (hash * 31 + language.charCodeAt(i)) >>> 0;
+  }
+  return `hsl(${hash % 360} 45% 42%)`;
+}
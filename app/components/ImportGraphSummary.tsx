@@ -0,0 +1,65 @@
+"use client";
+
+import { useMemo } from "react";
+import { ImportGraph, ImportGraphFile } from "@/lib/types";
+
+interface ImportGraphSummaryProps {
+  graph: ImportGraph;
+}
+
+/**
+ * Resolved dependency set of an import-graph slice, for the slice preview
+ * Files grouped by import distance from the entry points, each with its first importer
+ */
+export function ImportGraphSummary({ graph }: ImportGraphSummaryProps) {
+  const byDepth = useMemo(() => {
+    const groups = new Map<number, ImportGraphFile[]>();
+    for (const file of graph.files) {
+      groups.set(file.depth, [...(groups.get(file.depth) ?? []), file]);
+    }
+    return [...groups.entries()];
+  }, [graph]);
+
+  return (
+    <div className="space-y-1 text-[10px]">
+      <p className="text-muted-foreground">
+        Import graph: {graph.files.length} files within {graph.depth}{" "}
+        {graph.depth === 1 ? "hop" : "hops"} of {graph.entries.length}{" "}
+        {graph.entries.length === 1 ? "entry" : "entries"}
+      </p>
+      {graph.unresolved.length > 0 && (
+        <p className="text-warn">
+          Not found: {graph.unresolved.join(", ")}
+        </p>
+      )}
+      {graph.truncated && (
+        <p className="text-warn">
+          Stopped following imports at {graph.files.length} files; lower the depth to see the whole set.
+        </p>
+      )}
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {byDepth.map(([depth, files]) => (
+          <div key={depth}>
+            <div className="text-muted-foreground">
+              {depth === 0 ? "Entries" : `Depth ${depth}`}
+            </div>
+            {files.map((file) => (
+              <div
+                key={file.path}
+                className="flex items-center gap-2 pl-2 font-mono"
+                title={file.importedBy ? `Imported by ${file.importedBy}` : undefined}
+              >
+                <span className="text-foreground truncate">{file.path}</span>
+                {file.importedBy && (
+                  <span className="ml-auto flex-shrink-0 text-muted-foreground truncate max-w-[45%]">
+                    ← {file.importedBy.split("/").pop()}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
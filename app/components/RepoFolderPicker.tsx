@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Spinner } from "@/app/components/Spinner";
+
+interface RepoFolderPickerProps {
+  repoFullName: string;
+  branch?: string;
+  githubHost?: string; // Account's GitHub host (X-GitHub-Host); empty = the deployment's
+  isAdded: (path: string) => boolean;
+  onAdd: (path: string) => void;
+}
+
+/**
+ * Browse a repo's top-level directories and add them as separate entries
+ * For monorepos: each package packs on its own ("owner/repo//packages/foo")
+ */
+export function RepoFolderPicker({ repoFullName, branch, githubHost, isAdded, onAdd }: RepoFolderPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [directories, setDirectories] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDirectories = async () => {
+    setOpen(true);
+    if (directories) return;
+
+    try {
+      const params = new URLSearchParams({ repo: repoFullName });
+      if (branch) params.set("ref", branch);
+
+      const res = await fetch(`/api/repos/directories?${params}`, {
+        headers: {
+          ...(process.env.NEXT_PUBLIC_GITHUB_TOKEN && { "X-GitHub-Token": process.env.NEXT_PUBLIC_GITHUB_TOKEN }),
+          ...(githubHost && { "X-GitHub-Host": githubHost }),
+        },
+      });
+      const json = await res.json();
+
+      if (json.success) {
+        setDirectories(json.data);
+      } else {
+        setError(json.error || "Failed to list folders");
+      }
+    } catch (err) {
+      console.error(`[RepoFolderPicker] Error listing folders for ${repoFullName}:`, err);
+      setError("Failed to list folders");
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={loadDirectories}
+        className="mt-1 text-[10px] text-muted-foreground hover:text-foreground transition"
+      >
+        + Add folders
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] text-muted-foreground">Folders (each packs as its own entry):</span>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="text-[10px] text-muted-foreground hover:text-foreground transition"
+        >
+          hide
+        </button>
+      </div>
+      {error ? (
+        <div className="text-[10px] text-red-400">{error}</div>
+      ) : !directories ? (
+        <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+          <Spinner size="sm" />
+          <span>Loading folders...</span>
+        </div>
+      ) : directories.length === 0 ? (
+        <div className="text-[10px] text-muted-foreground">No folders at the top level</div>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {directories.map((path) => {
+            const added = isAdded(path);
+            return (
+              <button
+                key={path}
+                type="button"
+                disabled={added}
+                onClick={() => onAdd(path)}
+                className="px-1.5 py-0.5 text-[10px] rounded border border-border bg-secondary text-foreground hover:border-brand-500 disabled:opacity-50 disabled:cursor-default transition"
+              >
+                {added ? "✓ " : "+ "}
+                {path}/
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
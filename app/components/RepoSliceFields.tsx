@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { RepoSliceConfig } from "@/lib/types";
+
+type OutlineMode = "" | "on" | "off";
+
+interface RepoSliceFieldsProps {
+  value?: RepoSliceConfig;
+  onChange: (value: RepoSliceConfig | undefined) => void;
+}
+
+function toOutlineMode(value?: RepoSliceConfig): OutlineMode {
+  const outline = value?.reducers?.outline;
+  return outline === undefined ? "" : outline ? "on" : "off";
+}
+
+function toGlobList(value: string): string[] {
+  return value
+    .split(",")
+    .map((g) => g.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Per-repo include/ignore globs, entry points and outline mode for a selected repo row
+ * Empty fields inherit the global values; changes are committed on blur
+ */
+export function RepoSliceFields({ value, onChange }: RepoSliceFieldsProps) {
+  const [open, setOpen] = useState(!!value);
+  const [includeGlobs, setIncludeGlobs] = useState(value?.includeGlobs?.join(", ") ?? "");
+  const [ignoreGlobs, setIgnoreGlobs] = useState(value?.ignoreGlobs?.join(", ") ?? "");
+  const [entryPoints, setEntryPoints] = useState(value?.entryPoints?.join(", ") ?? "");
+  const [outline, setOutline] = useState<OutlineMode>(toOutlineMode(value));
+  const [fullContentGlobs, setFullContentGlobs] = useState(value?.fullContentGlobs?.join(", ") ?? "");
+
+  // Sync when the override changes externally (e.g., conversation load)
+  useEffect(() => {
+    setIncludeGlobs(value?.includeGlobs?.join(", ") ?? "");
+    setIgnoreGlobs(value?.ignoreGlobs?.join(", ") ?? "");
+    setEntryPoints(value?.entryPoints?.join(", ") ?? "");
+    setOutline(toOutlineMode(value));
+    setFullContentGlobs(value?.fullContentGlobs?.join(", ") ?? "");
+    if (value) setOpen(true);
+  }, [value]);
+
+  const handleBlur = (outlineMode: OutlineMode = outline) => {
+    const include = toGlobList(includeGlobs);
+    const ignore = toGlobList(ignoreGlobs);
+    const entries = toGlobList(entryPoints);
+    const full = toGlobList(fullContentGlobs);
+    // Drop the key rather than set it undefined, which would mask the global reducer on merge
+    const reducers: NonNullable<RepoSliceConfig["reducers"]> = { ...value?.reducers };
+    delete reducers.outline;
+    if (outlineMode) reducers.outline = outlineMode === "on";
+    const hasReducers = Object.keys(reducers).length > 0;
+
+    const next: RepoSliceConfig | undefined =
+      include.length > 0 || ignore.length > 0 || entries.length > 0 || full.length > 0 || hasReducers
+        ? {
+            ...value,
+            includeGlobs: include.length > 0 ? include : undefined,
+            ignoreGlobs: ignore.length > 0 ? ignore : undefined,
+            entryPoints: entries.length > 0 ? entries : undefined,
+            reducers: hasReducers ? reducers : undefined,
+            fullContentGlobs: full.length > 0 ? full : undefined,
+          }
+        : undefined;
+
+    if (JSON.stringify(next) !== JSON.stringify(value)) {
+      onChange(next);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="mt-1 text-[10px] text-muted-foreground hover:text-foreground transition"
+      >
+        + Custom slice
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-1.5 space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-muted-foreground w-10">Include:</span>
+        <input
+          type="text"
+          value={includeGlobs}
+          onChange={(e) => setIncludeGlobs(e.target.value)}
+          onBlur={() => handleBlur()}
+          placeholder="Global include globs"
+          className="flex-1 px-2 py-0.5 text-xs rounded border border-border bg-secondary text-foreground placeholder-muted-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-muted-foreground w-10">Ignore:</span>
+        <input
+          type="text"
+          value={ignoreGlobs}
+          onChange={(e) => setIgnoreGlobs(e.target.value)}
+          onBlur={() => handleBlur()}
+          placeholder="Global ignore globs"
+          className="flex-1 px-2 py-0.5 text-xs rounded border border-border bg-secondary text-foreground placeholder-muted-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-muted-foreground w-10">Entry:</span>
+        <input
+          type="text"
+          value={entryPoints}
+          onChange={(e) => setEntryPoints(e.target.value)}
+          onBlur={() => handleBlur()}
+          placeholder="Global entry points"
+          title="Files or symbols to follow imports from"
+          className="flex-1 px-2 py-0.5 text-xs rounded border border-border bg-secondary text-foreground placeholder-muted-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-muted-foreground w-10">Outline:</span>
+        <select
+          value={outline}
+          onChange={(e) => {
+            const mode = e.target.value as OutlineMode;
+            setOutline(mode);
+            handleBlur(mode);
+          }}
+          title="Symbol outline reducer for this repo"
+          className="px-1 py-0.5 text-xs rounded border border-border bg-secondary text-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
+        >
+          <option value="">Global</option>
+          <option value="on">On</option>
+          <option value="off">Off</option>
+        </select>
+        <input
+          type="text"
+          value={fullContentGlobs}
+          onChange={(e) => setFullContentGlobs(e.target.value)}
+          onBlur={() => handleBlur()}
+          placeholder="Global full-content globs"
+          title="Files kept whole when outlining"
+          className="flex-1 px-2 py-0.5 text-xs rounded border border-border bg-secondary text-foreground placeholder-muted-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
+        />
+      </div>
+    </div>
+  );
+}
@@ -6,19 +6,34 @@ import { useSession } from "next-auth/react";
 import {
   GitHubRepo,
   RepoSelection,
+  RepoSliceConfig,
   SliceConfig,
   PackResult,
+  PackRepoStage,
+  PreviewResult,
+  PreviewExclusionReason,
   TokenCountResult,
   Conversation,
+  OutputStyle,
+  OUTPUT_STYLES,
+  ThreadFilter,
+  ThreadKind,
+  RateLimitStatus,
 } from "@/lib/types";
 import { config } from "@/lib/config";
-import { loadCache, saveCache } from "@/lib/cache";
+import { loadCache, saveCache, type ThreadOptions } from "@/lib/cache";
 import { Spinner } from "@/app/components/Spinner";
 import { assemblePackedContext } from "@/lib/assembly";
+import { OUTPUT_STYLE_FILES, extractDirectoryStructure } from "@/lib/packFormat";
+import { readPackStream, waitForPackJob } from "@/lib/packResult";
 import { Chat } from "@/app/components/Chat";
 import { SystemPromptField } from "@/app/components/SystemPromptField";
 import { ThemeToggle } from "@/app/components/ThemeToggle";
 import { UserMenu } from "@/app/components/UserMenu";
+import { FileManifest } from "@/app/components/FileManifest";
+import { RepoSliceFields } from "@/app/components/RepoSliceFields";
+import { ImportGraphSummary } from "@/app/components/ImportGraphSummary";
+import { RepoFolderPicker } from "@/app/components/RepoFolderPicker";
 import {
   listConversations,
   createConversation,
@@ -26,6 +41,7 @@ import {
   deleteConversation,
 } from "@/lib/conversations";
 import { getCachedRepoBranches } from "@/lib/packCache";
+import { parseRefInput, isChangesetSelection, changesetLabel, parseRepoSource, parseRepoTarget, repoTargetName } from "@/lib/changeset";
 
 export default function Home() {
   // Auth state for conversation routing (server vs IndexedDB)
@@ -33,6 +49,11 @@ export default function Home() {
   const isAuthenticated = authStatus === "authenticated" && !!session;
 
   // State - initialize with defaults, load from cache after mount
+  // Connected account's GitHub server (web URL, one of GITHUB_ENTERPRISE_HOSTS); empty = the deployment's
+  // Signed-in sessions always use the deployment's host, so it only applies to token accounts
+  const [githubHost, setGithubHost] = useState("");
+  const accountGithubHost = isAuthenticated ? "" : githubHost;
+  const githubHostHeaders: Record<string, string> = accountGithubHost ? { "X-GitHub-Host": accountGithubHost } : {}; // Sent on every GitHub /api call
   const [orgName, setOrgName] = useState(
     process.env.NEXT_PUBLIC_GITHUB_ORG || "vana-com"
   );
@@ -42,6 +63,7 @@ export default function Home() {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [selectedRepos, setSelectedRepos] = useState<Set<string>>(new Set());
   const [repoBranches, setRepoBranches] = useState<Record<string, string>>({});
+  const [repoSliceConfigs, setRepoSliceConfigs] = useState<Record<string, RepoSliceConfig>>({}); // Per-repo slice overrides
   const [availableBranches, setAvailableBranches] = useState<Record<string, string[]>>({});
   const [focusedBranchInput, setFocusedBranchInput] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -53,12 +75,31 @@ export default function Home() {
   // Slice config
   const [includeGlobs, setIncludeGlobs] = useState("");
   const [ignoreGlobs, setIgnoreGlobs] = useState("");
+  const [entryPoints, setEntryPoints] = useState(""); // Import-graph slicing: comma-separated files or symbols
+  const [importDepth, setImportDepth] = useState(""); // Empty = default depth
   const [respectGitignore, setRespectGitignore] = useState(true);
   const [respectAiIgnore, setRespectAiIgnore] = useState(true);
   const [useDefaultPatterns, setUseDefaultPatterns] = useState(true);
+  const [outputStyle, setOutputStyle] = useState<OutputStyle>("xml");
+  const [redactSecrets, setRedactSecrets] = useState(true);
+  const [reducers, setReducers] = useState<NonNullable<SliceConfig["reducers"]>>({});
+  const [fullContentGlobs, setFullContentGlobs] = useState(""); // Outline reducer: comma-separated globs kept whole
+  const [commitLog, setCommitLog] = useState(""); // Recent commits to pack (GitHub API); empty = none
+  const [fileHistory, setFileHistory] = useState(false); // List each file's last change
+  const [sortByRecentChanges, setSortByRecentChanges] = useState(false); // Recently changed files first
+  const [fitBudget, setFitBudget] = useState(false);
+  const [tokenBudget, setTokenBudget] = useState(""); // Empty = selected model's input limit
+  const [includeUnchangedFiles, setIncludeUnchangedFiles] = useState(false); // PR/compare packs only
+  const [threadOptions, setThreadOptions] = useState<ThreadOptions>(DEFAULT_THREAD_OPTIONS); // Issues/PRs/discussions
+  const [threadLabels, setThreadLabels] = useState(""); // Comma-separated, applied on blur
+  const [backgroundPack, setBackgroundPack] = useState(false); // Pack as a server job that survives closing the tab
+  const [packJobId, setPackJobId] = useState<string | null>(null); // Background job being followed
 
   // Results
   const [packResult, setPackResult] = useState<PackResult | null>(null);
+  const [previewResult, setPreviewResult] = useState<PreviewResult | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [tokenResult, setTokenResult] = useState<TokenCountResult | null>(null);
   const [chatTokens, setChatTokens] = useState<number>(0); // Tokens from chat messages + draft
   const [userPrompt, setUserPrompt] = useState("");
@@ -83,6 +124,7 @@ export default function Home() {
       displayName: string;
       supportsThinking?: boolean;
       maxThinkingBudget?: number;
+      inputTokenLimit?: number;
     }>
   >([]);
   const [geminiModel, setGeminiModel] = useState<string>(
@@ -90,6 +132,7 @@ export default function Home() {
   );
   const [thinkingBudget, setThinkingBudget] = useState<number>(-1); // Default to auto (dynamic)
   const [systemPrompt, setSystemPrompt] = useState<string>(''); // Empty = use default
+  const modelInputLimit = availableModels.find((m) => m.name === geminiModel)?.inputTokenLimit;
 
   // Track last packed state to avoid unnecessary repacks
   const [lastPackedState, setLastPackedState] = useState<string | null>(null);
@@ -100,6 +143,13 @@ export default function Home() {
   // AbortController for cancelling in-flight requests
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  // Set when an ignore glob is added from the file breakdown, so the next render repacks
+  const repackOnIgnoreChangeRef = useRef(false);
+
+  // Slice preview: debounce timer and in-flight request
+  const previewTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const previewAbortRef = useRef<AbortController | null>(null);
+
   // Track if initial load is done
   const [initialLoadDone, setInitialLoadDone] = useState(false);
   const [cacheLoaded, setCacheLoaded] = useState(false);
@@ -112,6 +162,8 @@ export default function Home() {
   const [externalRepoError, setExternalRepoError] = useState<string | null>(
     null
   );
+  // Where to authorize the token when the repo's org enforces SSO
+  const [externalRepoSsoUrl, setExternalRepoSsoUrl] = useState<string | null>(null);
   const externalRepoTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   // Track all added external repos persistently (fullName -> GitHubRepo)
   const [addedExternalRepos, setAddedExternalRepos] = useState<
@@ -122,17 +174,39 @@ export default function Home() {
   const [packCacheStatus, setPackCacheStatus] = useState<
     "fresh" | "miss" | null
   >(null);
+  // Live per-repo status while a pack streams in (fullName -> stage)
+  const [repoPackStatus, setRepoPackStatus] = useState<
+    Record<string, PackRepoStage | "queued" | "done" | "error">
+  >({});
 
   // Load from cache on mount (client-side only to avoid hydration mismatch)
   useEffect(() => {
     const cache = loadCache();
     setSelectedRepos(new Set(cache.selectedRepos));
     setRepoBranches(cache.repoBranches);
+    setRepoSliceConfigs(cache.repoSliceConfigs ?? {});
     setIncludeGlobs(cache.includeGlobs);
     setIgnoreGlobs(cache.ignoreGlobs);
+    setEntryPoints(cache.entryPoints ?? "");
+    setImportDepth(cache.importDepth ?? "");
     setRespectGitignore(cache.respectGitignore);
     setRespectAiIgnore(cache.respectAiIgnore ?? true); // Default true for new users
     setUseDefaultPatterns(cache.useDefaultPatterns);
+    setOutputStyle(cache.outputStyle ?? "xml");
+    setRedactSecrets(cache.redactSecrets ?? true);
+    setReducers(cache.reducers ?? {});
+    setFullContentGlobs(cache.fullContentGlobs ?? "");
+    setCommitLog(cache.commitLog ?? "");
+    setFileHistory(cache.fileHistory ?? false);
+    setSortByRecentChanges(cache.sortByRecentChanges ?? false);
+    setFitBudget(cache.fitBudget ?? false);
+    setTokenBudget(cache.tokenBudget ?? "");
+    setIncludeUnchangedFiles(cache.includeUnchangedFiles ?? false);
+    setThreadOptions(cache.threadOptions ?? DEFAULT_THREAD_OPTIONS);
+    setThreadLabels(cache.threadLabels ?? "");
+    setBackgroundPack(cache.backgroundPack ?? false);
+    setPackJobId(cache.packJobId ?? null);
+    setGithubHost(cache.githubHost ?? "");
     setUserPrompt(cache.userPrompt);
     setGeminiModel(cache.geminiModel ?? config.gemini.defaultModel);
     setThinkingBudget(cache.thinkingBudget ?? -1); // Default auto
@@ -242,6 +316,13 @@ export default function Home() {
     });
   }, []);
 
+  // Reload repos when the account's GitHub host changes (including when it's restored from the cache)
+  useEffect(() => {
+    if (!cacheLoaded) return;
+    setAvailableBranches({});
+    handleLoadRepos();
+  }, [accountGithubHost]);
+
   // Load cached repo+branch combinations on mount
   useEffect(() => {
     async function loadCachedRepoBranches() {
@@ -261,7 +342,12 @@ export default function Home() {
   useEffect(() => {
     if (initialLoadDone && selectedRepos.size > 0 && !packResult) {
       const currentState = getStateHash();
-      handlePack();
+      // A background pack started before the tab was closed: pick it up instead of re-packing
+      if (packJobId) {
+        handleResumePackJob(packJobId);
+      } else {
+        handlePack();
+      }
       setLastPackedState(currentState);
     }
   }, [initialLoadDone]);
@@ -273,11 +359,29 @@ export default function Home() {
     saveCache({
       selectedRepos: Array.from(selectedRepos),
       repoBranches,
+      repoSliceConfigs,
       includeGlobs,
       ignoreGlobs,
+      entryPoints,
+      importDepth,
       respectGitignore,
       respectAiIgnore,
       useDefaultPatterns,
+      outputStyle,
+      redactSecrets,
+      reducers,
+      fullContentGlobs,
+      commitLog,
+      fileHistory,
+      sortByRecentChanges,
+      fitBudget,
+      tokenBudget,
+      includeUnchangedFiles,
+      threadOptions,
+      threadLabels,
+      backgroundPack,
+      packJobId: packJobId ?? undefined,
+      githubHost,
       userPrompt,
       externalRepos: Array.from(addedExternalRepos.values()),
       geminiModel,
@@ -288,11 +392,29 @@ export default function Home() {
     cacheLoaded,
     selectedRepos,
     repoBranches,
+    repoSliceConfigs,
     includeGlobs,
     ignoreGlobs,
+    entryPoints,
+    importDepth,
     respectGitignore,
     respectAiIgnore,
     useDefaultPatterns,
+    outputStyle,
+    redactSecrets,
+    reducers,
+    fullContentGlobs,
+    commitLog,
+    fileHistory,
+    sortByRecentChanges,
+    fitBudget,
+    tokenBudget,
+    includeUnchangedFiles,
+    threadOptions,
+    threadLabels,
+    backgroundPack,
+    packJobId,
+    githubHost,
     userPrompt,
     addedExternalRepos,
     geminiModel,
@@ -305,20 +427,50 @@ export default function Home() {
     return JSON.stringify({
       selectedRepos: Array.from(selectedRepos).sort(),
       repoBranches,
+      repoSliceConfigs,
       includeGlobs,
       ignoreGlobs,
+      entryPoints,
+      importDepth,
       respectGitignore,
       respectAiIgnore,
       useDefaultPatterns,
+      outputStyle,
+      redactSecrets,
+      reducers,
+      fullContentGlobs,
+      commitLog,
+      fileHistory,
+      sortByRecentChanges,
+      fitBudget,
+      tokenBudget,
+      includeUnchangedFiles,
+      threadOptions,
+      threadLabels,
     });
   }, [
     selectedRepos,
     repoBranches,
+    repoSliceConfigs,
     includeGlobs,
     ignoreGlobs,
+    entryPoints,
+    importDepth,
     respectGitignore,
     respectAiIgnore,
     useDefaultPatterns,
+    outputStyle,
+    redactSecrets,
+    reducers,
+    fullContentGlobs,
+    commitLog,
+    fileHistory,
+    sortByRecentChanges,
+    fitBudget,
+    tokenBudget,
+    includeUnchangedFiles,
+    threadOptions,
+    threadLabels,
   ]);
 
   // Conversations are now independent of repo selection
@@ -354,7 +506,7 @@ export default function Home() {
 
       return () => clearTimeout(timeoutId);
     }
-  }, [selectedRepos, respectGitignore, respectAiIgnore, useDefaultPatterns]);
+  }, [selectedRepos, repoSliceConfigs, respectGitignore, respectAiIgnore, useDefaultPatterns, outputStyle, redactSecrets, reducers, fitBudget, includeUnchangedFiles, threadOptions, fileHistory, sortByRecentChanges]);
 
   // Debounced validation for external repos
   useEffect(() => {
@@ -366,6 +518,7 @@ export default function Home() {
     // Reset validation state
     setValidatedExternalRepo(null);
     setExternalRepoError(null);
+    setExternalRepoSsoUrl(null);
 
     // Check if search input contains a slash (external repo pattern)
     if (!repoFilter.includes("/")) {
@@ -377,10 +530,13 @@ export default function Home() {
     const input = repoFilter.trim();
     setExternalRepoInput(input);
 
-    // Validate format (must be owner/repo)
-    const parts = input.split("/");
-    if (parts.length !== 2 || !parts[0] || !parts[1]) {
-      setExternalRepoError("Use format: owner/repo");
+    // Validate format (must be owner/repo, or owner/repo//path for a sub-directory)
+    // GitLab projects take a "gitlab:" prefix and may sit in subgroups
+    const target = parseRepoTarget(input);
+    const { provider, path } = parseRepoSource(target.repo);
+    const parts = path.split("/");
+    if (parts.some((part) => !part) || (provider === "gitlab" ? parts.length < 2 : parts.length !== 2)) {
+      setExternalRepoError("Use format: owner/repo, gitlab:group/project or owner/repo//path");
       return;
     }
 
@@ -389,16 +545,21 @@ export default function Home() {
     externalRepoTimeoutRef.current = setTimeout(async () => {
       try {
         const res = await fetch(
-          `/api/repos/validate?repo=${encodeURIComponent(input)}`
+          `/api/repos/validate?repo=${encodeURIComponent(target.repo)}`,
+          { headers: githubHostHeaders }
         );
         const json = await res.json();
 
         if (json.success) {
-          setValidatedExternalRepo(json.data.repo);
+          setValidatedExternalRepo(
+            target.subPath ? repoFolderEntry(json.data.repo, target.subPath) : json.data.repo
+          );
           setExternalRepoError(null);
         } else {
+          // GitHub failures explain why the repo is hidden (scope, SSO, token grant, membership)
           setValidatedExternalRepo(null);
           setExternalRepoError(json.error || "Repository not found");
+          setExternalRepoSsoUrl(json.details?.ssoUrl ?? null);
         }
       } catch (error) {
         setValidatedExternalRepo(null);
@@ -426,11 +587,12 @@ export default function Home() {
 
     try {
       const res = await fetch(
-        `/api/repos/branches?repo=${encodeURIComponent(repoFullName)}`,
+        `/api/repos/branches?repo=${encodeURIComponent(parseRepoTarget(repoFullName).repo)}`,
         {
-          headers: process.env.NEXT_PUBLIC_GITHUB_TOKEN
-            ? { "X-GitHub-Token": process.env.NEXT_PUBLIC_GITHUB_TOKEN }
-            : {},
+          headers: {
+            ...(process.env.NEXT_PUBLIC_GITHUB_TOKEN && { "X-GitHub-Token": process.env.NEXT_PUBLIC_GITHUB_TOKEN }),
+            ...githubHostHeaders,
+          },
         }
       );
 
@@ -451,6 +613,16 @@ export default function Home() {
     }
   };
 
+  // Add a repo folder as its own selected entry (shares the repo's branch override)
+  const handleAddRepoFolder = (repo: GitHubRepo, path: string) => {
+    const entry = repoFolderEntry(repo, path);
+    setAddedExternalRepos((prev) => new Map(prev).set(entry.fullName, entry));
+    setSelectedRepos((prev) => new Set(prev).add(entry.fullName));
+    if (repoBranches[repo.fullName]) {
+      setRepoBranches({ ...repoBranches, [entry.fullName]: repoBranches[repo.fullName] });
+    }
+  };
+
   // Handler for text input blur (globs, prompt, branches)
   const handleTextBlur = () => {
     if (selectedRepos.size === 0) return;
@@ -462,6 +634,26 @@ export default function Home() {
     }
   };
 
+  // One-click ignore from the file breakdown (appends glob, then repacks)
+  // The slice preview passes repack=false; it refreshes itself instead
+  const handleAddIgnoreGlob = (glob: string, repack = true) => {
+    const existing = ignoreGlobs
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean);
+    if (existing.includes(glob)) return;
+
+    repackOnIgnoreChangeRef.current = repack;
+    setIgnoreGlobs([...existing, glob].join(","));
+  };
+
+  // Repack once the new ignore glob is in state (handleTextBlur needs the updated closure)
+  useEffect(() => {
+    if (!repackOnIgnoreChangeRef.current) return;
+    repackOnIgnoreChangeRef.current = false;
+    handleTextBlur();
+  }, [ignoreGlobs]);
+
   // Handlers
   const handleLoadRepos = async () => {
     setLoading(true);
@@ -469,7 +661,11 @@ export default function Home() {
 
     try {
       // Fetch repos from all orgs user has access to (no org parameter)
-      const res = await fetch(`/api/repos`);
+      // GitLab groups too, when the server has a GitLab token (skipped otherwise)
+      const [res, gitlabRes] = await Promise.all([
+        fetch(`/api/repos`, { headers: githubHostHeaders }),
+        fetch(`/api/repos?provider=gitlab`, { headers: githubHostHeaders }).catch(() => null),
+      ]);
 
       const json = await res.json();
 
@@ -477,7 +673,8 @@ export default function Home() {
         throw new Error(json.error);
       }
 
-      setRepos(json.data);
+      const gitlabJson = gitlabRes?.ok ? await gitlabRes.json() : null;
+      setRepos(gitlabJson?.success ? [...json.data, ...gitlabJson.data] : json.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load repos");
     } finally {
@@ -485,6 +682,205 @@ export default function Home() {
     }
   };
 
+  // Slice config from the current form state
+  const buildSliceConfig = (): SliceConfig => ({
+    includeGlobs: includeGlobs
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean),
+    ignoreGlobs: ignoreGlobs
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean),
+    entryPoints: entryPoints
+      .split(",")
+      .map((e) => e.trim())
+      .filter(Boolean),
+    importDepth: importDepth ? parseInt(importDepth, 10) : undefined,
+    respectGitignore,
+    respectAiIgnore,
+    useDefaultPatterns,
+    outputStyle,
+    redactSecrets,
+    reducers,
+    fullContentGlobs: fullContentGlobs
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean),
+    commitLog: commitLog ? parseInt(commitLog, 10) : undefined,
+    fileHistory,
+    sortByRecentChanges,
+  });
+
+  // Build repo selections with proper branch resolution
+  // Use explicit override if set, otherwise fall back to repo's defaultBranch
+  // The override can also be "#123" (pull request) or "base...head" (compare range)
+  const buildRepoSelections = () => {
+    const allRepos = [...repos, ...Array.from(addedExternalRepos.values())];
+    return Array.from(selectedRepos).map((fullName) => {
+      const repo = allRepos.find(r => r.fullName === fullName);
+      const ref = parseRefInput(repoBranches[fullName] || "");
+      const isChangeset = isChangesetSelection({ fullName, ...ref });
+      return {
+        fullName,
+        ...ref,
+        branch: ref.branch || repo?.defaultBranch || 'main',
+        ...(isChangeset && { includeUnchanged: includeUnchangedFiles }),
+        ...(repoSliceConfigs[fullName] && { sliceConfig: repoSliceConfigs[fullName] }),
+        ...(threadOptions.enabled && { threads: buildThreadFilter() }),
+      };
+    });
+  };
+
+  // Issues/PRs/discussions filter shared by every selected repo
+  const buildThreadFilter = (): ThreadFilter => {
+    const labels = threadLabels
+      .split(",")
+      .map((l) => l.trim())
+      .filter(Boolean);
+    return {
+      kinds: threadOptions.kinds,
+      state: threadOptions.state,
+      ...(labels.length > 0 && { labels }),
+      ...(threadOptions.since && { since: threadOptions.since }),
+    };
+  };
+
+  // Dry run: list the files the current slice would pack, without packing
+  const handlePreview = async () => {
+    if (selectedRepos.size === 0) {
+      setPreviewResult(null);
+      return;
+    }
+
+    previewAbortRef.current?.abort();
+    const abortController = new AbortController();
+    previewAbortRef.current = abortController;
+
+    setPreviewing(true);
+    setPreviewError(null);
+
+    try {
+      const res = await fetch("/api/pack/preview", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...githubHostHeaders,
+        },
+        signal: abortController.signal,
+        body: JSON.stringify({
+          repos: buildRepoSelections(),
+          sliceConfig: buildSliceConfig(),
+        }),
+      });
+
+      const json = await res.json();
+
+      if (!json.success) {
+        throw new Error(json.error);
+      }
+
+      setPreviewResult(json.data);
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") {
+        return;
+      }
+      setPreviewError(err instanceof Error ? err.message : "Failed to preview slice");
+    } finally {
+      if (previewAbortRef.current === abortController) {
+        setPreviewing(false);
+      }
+    }
+  };
+
+  // Once a preview is showing, keep it live while globs are tuned (debounced)
+  useEffect(() => {
+    if (!previewResult) return;
+
+    if (previewTimeoutRef.current) {
+      clearTimeout(previewTimeoutRef.current);
+    }
+    previewTimeoutRef.current = setTimeout(handlePreview, 600);
+
+    return () => {
+      if (previewTimeoutRef.current) {
+        clearTimeout(previewTimeoutRef.current);
+      }
+    };
+  }, [
+    selectedRepos,
+    repoBranches,
+    repoSliceConfigs,
+    includeGlobs,
+    ignoreGlobs,
+    entryPoints,
+    importDepth,
+    respectGitignore,
+    respectAiIgnore,
+    useDefaultPatterns,
+  ]);
+
+  // Poll a background pack job, showing per-repo status and finished repos as they land
+  // The job is forgotten once it finishes; an abort only stops polling
+  const followPackJob = async (jobId: string, signal: AbortSignal) => {
+    try {
+      return await waitForPackJob(jobId, {
+        signal,
+        githubHost: accountGithubHost,
+        onUpdate: (job) => {
+          setRepoPackStatus(job.progress);
+          if (job.result.repos.length > 0) {
+            setPackResult(job.result);
+          }
+        },
+      });
+    } finally {
+      if (!signal.aborted) {
+        setPackJobId((current) => (current === jobId ? null : current));
+      }
+    }
+  };
+
+  // Pick up a background pack started before the tab was closed
+  const handleResumePackJob = async (jobId: string) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setLoading(true);
+    setError(null);
+    setPackCacheStatus("miss");
+
+    try {
+      const job = await followPackJob(jobId, abortController.signal);
+      const result = job.result;
+      setPackResult(result);
+
+      // Land the finished repos in the browser cache, keyed on the commits they were packed at
+      if (!result.repos.some((r) => r.budget)) {
+        const { storePackResult } = await import("@/lib/packCacheClient");
+        const packedSHAs = Object.fromEntries(
+          result.repos
+            .filter((r) => r.commitSha)
+            .map((r) => [r.repo, { sha: r.commitSha!, branch: r.branch }])
+        );
+        // Keyed on the request the job ran, not the UI's current selections
+        await storePackResult(job.repos, job.sliceConfig, result, packedSHAs);
+        setCachedRepos(await getCachedRepoBranches());
+      }
+
+      if (!abortController.signal.aborted) {
+        await handleCountTokens(result, abortController.signal);
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") {
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Background pack failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePack = useCallback(async () => {
     if (selectedRepos.size === 0) {
       setError("Select at least one repo");
@@ -499,39 +895,26 @@ export default function Home() {
     setError(null);
     setTokenResult(null);
     setPackCacheStatus(null);
+    setRepoPackStatus({});
+    setPackJobId(null); // A new pack replaces any background job being followed
     // Keep existing packResult during re-pack to avoid UI flash
 
     try {
-      const sliceConfig: SliceConfig = {
-        includeGlobs: includeGlobs
-          .split(",")
-          .map((g) => g.trim())
-          .filter(Boolean),
-        ignoreGlobs: ignoreGlobs
-          .split(",")
-          .map((g) => g.trim())
-          .filter(Boolean),
-        respectGitignore,
-        respectAiIgnore,
-        useDefaultPatterns,
-      };
+      const sliceConfig = buildSliceConfig();
+      const repoSelections = buildRepoSelections();
 
-      // Build repo selections with proper branch resolution
-      // Use explicit override if set, otherwise fall back to repo's defaultBranch
-      const allRepos = [...repos, ...Array.from(addedExternalRepos.values())];
-      const repoSelections = Array.from(selectedRepos).map((fullName) => {
-        const repo = allRepos.find(r => r.fullName === fullName);
-        return {
-          fullName,
-          branch: repoBranches[fullName] || repo?.defaultBranch || 'main',
-        };
-      });
+      // Fit-to-budget target: custom value, else the selected model's input limit
+      const targetTokens = fitBudget ? parseInt(tokenBudget, 10) || modelInputLimit : undefined;
 
       // Step 1: Fetch current SHAs for all repos (~200ms)
       const { fetchRepoSHAs, checkPackCache, storePackResult } = await import(
         "@/lib/packCacheClient"
       );
-      const currentSHAs = await fetchRepoSHAs(repoSelections, undefined); // Uses default GitHub token
+      const currentSHAs = await fetchRepoSHAs(
+        repoSelections.filter((r) => !isChangesetSelection(r)), // PR/compare packs aren't cached
+        undefined, // Uses default GitHub token
+        accountGithubHost
+      );
 
       // Step 2: Check cache with SHAs (~10ms)
       const cacheCheck = await checkPackCache(
@@ -543,7 +926,8 @@ export default function Home() {
       // Step 3: Use cache if all-fresh, otherwise pack
       let result: PackResult;
 
-      if (cacheCheck.cacheStatus === "all-fresh" && cacheCheck.result) {
+      // Fitted packs are built server-side from the cache, so skip the browser cache
+      if (!targetTokens && cacheCheck.cacheStatus === "all-fresh" && cacheCheck.result) {
         // Cache hit! Return instantly (<200ms total)
         console.log("✅ Cache hit: all repos fresh");
         result = cacheCheck.result;
@@ -553,28 +937,64 @@ export default function Home() {
         console.log(`🔄 Cache ${cacheCheck.cacheStatus}: packing via API`);
         setPackCacheStatus("miss");
 
-        const res = await fetch("/api/pack", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          signal: abortController.signal,
-          body: JSON.stringify({
-            repos: repoSelections,
-            sliceConfig,
-          }),
+        // Streamed: per-repo status in the repo list, finished repos shown as they land
+        setRepoPackStatus(
+          Object.fromEntries(repoSelections.map((r) => [r.fullName, "queued" as const]))
+        );
+        const packBody = JSON.stringify({
+          repos: repoSelections,
+          sliceConfig,
+          tokenBudget: targetTokens,
         });
 
-        const json = await res.json();
+        if (backgroundPack) {
+          // Background job: the server keeps packing if this tab closes
+          const res = await fetch("/api/pack/jobs", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...githubHostHeaders,
+            },
+            signal: abortController.signal,
+            body: packBody,
+          });
+          const json = await res.json();
+
+          if (!json.success) {
+            throw new Error(json.error);
+          }
 
-        if (!json.success) {
-          throw new Error(json.error);
+          setPackJobId(json.data.job.id);
+          result = (await followPackJob(json.data.job.id, abortController.signal)).result;
+        } else {
+          const res = await fetch("/api/pack/stream", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              ...githubHostHeaders,
+            },
+            signal: abortController.signal,
+            body: packBody,
+          });
+
+          result = await readPackStream(
+            res,
+            repoSelections.map((r) => r.fullName),
+            (event, partial, progress) => {
+              if (event.type === "progress" || event.type === "repo") {
+                setRepoPackStatus(progress);
+              }
+              if (event.type === "repo") {
+                setPackResult(partial);
+              }
+            }
+          );
         }
 
-        result = json.data;
-
-        // Store result in cache for next time
-        await storePackResult(repoSelections, sliceConfig, result, currentSHAs);
+        // Store result in cache for next time (fitted output no longer matches its slice config)
+        if (!result.repos.some((r) => r.budget)) {
+          await storePackResult(repoSelections, sliceConfig, result, currentSHAs);
+        }
 
         // Refresh cached repos list after successful pack
         const updatedCached = await getCachedRepoBranches();
@@ -583,10 +1003,15 @@ export default function Home() {
 
       setPackResult(result);
 
-      // Save repo selections to active conversation
+      // Save repo selections to active conversation, with the exact commits packed
+      // so the conversation can be re-opened against the same code later
       if (activeConversationId) {
-        await updateConversation(activeConversationId, isAuthenticated, { repoSelections });
-        console.log("[page] Saved repo selections to conversation:", repoSelections);
+        const resolvedSelections = repoSelections.map((selection) => {
+          const packed = result.repos.find((r) => r.repo === selection.fullName && !r.error);
+          return packed?.commitSha ? { ...selection, resolvedSha: packed.commitSha } : selection;
+        });
+        await updateConversation(activeConversationId, isAuthenticated, { repoSelections: resolvedSelections });
+        console.log("[page] Saved repo selections to conversation:", resolvedSelections);
       }
 
       // Auto-count tokens with Gemini (will update the estimate)
@@ -605,11 +1030,28 @@ export default function Home() {
   }, [
     selectedRepos,
     repoBranches,
+    repoSliceConfigs,
     includeGlobs,
     ignoreGlobs,
+    entryPoints,
+    importDepth,
     respectGitignore,
     respectAiIgnore,
     useDefaultPatterns,
+    outputStyle,
+    redactSecrets,
+    reducers,
+    fullContentGlobs,
+    commitLog,
+    fileHistory,
+    sortByRecentChanges,
+    fitBudget,
+    tokenBudget,
+    modelInputLimit,
+    includeUnchangedFiles,
+    threadOptions,
+    threadLabels,
+    backgroundPack,
     // Note: userPrompt intentionally excluded - prompt changes should NOT trigger re-packing
     // handleCountTokens will use current prompt value when called
   ]);
@@ -625,7 +1067,8 @@ export default function Home() {
       // This allows prompt changes to trigger re-counting without re-packing!
       const contextText = assemblePackedContext(
         result.repos.filter((r) => !r.error),
-        userPrompt
+        userPrompt,
+        getPackStyle(result)
       );
 
       const res = await fetch("/api/tokens", {
@@ -672,7 +1115,8 @@ export default function Home() {
     // This allows prompt to be changed without re-packing!
     return assemblePackedContext(
       packResult.repos.filter((r) => !r.error),
-      userPrompt
+      userPrompt,
+      getPackStyle(packResult)
     );
   };
 
@@ -685,7 +1129,8 @@ export default function Home() {
     // Chat component will add conversation-specific context
     return assemblePackedContext(
       packResult.repos.filter((r) => !r.error),
-      undefined // No prompt - just pure packed repos
+      undefined, // No prompt - just pure packed repos
+      getPackStyle(packResult)
     );
   };
 
@@ -718,15 +1163,24 @@ export default function Home() {
     }, 3000);
   };
 
+  const handleCopy = async () => {
+    if (!packResult) return;
+
+    await navigator.clipboard.writeText(getCompleteContext());
+    setCopiedMessage("✓ Copied to clipboard");
+    setTimeout(() => setCopiedMessage(null), 2000);
+  };
+
   const handleDownload = () => {
     if (packResult) {
+      const fileInfo = OUTPUT_STYLE_FILES[getPackStyle(packResult)];
       const blob = new Blob([getCompleteContext()], {
-        type: "text/plain",
+        type: fileInfo.mimeType,
       });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `vana-query-${Date.now()}.txt`;
+      a.download = `vana-query-${Date.now()}.${fileInfo.extension}`;
       a.click();
       URL.revokeObjectURL(url);
 
@@ -741,6 +1195,7 @@ export default function Home() {
     entryCount: number;
     totalSizeMB: number;
   } | null>(null);
+  const [rateLimit, setRateLimit] = useState<RateLimitStatus | null>(null); // GitHub API headroom
 
   const handleClearCache = async () => {
     if (!confirm("Clear all cached packed repos? This cannot be undone.")) {
@@ -771,6 +1226,7 @@ export default function Home() {
       // Clear repo selections and packed result for fresh start
       setSelectedRepos(new Set());
       setRepoBranches({});
+      setRepoSliceConfigs({});
       setPackResult(null);
       setTokenResult(null);
       setError(null);
@@ -795,11 +1251,34 @@ export default function Home() {
     // Restore branch overrides
     const branchOverrides: Record<string, string> = {};
     repoSelections.forEach(r => {
-      if (r.branch) {
-        branchOverrides[r.fullName] = r.branch;
+      // Pin to the commit the conversation was packed at, if known
+      const ref = changesetLabel(r)
+        || (r.resolvedSha ? `${r.branch || ""}@${r.resolvedSha}` : r.branch);
+      if (ref) {
+        branchOverrides[r.fullName] = ref;
       }
     });
     setRepoBranches(branchOverrides);
+    setRepoSliceConfigs(
+      Object.fromEntries(
+        repoSelections.filter((r) => r.sliceConfig).map((r) => [r.fullName, r.sliceConfig!])
+      )
+    );
+    if (repoSelections.some(isChangesetSelection)) {
+      setIncludeUnchangedFiles(repoSelections.some(r => r.includeUnchanged));
+    }
+    const threads = repoSelections.find((r) => r.threads)?.threads;
+    setThreadOptions(
+      threads
+        ? {
+            enabled: true,
+            kinds: threads.kinds ?? DEFAULT_THREAD_OPTIONS.kinds,
+            state: threads.state ?? "all",
+            since: threads.since?.split("T")[0] ?? "",
+          }
+        : { ...threadOptions, enabled: false }
+    );
+    if (threads) setThreadLabels(threads.labels?.join(", ") ?? "");
 
     // Clear pack results when switching conversations
     // User needs to re-pack if they want to see context for this conversation
@@ -919,6 +1398,19 @@ export default function Home() {
     })();
   }, [packResult]); // Refresh after packing
 
+  // Load GitHub rate limit headroom (conditional requests that hit the cache don't use it)
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/rate-limit", { headers: githubHostHeaders });
+        const json = await res.json();
+        setRateLimit(json.success ? json.data : null);
+      } catch (error) {
+        console.error("Failed to load rate limit:", error);
+      }
+    })();
+  }, [repos, packResult]); // Refresh after loading repos and packing
+
   // Merge org repos with external repos (deduplicate by fullName), filter, and sort by last updated
   const allRepos = [
     ...repos,
@@ -1102,6 +1594,20 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* GitHub server for token accounts (signed-in sessions use the deployment's) */}
+              {!isAuthenticated && (
+                <input
+                  key={githubHost}
+                  type="url"
+                  defaultValue={githubHost}
+                  onBlur={(e) => setGithubHost(e.target.value.trim().replace(/\/+$/, ""))}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                  placeholder={`GitHub server (${config.github.webUrl})`}
+                  title="Your account's GitHub Enterprise server, if it isn't this deployment's. It must be listed in GITHUB_ENTERPRISE_HOSTS."
+                  className="input text-xs mb-3"
+                />
+              )}
+
               {/* Token Meter / Loading State */}
               {(loading || (packResult && tokenResult)) && (
                 <>
@@ -1169,6 +1675,21 @@ export default function Home() {
                     )}
                   </div>
 
+                  {tokenResult?.status === "over" && !fitBudget && !loading && (
+                    <div className="mt-2 text-[10px] text-warn">
+                      Over the model&apos;s limit.{" "}
+                      <button
+                        onClick={() => {
+                          setFitBudget(true);
+                          setShowAdvanced(true);
+                        }}
+                        className="underline hover:text-warn/80 transition cursor-pointer"
+                      >
+                        Fit to budget
+                      </button>
+                    </div>
+                  )}
+
                   {tokenCountError && (
                     <div className="mt-2 flex items-start gap-2 text-[10px] text-warn">
                       <svg
@@ -1437,6 +1958,15 @@ export default function Home() {
                         {filteredRepos.length === 1 ? "repo" : "repos"}
                       </div>
                     </div>
+                    {rateLimit && (
+                      <div
+                        className={`mb-3 text-xs ${rateLimit.remaining < rateLimit.limit / 10 ? "text-red-400" : "text-muted-foreground"}`}
+                        title={`Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}
+                      >
+                        GitHub API: {rateLimit.remaining.toLocaleString()} of{" "}
+                        {rateLimit.limit.toLocaleString()} requests left
+                      </div>
+                    )}
                     {selectedRepos.size > 0 && (
                       <div className="mb-3 flex items-center justify-end gap-2 text-xs">
                         <span className="text-brand-500">
@@ -1483,7 +2013,22 @@ export default function Home() {
                                 clipRule="evenodd"
                               />
                             </svg>
-                            <span>{externalRepoError}</span>
+                            <span>
+                              {externalRepoError}
+                              {externalRepoSsoUrl && (
+                                <>
+                                  {" "}
+                                  <a
+                                    href={externalRepoSsoUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="underline hover:text-red-300"
+                                  >
+                                    Authorize SSO
+                                  </a>
+                                </>
+                              )}
+                            </span>
                           </div>
                         ) : validatedExternalRepo ? (
                           <button
@@ -1584,7 +2129,7 @@ export default function Home() {
 
                               {/* GitHub link button */}
                               <a
-                                href={`https://github.com/${validatedExternalRepo.fullName}`}
+                                href={repoWebUrl(validatedExternalRepo, repoBranches[validatedExternalRepo.fullName])}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 onClick={(e) => e.stopPropagation()}
@@ -1667,6 +2212,20 @@ export default function Home() {
                                   <span className="text-xs text-muted-foreground flex-shrink-0">
                                     {repo.fullName.split("/")[0]}
                                   </span>
+                                  {/* Live pack status (streamed) */}
+                                  {isSelected && repoPackStatus[repo.fullName] && (loading || repoPackStatus[repo.fullName] === "error") && (
+                                    <span
+                                      className={`ml-auto text-[10px] flex-shrink-0 ${
+                                        repoPackStatus[repo.fullName] === "error"
+                                          ? "text-red-400"
+                                          : repoPackStatus[repo.fullName] === "done"
+                                          ? "text-ok"
+                                          : "text-muted-foreground"
+                                      }`}
+                                    >
+                                      {PACK_STAGE_LABELS[repoPackStatus[repo.fullName]]}
+                                    </span>
+                                  )}
                                 </div>
                                 {repo.description && (
                                   <div className="mt-0.5 text-xs text-muted-foreground truncate">
@@ -1708,6 +2267,7 @@ export default function Home() {
                                           handleTextBlur();
                                         }}
                                         placeholder={repo.defaultBranch}
+                                        title="Branch, branch@tag or branch@sha to pin, #123 for a pull request, or base...head for a compare range"
                                         className="w-full px-2 py-0.5 text-xs rounded border border-border bg-secondary text-foreground placeholder-muted-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500"
                                       />
 
@@ -1744,11 +2304,40 @@ export default function Home() {
                                     </div>
                                   </div>
                                 )}
+                                {/* Per-repo slice override */}
+                                {isSelected && (
+                                  <div onClick={(e) => e.stopPropagation()}>
+                                    <RepoSliceFields
+                                      value={repoSliceConfigs[repo.fullName]}
+                                      onChange={(override) => {
+                                        const next = { ...repoSliceConfigs };
+                                        if (override) {
+                                          next[repo.fullName] = override;
+                                        } else {
+                                          delete next[repo.fullName];
+                                        }
+                                        setRepoSliceConfigs(next);
+                                      }}
+                                    />
+                                  </div>
+                                )}
+                                {/* Monorepo folders as separate entries */}
+                                {isSelected && !parseRepoTarget(repo.fullName).subPath && (
+                                  <div onClick={(e) => e.stopPropagation()}>
+                                    <RepoFolderPicker
+                                      repoFullName={repo.fullName}
+                                      branch={repoBranches[repo.fullName] || repo.defaultBranch}
+                                      githubHost={accountGithubHost}
+                                      isAdded={(path) => selectedRepos.has(repoTargetName(repo.fullName, path))}
+                                      onAdd={(path) => handleAddRepoFolder(repo, path)}
+                                    />
+                                  </div>
+                                )}
                               </div>
 
                               {/* GitHub link button */}
                               <a
-                                href={`https://github.com/${repo.fullName}`}
+                                href={repoWebUrl(repo, repoBranches[repo.fullName])}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 onClick={(e) => e.stopPropagation()}
@@ -1879,6 +2468,140 @@ export default function Home() {
                   </p>
                 </div>
 
+                {/* Import-graph slicing */}
+                <div>
+                  <label className="block text-xs font-medium mb-1.5 text-foreground">
+                    Entry points
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={entryPoints}
+                      onChange={(e) => setEntryPoints(e.target.value)}
+                      onBlur={handleTextBlur}
+                      placeholder="src/index.ts, handleRequest"
+                      className="input text-xs flex-1"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={importDepth}
+                      onChange={(e) => setImportDepth(e.target.value)}
+                      onBlur={handleTextBlur}
+                      placeholder="3"
+                      title="Import hops to follow from the entry points"
+                      className="input text-xs w-14"
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Files or symbols. Packs only what they import (TS/JS/Python), to the given depth.
+                  </p>
+                </div>
+
+                {/* Slice preview (dry run, no packing) */}
+                <div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handlePreview}
+                      disabled={previewing || selectedRepos.size === 0}
+                      className="btn-secondary text-xs"
+                    >
+                      {previewing
+                        ? "Previewing..."
+                        : previewResult
+                          ? "Refresh preview"
+                          : "Preview files"}
+                    </button>
+                    {previewResult && (
+                      <>
+                        <span className="text-xs text-muted-foreground">
+                          {previewResult.totalStats.fileCount} files • ~
+                          {previewResult.totalStats.approxTokens.toLocaleString()} tokens
+                        </span>
+                        <button
+                          onClick={() => setPreviewResult(null)}
+                          className="ml-auto text-xs text-muted-foreground hover:text-foreground transition cursor-pointer"
+                          title="Close preview"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Lists matched files without packing. Updates as you edit.
+                  </p>
+                  {previewError && (
+                    <p className="mt-1 text-xs text-danger">{previewError}</p>
+                  )}
+                  {previewResult && (
+                    <div className="mt-2 space-y-2">
+                      {previewResult.repos.map((repo) => (
+                        <details key={repo.repo} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span
+                                className={`ml-auto flex-shrink-0 ${
+                                  repo.error ? "text-danger" : "text-muted-foreground"
+                                }`}
+                              >
+                                {repo.error
+                                  ? "error"
+                                  : `${repo.stats.fileCount} files • ~${repo.stats.approxTokens.toLocaleString()}`}
+                              </span>
+                            </div>
+                          </summary>
+                          <div className="mt-1 ml-5 space-y-1">
+                            {repo.error ? (
+                              <p className="text-[10px] text-danger">{repo.error}</p>
+                            ) : (
+                              <>
+                                {Object.keys(repo.excluded).length > 0 && (
+                                  <p className="text-[10px] text-muted-foreground">
+                                    Excluded:{" "}
+                                    {(Object.entries(repo.excluded) as Array<[PreviewExclusionReason, number]>)
+                                      .map(([reason, count]) => `${count} ${PREVIEW_EXCLUSION_LABELS[reason]}`)
+                                      .join(", ")}
+                                  </p>
+                                )}
+                                {repo.truncated && (
+                                  <p className="text-[10px] text-warn">
+                                    Repository tree is too large for GitHub to list fully; preview is partial.
+                                  </p>
+                                )}
+                                {repo.importGraph && (
+                                  <ImportGraphSummary graph={repo.importGraph} />
+                                )}
+                                <FileManifest
+                                  files={repo.files}
+                                  onIgnore={(glob) => handleAddIgnoreGlob(glob, false)}
+                                />
+                              </>
+                            )}
+                          </div>
+                        </details>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 {/* Respect .gitignore */}
                 <label className="flex items-start gap-2 cursor-pointer group">
                   <div className="relative mt-0.5">
@@ -1980,15 +2703,422 @@ export default function Home() {
                     </div>
                   </div>
                 </label>
-              </div>
 
-              {/* System Instructions */}
-              <SystemPromptField
-                value={systemPrompt}
-                onChange={setSystemPrompt}
-              />
+                {/* Redact secrets */}
+                <label className="flex items-start gap-2 cursor-pointer group">
+                  <div className="relative mt-0.5">
+                    <input
+                      type="checkbox"
+                      checked={redactSecrets}
+                      onChange={(e) => setRedactSecrets(e.target.checked)}
+                      className="peer sr-only"
+                    />
+                    <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                      {redactSecrets && (
+                        <svg
+                          className="w-2.5 h-2.5 text-white"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={3}
+                            d="M5 13l4 4L19 7"
+                          />
+                        </svg>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-xs font-medium text-foreground">
+                      Redact secrets
+                    </div>
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      Replaces API keys, private keys, JWTs and .env secrets with placeholders before packing.
+                    </p>
+                  </div>
+                </label>
 
-              {/* Directory Structure */}
+                {/* Include unchanged files (PR / compare packs) */}
+                <label className="flex items-start gap-2 cursor-pointer group">
+                  <div className="relative mt-0.5">
+                    <input
+                      type="checkbox"
+                      checked={includeUnchangedFiles}
+                      onChange={(e) => setIncludeUnchangedFiles(e.target.checked)}
+                      className="peer sr-only"
+                    />
+                    <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                      {includeUnchangedFiles && (
+                        <svg
+                          className="w-2.5 h-2.5 text-white"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={3}
+                            d="M5 13l4 4L19 7"
+                          />
+                        </svg>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-xs font-medium text-foreground">
+                      Include unchanged files in PR packs
+                    </div>
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      Type #123 or base...head as a repo&apos;s branch to pack a pull request or compare range, or branch@tag to pin a tag or SHA.
+                    </p>
+                  </div>
+                </label>
+
+                {/* Issues, pull requests and discussions */}
+                <div>
+                  <label className="flex items-start gap-2 cursor-pointer group">
+                    <div className="relative mt-0.5">
+                      <input
+                        type="checkbox"
+                        checked={threadOptions.enabled}
+                        onChange={(e) => setThreadOptions({ ...threadOptions, enabled: e.target.checked })}
+                        className="peer sr-only"
+                      />
+                      <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                        {threadOptions.enabled && (
+                          <svg
+                            className="w-2.5 h-2.5 text-white"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={3}
+                              d="M5 13l4 4L19 7"
+                            />
+                          </svg>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex-1">
+                      <div className="text-xs font-medium text-foreground">
+                        Include issues, PRs and discussions
+                      </div>
+                      <p className="mt-0.5 text-xs text-muted-foreground">
+                        Adds the most recently updated threads, with comments and reviews, after each repo&apos;s code.
+                      </p>
+                    </div>
+                  </label>
+                  {threadOptions.enabled && (
+                    <div className="mt-2 pl-5 space-y-1.5">
+                      <div className="flex flex-wrap items-center gap-3">
+                        {THREAD_KIND_OPTIONS.map(({ kind, label }) => (
+                          <label key={kind} className="flex items-center gap-1 text-xs text-foreground cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={threadOptions.kinds.includes(kind)}
+                              onChange={(e) => {
+                                const kinds = e.target.checked
+                                  ? [...threadOptions.kinds, kind]
+                                  : threadOptions.kinds.filter((k) => k !== kind);
+                                if (kinds.length > 0) setThreadOptions({ ...threadOptions, kinds });
+                              }}
+                            />
+                            {label}
+                          </label>
+                        ))}
+                        <select
+                          value={threadOptions.state}
+                          onChange={(e) => setThreadOptions({ ...threadOptions, state: e.target.value as ThreadOptions["state"] })}
+                          className="input text-xs w-auto py-0.5"
+                        >
+                          <option value="all">Open and closed</option>
+                          <option value="open">Open</option>
+                          <option value="closed">Closed</option>
+                        </select>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={threadLabels}
+                          onChange={(e) => setThreadLabels(e.target.value)}
+                          onBlur={handleTextBlur}
+                          placeholder="Labels, e.g. bug, design"
+                          className="input text-xs flex-1"
+                        />
+                        <input
+                          type="date"
+                          value={threadOptions.since}
+                          onChange={(e) => setThreadOptions({ ...threadOptions, since: e.target.value })}
+                          title="Only threads updated since this date"
+                          className="input text-xs w-36"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Git history (GitHub API) */}
+                <div>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-xs font-medium text-foreground">
+                      Recent commits
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={commitLog}
+                        onChange={(e) => setCommitLog(e.target.value)}
+                        onBlur={handleTextBlur}
+                        placeholder="0"
+                        className="input text-xs w-16"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={fileHistory}
+                        onChange={(e) => setFileHistory(e.target.checked)}
+                      />
+                      File last-modified
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-foreground cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={sortByRecentChanges}
+                        onChange={(e) => setSortByRecentChanges(e.target.checked)}
+                      />
+                      Recently changed first
+                    </label>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Adds a git history section after each repo&apos;s files: the branch&apos;s latest commits and each file&apos;s last change.
+                  </p>
+                </div>
+
+                {/* Advanced: reducers */}
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                    className="flex items-center gap-1.5 text-xs font-medium text-foreground hover:text-brand-600 transition"
+                  >
+                    <svg
+                      className={`w-3 h-3 text-muted-foreground transition-transform ${showAdvanced ? "rotate-90" : ""}`}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M9 5l7 7-7 7"
+                      />
+                    </svg>
+                    Advanced
+                    {Object.values(reducers).some(Boolean) && (
+                      <span className="text-muted-foreground font-normal">
+                        ({Object.values(reducers).filter(Boolean).length} reducers on)
+                      </span>
+                    )}
+                  </button>
+                  {showAdvanced && (
+                    <div className="mt-2 ml-4 space-y-2">
+                      {REDUCER_OPTIONS.map(({ key, label, hint }) => (
+                        <label key={key} className="flex items-start gap-2 cursor-pointer group">
+                          <div className="relative mt-0.5">
+                            <input
+                              type="checkbox"
+                              checked={reducers[key] ?? false}
+                              onChange={(e) => setReducers({ ...reducers, [key]: e.target.checked })}
+                              className="peer sr-only"
+                            />
+                            <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                              {reducers[key] && (
+                                <svg
+                                  className="w-2.5 h-2.5 text-white"
+                                  fill="none"
+                                  viewBox="0 0 24 24"
+                                  stroke="currentColor"
+                                >
+                                  <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={3}
+                                    d="M5 13l4 4L19 7"
+                                  />
+                                </svg>
+                              )}
+                            </div>
+                          </div>
+                          <div className="flex-1">
+                            <div className="text-xs font-medium text-foreground">
+                              {label}
+                            </div>
+                            <p className="mt-0.5 text-xs text-muted-foreground">
+                              {hint}
+                            </p>
+                          </div>
+                        </label>
+                      ))}
+
+                      {/* Outline mixed mode: files kept whole */}
+                      {reducers.outline && (
+                        <div className="pl-5">
+                          <input
+                            type="text"
+                            value={fullContentGlobs}
+                            onChange={(e) => setFullContentGlobs(e.target.value)}
+                            onBlur={handleTextBlur}
+                            placeholder="src/core/**, lib/api.ts"
+                            className="input text-xs w-full"
+                          />
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            Full content for files matching these globs; everything else is outlined.
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Fit to token budget */}
+                      <label className="flex items-start gap-2 cursor-pointer group">
+                        <div className="relative mt-0.5">
+                          <input
+                            type="checkbox"
+                            checked={fitBudget}
+                            onChange={(e) => setFitBudget(e.target.checked)}
+                            className="peer sr-only"
+                          />
+                          <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                            {fitBudget && (
+                              <svg
+                                className="w-2.5 h-2.5 text-white"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={3}
+                                  d="M5 13l4 4L19 7"
+                                />
+                              </svg>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-medium text-foreground">
+                            Fit to token budget
+                          </div>
+                          <p className="mt-0.5 text-xs text-muted-foreground">
+                            Turns on reducers, then drops generated, data, test and doc files, then truncates until the pack fits.
+                          </p>
+                        </div>
+                      </label>
+                      {fitBudget && (
+                        <input
+                          type="number"
+                          min={1}
+                          value={tokenBudget}
+                          onChange={(e) => setTokenBudget(e.target.value)}
+                          onBlur={handleTextBlur}
+                          placeholder={`Model limit${modelInputLimit ? ` (${modelInputLimit.toLocaleString()})` : ""}`}
+                          title="Target tokens. Leave empty to use the selected model's input limit."
+                          className="input text-xs ml-5"
+                        />
+                      )}
+
+                      {/* Background pack job */}
+                      <label className="flex items-start gap-2 cursor-pointer group">
+                        <div className="relative mt-0.5">
+                          <input
+                            type="checkbox"
+                            checked={backgroundPack}
+                            onChange={(e) => setBackgroundPack(e.target.checked)}
+                            className="peer sr-only"
+                          />
+                          <div className="w-3.5 h-3.5 rounded border border-border bg-card peer-checked:bg-brand-600 peer-checked:border-brand-600 transition flex items-center justify-center">
+                            {backgroundPack && (
+                              <svg
+                                className="w-2.5 h-2.5 text-white"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={3}
+                                  d="M5 13l4 4L19 7"
+                                />
+                              </svg>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-xs font-medium text-foreground">
+                            Pack in background
+                          </div>
+                          <p className="mt-0.5 text-xs text-muted-foreground">
+                            Runs as a server job for large packs. You can close the tab and come back for the result.
+                          </p>
+                        </div>
+                      </label>
+                    </div>
+                  )}
+                </div>
+
+                {/* Output format */}
+                <div>
+                  <label className="block text-xs font-medium mb-1.5 text-foreground">
+                    Output format
+                  </label>
+                  <select
+                    value={outputStyle}
+                    onChange={(e) => setOutputStyle(e.target.value as OutputStyle)}
+                    className="w-full rounded-lg border border-border bg-card px-3 py-1.5 text-xs text-foreground focus:border-brand-500 focus:ring-1 focus:ring-brand-500 cursor-pointer"
+                  >
+                    {OUTPUT_STYLES.map((style) => (
+                      <option key={style} value={style}>
+                        {OUTPUT_STYLE_FILES[style].label}
+                      </option>
+                    ))}
+                  </select>
+                  {packResult && (
+                    <div className="mt-2 flex items-center gap-2">
+                      <button
+                        onClick={handleCopy}
+                        disabled={loading}
+                        className="btn-secondary text-xs"
+                      >
+                        Copy
+                      </button>
+                      <button
+                        onClick={handleDownload}
+                        disabled={loading}
+                        className="btn-secondary text-xs"
+                      >
+                        Download .{OUTPUT_STYLE_FILES[getPackStyle(packResult)].extension}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* System Instructions */}
+              <SystemPromptField
+                value={systemPrompt}
+                onChange={setSystemPrompt}
+              />
+
+              {/* Directory Structure */}
               {packResult && (
                 <div className="px-4 mt-6">
                   <h3 className="text-sm font-semibold mb-4 text-foreground">
@@ -1998,11 +3128,12 @@ export default function Home() {
                     {packResult.repos.map((repo, idx) => {
                       if (repo.error) return null;
 
-                      const structureMatch = repo.output.match(
-                        /<directory_structure>\s*([\s\S]*?)\s*<\/directory_structure>/
+                      const structure = extractDirectoryStructure(
+                        repo.output,
+                        repo.outputStyle
                       );
 
-                      if (!structureMatch) return null;
+                      if (!structure) return null;
 
                       return (
                         <details key={idx} className="group">
@@ -2022,7 +3153,7 @@ export default function Home() {
                                 />
                               </svg>
                               <span className="font-mono font-medium text-foreground truncate">
-                                {repo.repo.split("/")[1] || repo.repo}
+                                {repoShortName(repo.repo)}
                               </span>
                               <span className="text-muted-foreground ml-auto flex-shrink-0">
                                 {repo.stats.fileCount}
@@ -2031,7 +3162,7 @@ export default function Home() {
                           </summary>
                           <div className="mt-1 ml-5">
                             <pre className="text-[10px] leading-tight overflow-x-auto p-2 bg-background rounded border border-border font-mono whitespace-pre text-muted-foreground max-h-60 overflow-y-auto">
-                              {structureMatch[1].trim()}
+                              {structure}
                             </pre>
                           </div>
                         </details>
@@ -2041,6 +3172,376 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Redactions */}
+              {packResult && packResult.repos.some((r) => r.redactions?.length) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-4 text-foreground">
+                    Redacted Secrets
+                  </h3>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.redactions?.length) return null;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className="text-warn ml-auto flex-shrink-0">
+                                {repo.redactions.reduce((sum, r) => sum + r.count, 0)} redacted
+                              </span>
+                            </div>
+                          </summary>
+                          <ul className="mt-1 ml-5 space-y-1">
+                            {repo.redactions.map((entry, i) => (
+                              <li key={i} className="flex items-center gap-2 text-[10px] font-mono">
+                                <span className="text-foreground truncate" title={entry.path}>
+                                  {entry.path}
+                                </span>
+                                <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                  {entry.rule} ×{entry.count}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Files skipped for size */}
+              {packResult && packResult.repos.some((r) => r.skippedFiles?.length) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-1 text-foreground">
+                    Skipped Files
+                  </h3>
+                  <p className="text-[10px] text-muted-foreground mb-3">
+                    Over the {Math.round(config.repomix.maxFileSize / 1024)}KB per-file limit, left out of the pack
+                  </p>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.skippedFiles?.length) return null;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className="text-warn ml-auto flex-shrink-0">
+                                {repo.skippedFiles.length} skipped
+                              </span>
+                            </div>
+                          </summary>
+                          <ul className="mt-1 ml-5 space-y-1">
+                            {repo.skippedFiles.map((path) => (
+                              <li key={path} className="text-[10px] font-mono text-foreground truncate" title={path}>
+                                {path}
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Issues, pull requests and discussions */}
+              {packResult && packResult.repos.some((r) => r.threads) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-1 text-foreground">
+                    Issues &amp; Pull Requests
+                  </h3>
+                  <p className="text-[10px] text-muted-foreground mb-3">
+                    Packed after each repo&apos;s code, most recently updated first
+                  </p>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.threads) return null;
+                      const { threads, error: threadError } = repo.threads;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className={`ml-auto flex-shrink-0 ${threadError ? "text-warn" : "text-muted-foreground"}`}>
+                                {threadError ? "unavailable" : `${threads.length} threads${repo.threads.cached ? " (cached)" : ""}`}
+                              </span>
+                            </div>
+                          </summary>
+                          {threadError ? (
+                            <p className="mt-1 ml-5 text-[10px] text-warn">{threadError}</p>
+                          ) : (
+                            <ul className="mt-1 ml-5 space-y-1">
+                              {threads.map((thread) => (
+                                <li key={`${thread.kind}-${thread.number}`} className="flex items-center gap-2 text-[10px]">
+                                  <a
+                                    href={thread.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-foreground truncate hover:text-brand-600"
+                                    title={thread.title}
+                                  >
+                                    #{thread.number} {thread.title}
+                                  </a>
+                                  <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                    {thread.kind === "pull" ? "PR" : thread.kind} · {thread.state} · {thread.comments.length} comments
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* AI ignore exclusions */}
+              {packResult && packResult.repos.some((r) => r.aiIgnoreExclusions?.length) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-4 text-foreground">
+                    AI Ignore Exclusions
+                  </h3>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.aiIgnoreExclusions?.length) return null;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                {repo.aiIgnoreExclusions.reduce((sum, e) => sum + e.count, 0)} excluded
+                              </span>
+                            </div>
+                          </summary>
+                          <div className="mt-1 ml-5 space-y-2">
+                            {repo.aiIgnoreExclusions.map((exclusion) => (
+                              <div key={exclusion.file}>
+                                <div className="flex items-center gap-2 text-[10px] font-mono">
+                                  <span className="text-foreground truncate" title={exclusion.file}>
+                                    {exclusion.file}
+                                  </span>
+                                  <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                    {exclusion.count} files
+                                  </span>
+                                </div>
+                                <ul className="mt-0.5 ml-2 space-y-0.5">
+                                  {exclusion.paths.map((path) => (
+                                    <li key={path} className="text-[10px] font-mono text-muted-foreground truncate" title={path}>
+                                      {path}
+                                    </li>
+                                  ))}
+                                  {exclusion.count > exclusion.paths.length && (
+                                    <li className="text-[10px] text-muted-foreground">
+                                      +{exclusion.count - exclusion.paths.length} more
+                                    </li>
+                                  )}
+                                </ul>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Budget fit report */}
+              {packResult?.budget && packResult.repos.some((r) => r.budget) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-1 text-foreground">
+                    Fitted to Budget
+                  </h3>
+                  <p className={`text-xs mb-4 ${packResult.budget.fits ? "text-muted-foreground" : "text-warn"}`}>
+                    ~{packResult.budget.initialTokens.toLocaleString()} → ~
+                    {packResult.totalStats.approxTokens.toLocaleString()} of{" "}
+                    {packResult.budget.targetTokens.toLocaleString()} tokens
+                    {!packResult.budget.fits && " (still over)"}
+                  </p>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.budget) return null;
+                      const { reducers: applied, droppedFiles, truncatedFiles } = repo.budget;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                {droppedFiles.length} dropped, {truncatedFiles.length} truncated
+                              </span>
+                            </div>
+                          </summary>
+                          <div className="mt-1 ml-5 space-y-2 text-[10px]">
+                            {applied.length > 0 && (
+                              <p className="text-muted-foreground">
+                                Reducers: {applied.map((key) => REDUCER_OPTIONS.find((r) => r.key === key)?.label ?? key).join(", ")}
+                              </p>
+                            )}
+                            {droppedFiles.length + truncatedFiles.length > 0 && (
+                              <ul className="space-y-1 font-mono">
+                                {droppedFiles.map((file) => (
+                                  <li key={`d-${file.path}`} className="flex items-center gap-2">
+                                    <span className="text-foreground truncate" title={file.path}>
+                                      {file.path}
+                                    </span>
+                                    <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                      {file.category} −{file.approxTokens.toLocaleString()}
+                                    </span>
+                                  </li>
+                                ))}
+                                {truncatedFiles.map((file) => (
+                                  <li key={`t-${file.path}`} className="flex items-center gap-2">
+                                    <span className="text-foreground truncate" title={file.path}>
+                                      {file.path}
+                                    </span>
+                                    <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                      truncated −{file.removedTokens.toLocaleString()}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* File Breakdown */}
+              {packResult && packResult.repos.some((r) => r.files?.length) && (
+                <div className="px-4 mt-6">
+                  <h3 className="text-sm font-semibold mb-4 text-foreground">
+                    File Breakdown
+                  </h3>
+                  <div className="space-y-2">
+                    {packResult.repos.map((repo, idx) => {
+                      if (repo.error || !repo.files) return null;
+
+                      return (
+                        <details key={idx} className="group">
+                          <summary className="cursor-pointer list-none">
+                            <div className="flex items-center gap-2 p-2 hover:bg-card rounded-lg transition text-xs">
+                              <svg
+                                className="w-3 h-3 text-muted-foreground transition-transform group-open:rotate-90 flex-shrink-0"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M9 5l7 7-7 7"
+                                />
+                              </svg>
+                              <span className="font-mono font-medium text-foreground truncate">
+                                {repoShortName(repo.repo)}
+                              </span>
+                              <span className="text-muted-foreground ml-auto flex-shrink-0">
+                                ~{repo.stats.approxTokens.toLocaleString()} tokens
+                              </span>
+                            </div>
+                          </summary>
+                          <div className="mt-1 ml-5">
+                            <FileManifest
+                              files={repo.files}
+                              onIgnore={handleAddIgnoreGlob}
+                            />
+                          </div>
+                        </details>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Theme Toggle - Bottom of sidebar */}
               <div className="mt-auto px-4 pb-4 pt-2 flex justify-center">
                 <ThemeToggle />
@@ -2157,6 +3658,84 @@ export default function Home() {
   );
 }
 
+// Slice preview exclusion reasons, as shown next to each repo
+const PREVIEW_EXCLUSION_LABELS: Record<PreviewExclusionReason, string> = {
+  include: "not included",
+  importGraph: "not imported",
+  defaultPatterns: "default patterns",
+  ignoreGlobs: "ignore globs",
+  aiignore: "AI ignore files",
+  gitignore: ".gitignore",
+  binary: "binary",
+};
+
+// Reducers shown in the advanced panel, in display order
+const REDUCER_OPTIONS: Array<{
+  key: keyof NonNullable<SliceConfig["reducers"]>;
+  label: string;
+  hint: string;
+}> = [
+  { key: "compress", label: "Compress code", hint: "Keep signatures and structure, drop function bodies" },
+  { key: "removeComments", label: "Remove comments", hint: "Strip code comments" },
+  { key: "removeEmptyLines", label: "Remove empty lines", hint: "Drop blank lines" },
+  { key: "truncateBase64", label: "Truncate base64", hint: "Shorten inline images and other encoded data" },
+  { key: "outline", label: "Symbol outline", hint: "Keep only exports, types, signatures and doc comments (TS/JS, Python)" },
+];
+
+const DEFAULT_THREAD_OPTIONS: ThreadOptions = { enabled: false, kinds: ["issue", "pull"], state: "all", since: "" };
+
+const THREAD_KIND_OPTIONS: Array<{ kind: ThreadKind; label: string }> = [
+  { kind: "issue", label: "Issues" },
+  { kind: "pull", label: "Pull requests" },
+  { kind: "discussion", label: "Discussions" },
+];
+
+// Live status labels for the repo list while a pack streams in
+const PACK_STAGE_LABELS: Record<PackRepoStage | "queued" | "done" | "error", string> = {
+  queued: "Queued",
+  resolving: "Resolving…",
+  resolved: "Resolved",
+  "cache-hit": "Cached",
+  "cache-miss": "Not cached",
+  downloading: "Downloading…",
+  packing: "Packing…",
+  threads: "Fetching issues…",
+  done: "✓ Packed",
+  error: "✗ Failed",
+};
+
+// Helper function to build a selectable entry for a folder of a repo ("owner/repo//path")
+function repoFolderEntry(repo: GitHubRepo, path: string): GitHubRepo {
+  return {
+    ...repo,
+    fullName: repoTargetName(repo.fullName, path),
+    name: `${repo.name}/${path}`,
+  };
+}
+
+// Helper function to link a repo (or a folder of one, at its branch/pin) on GitHub or GitLab
+// Repos listed by the API carry their own page (GitHub Enterprise accounts); saved ones fall back to the deployment's host
+function repoWebUrl(repo: GitHubRepo, branchInput?: string): string {
+  const { repo: fullName, subPath } = parseRepoTarget(repo.fullName);
+  const { provider, path } = parseRepoSource(fullName);
+  const base = repo.webUrl || `${provider === "gitlab" ? config.gitlab.webUrl : config.github.webUrl}/${path}`;
+  if (!subPath) return base;
+
+  const ref = parseRefInput(branchInput || "");
+  const treeRef = ref.ref || ref.branch || repo.defaultBranch;
+  return provider === "gitlab" ? `${base}/-/tree/${treeRef}/${subPath}` : `${base}/tree/${treeRef}/${subPath}`;
+}
+
+// Helper function to get a repo's own name ("repo" of owner/repo, "project" of gitlab:group/sub/project)
+function repoShortName(fullName: string): string {
+  return parseRepoSource(parseRepoTarget(fullName).repo).path.split("/").pop() || fullName;
+}
+
+// Helper function to get the output style a pack result was produced in
+function getPackStyle(result: PackResult): OutputStyle {
+  return result.repos.find((r) => r.outputStyle)?.outputStyle ?? "xml";
+}
+
 // Helper function to format relative time
 function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
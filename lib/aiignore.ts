@@ -0,0 +1,119 @@
+import ignore, { type Ignore } from 'ignore'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { AiIgnoreExclusion } from './types'
+
+/**
+ * AI Ignore File Support
+ *
+ * Respects repo owners' intent about what should be excluded from LLM context.
+ * Ignore files are honored at any depth with gitignore semantics: patterns are
+ * relative to the file's directory, `!pattern` re-includes, and deeper files
+ * override shallower ones.
+ *
+ * Shared by packing (files read from the extracted archive) and the slice
+ * preview (files fetched through the tree API).
+ */
+
+// Ignore file formats used by different AI tools, all gitignore syntax
+export const AI_IGNORE_FILE_NAMES = [
+  '.aiignore',      // Industry standard (JetBrains, proposed standard)
+  '.aiexclude',     // Google Gemini Code Assist
+  '.cursorignore',  // Cursor IDE
+  '.codeiumignore', // Codeium
+  '.agentignore',   // Generic
+  '.geminiignore',  // Google Gemini
+]
+
+// Excluded paths listed per ignore file in pack results (counts are always complete)
+const MAX_REPORTED_PATHS = 200
+
+export interface AiIgnoreRule {
+  file: string // path of the ignore file
+  dir: string // its directory ('' for the repo root)
+  matcher: Ignore
+}
+
+export function isAiIgnoreFile(path: string): boolean {
+  return AI_IGNORE_FILE_NAMES.includes(path.split('/').pop() || path)
+}
+
+/**
+ * One matcher per ignore file, shallowest first (same directory: AI_IGNORE_FILE_NAMES order)
+ * @param files - Ignore file path -> contents
+ */
+export function buildAiIgnoreRules(files: Record<string, string>): AiIgnoreRule[] {
+  const depth = (path: string) => path.split('/').length
+  const nameOrder = (path: string) => AI_IGNORE_FILE_NAMES.indexOf(path.split('/').pop() || path)
+
+  return Object.entries(files)
+    .filter(([path]) => isAiIgnoreFile(path))
+    .sort(([a], [b]) => depth(a) - depth(b) || nameOrder(a) - nameOrder(b))
+    .map(([file, content]) => ({
+      file,
+      dir: file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '',
+      matcher: ignore().add(content),
+    }))
+}
+
+/**
+ * The ignore file that excludes a path, or null if none does
+ * The deepest file with an opinion wins, so a nested `!pattern` re-includes
+ */
+export function aiIgnoreSource(path: string, rules: AiIgnoreRule[]): string | null {
+  let source: string | null = null
+
+  for (const { file, dir, matcher } of rules) {
+    if (dir && !path.startsWith(`${dir}/`)) continue
+
+    const { ignored, unignored } = matcher.test(dir ? path.slice(dir.length + 1) : path)
+    if (ignored) source = file
+    else if (unignored) source = null
+  }
+
+  return source
+}
+
+/**
+ * Read the AI ignore files among a directory's files
+ * @param paths - Every file path in the directory, relative to it
+ */
+export function readAiIgnoreFiles(root: string, paths: string[]): Record<string, string> {
+  return Object.fromEntries(
+    paths
+      .filter(isAiIgnoreFile)
+      .map(path => [path, readFileSync(join(root, path), 'utf-8')])
+  )
+}
+
+/**
+ * Group excluded paths by the ignore file that excluded them
+ * @returns Excluded paths per ignore file, in rule order (files with no exclusions left out)
+ */
+export function groupAiIgnoreExclusions(
+  paths: string[],
+  rules: AiIgnoreRule[]
+): Map<string, string[]> {
+  const byFile = new Map<string, string[]>(rules.map(rule => [rule.file, []]))
+
+  for (const path of paths) {
+    const source = aiIgnoreSource(path, rules)
+    if (source) byFile.get(source)!.push(path)
+  }
+
+  for (const [file, excluded] of byFile) {
+    if (excluded.length === 0) byFile.delete(file)
+  }
+  return byFile
+}
+
+/**
+ * Pack result report: per ignore file, how many files it excluded and (some of) which
+ */
+export function reportAiIgnoreExclusions(byFile: Map<string, string[]>): AiIgnoreExclusion[] {
+  return [...byFile.entries()].map(([file, paths]) => ({
+    file,
+    count: paths.length,
+    paths: paths.slice(0, MAX_REPORTED_PATHS),
+  }))
+}
@@ -0,0 +1,523 @@
+/**
+ * Repo Archive Download (server-side)
+ *
+ * Downloads a repo's tarball from its provider (GitHub or GitLab) and extracts it to a local directory for Repomix.
+ * The caller's token travels in this request's headers only: nothing process-wide
+ * is set, so concurrent packs for different users never see each other's token.
+ *
+ * Trees extracted at a commit SHA are kept for a while (config.archive) so the
+ * same commit can be re-packed with another slice config without downloading again.
+ */
+
+import { createHash } from 'node:crypto'
+import { closeSync, mkdirSync, mkdtempSync, openSync, readdirSync, rmSync, writeSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join, resolve, sep } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { createGunzip } from 'node:zlib'
+import { config } from './config'
+import { createSourceClient } from './source'
+import { parseRepoSource } from './changeset'
+import type { GitHubHost } from './types'
+
+export type ArchiveErrorCode =
+  | 'NOT_FOUND'         // repo or ref doesn't exist, or the token can't see it
+  | 'UNAUTHORIZED'      // invalid or expired token
+  | 'FORBIDDEN'         // token lacks access
+  | 'RATE_LIMITED'
+  | 'DOWNLOAD_FAILED'   // network error or unexpected HTTP status
+  | 'TOO_LARGE'         // over config.archive.maxSize, or a metadata entry over 1MB
+  | 'TOO_MANY_ENTRIES'  // over config.archive.maxEntries
+  | 'UNSAFE_PATH'       // entry would extract outside the target directory
+  | 'CORRUPT'           // not a gzipped tarball, or truncated
+
+/**
+ * Archive download/extraction failure
+ * `message` is user-facing; `code` is for callers that handle cases differently
+ */
+export class ArchiveError extends Error {
+  constructor(
+    readonly code: ArchiveErrorCode,
+    message: string,
+    readonly status?: number // HTTP status, for download failures
+  ) {
+    super(message)
+    this.name = 'ArchiveError'
+  }
+}
+
+export interface ArchiveLimits {
+  maxSize: number // extracted bytes, in KB
+  maxEntries: number
+}
+
+export interface ExtractResult {
+  fileCount: number
+  totalBytes: number
+  commitSha?: string // from the tarball's global header (GitHub archives carry it)
+}
+
+export interface RepoTree extends ExtractResult {
+  dir: string // extracted repo root
+  release: () => void // call once packing is done with the tree
+}
+
+export interface CheckoutOptions {
+  token?: string
+  githubHost?: GitHubHost // GitHub repos only; defaults to the deployment's
+  signal?: AbortSignal
+  limits?: ArchiveLimits
+}
+
+const BLOCK_SIZE = 512
+const MAX_METADATA_SIZE = 1024 * 1024 // pax / GNU long-name entries are buffered whole; real ones are tiny
+const COMMIT_SHA = /^[0-9a-f]{40}$/i
+
+/**
+ * Download a repo at a branch, tag or SHA and extract it into targetDir
+ * (the archive's top-level "owner-repo-sha/" directory is stripped)
+ *
+ * @param ref - Defaults to the repo's default branch
+ * @throws ArchiveError on HTTP, limit and format failures (aborts reject with the signal's reason)
+ */
+export async function downloadRepoArchive(
+  repo: string,
+  ref: string | undefined,
+  targetDir: string,
+  options: CheckoutOptions = {}
+): Promise<ExtractResult> {
+  const { url, headers } = createSourceClient(parseRepoSource(repo).provider, options.token ?? '', options.githubHost)
+    .archiveRequest(repo, ref)
+  const label = `${repo}@${ref || 'default branch'}`
+
+  let response: Response
+  try {
+    response = await fetch(url, { headers, signal: options.signal })
+  } catch (error) {
+    if (options.signal?.aborted) throw error
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ArchiveError('DOWNLOAD_FAILED', `Failed to download ${label}: ${message}. This may be a network issue.`)
+  }
+
+  if (!response.ok || !response.body) {
+    throw responseError(response, repo, label)
+  }
+
+  return extractTarball(
+    Readable.fromWeb(response.body as import('node:stream/web').ReadableStream<Uint8Array>),
+    targetDir,
+    options
+  )
+}
+
+/**
+ * Extract a gzipped tarball into targetDir, enforcing size and entry limits
+ * Regular files are written as they stream in; links and other entry types are skipped.
+ *
+ * @throws ArchiveError when a limit is hit or the archive is malformed
+ */
+export async function extractTarball(
+  source: Readable,
+  targetDir: string,
+  options: { signal?: AbortSignal; limits?: ArchiveLimits } = {}
+): Promise<ExtractResult> {
+  const limits = options.limits ?? config.archive
+  let result: ExtractResult = { fileCount: 0, totalBytes: 0 }
+
+  try {
+    await pipeline(
+      source,
+      createGunzip(),
+      async (entries: AsyncIterable<Buffer>) => {
+        result = await extractTar(entries, resolve(targetDir), limits)
+      },
+      { signal: options.signal }
+    )
+  } catch (error) {
+    // zlib errors: not gzip, or cut off mid-stream
+    const code = (error as { code?: string })?.code
+    if (typeof code === 'string' && code.startsWith('Z_')) {
+      throw new ArchiveError('CORRUPT', `Archive is not a valid gzipped tarball (${code})`)
+    }
+    throw error
+  }
+
+  return result
+}
+
+/**
+ * Extract a repo for packing, reusing a recent extraction of the same commit
+ *
+ * Only commit SHAs are reused (branch heads move). Reuse is per token, so a tree
+ * downloaded with one user's access is never handed to another user.
+ * A download shared by concurrent packs is cancelled once every one of them has given up;
+ * later packs of the commit start a new one rather than fail with those packs' abort.
+ */
+export async function checkoutRepoTree(
+  repo: string,
+  ref: string | undefined,
+  options: CheckoutOptions = {}
+): Promise<RepoTree> {
+  pruneTrees()
+
+  if (!ref || !COMMIT_SHA.test(ref)) {
+    const dir = mkdtempSync(join(tmpdir(), 'repo-tree-'))
+    try {
+      const result = await downloadRepoArchive(repo, ref, dir, options)
+      return { ...result, dir, release: () => removeDir(dir) }
+    } catch (error) {
+      removeDir(dir)
+      throw error
+    }
+  }
+
+  const key = treeKey(repo, ref, options)
+  const shared = trees.get(key)
+  const tree = shared && !shared.download.signal.aborted ? shared : startTreeDownload(key, repo, ref, options)
+  let gaveUp = false
+  const onAbort = () => {
+    gaveUp = true
+    if (--tree.waiting === 0) {
+      if (trees.get(key) === tree) trees.delete(key)
+      tree.download.abort(options.signal?.reason)
+    }
+  }
+
+  tree.users++
+  tree.waiting++
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+  try {
+    const result = await untilAborted(tree.extracted, options.signal)
+    let released = false
+    return {
+      ...result,
+      dir: tree.dir,
+      release: () => {
+        if (released) return
+        released = true
+        tree.users--
+        tree.lastUsedAt = Date.now()
+        pruneTrees()
+      },
+    }
+  } catch (error) {
+    tree.users--
+    // Only this request's own abort is its concern; a download others cancelled is started again
+    if (!tree.download.signal.aborted || options.signal?.aborted) throw error
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort)
+    if (!gaveUp) tree.waiting--
+  }
+
+  return checkoutRepoTree(repo, ref, options)
+}
+
+/**
+ * Every regular file under an extracted tree, as root-relative paths
+ */
+export function listTreeFiles(root: string): string[] {
+  return readdirSync(root, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => join(entry.parentPath, entry.name).slice(resolve(root).length + 1).split(sep).join('/'))
+    .sort()
+}
+
+/**
+ * Settle with the task, or reject with the abort reason as soon as the signal fires
+ * (the task keeps running; its eventual failure is swallowed)
+ */
+export function untilAborted<T>(task: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return task
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      task.catch(() => {}) // Abandoned: its failure is no longer anyone's concern
+      reject(signal.reason)
+    }
+    if (signal.aborted) return onAbort()
+
+    signal.addEventListener('abort', onAbort, { once: true })
+    task.then(
+      value => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Extracted trees, keyed by repo, commit and token
+ */
+
+interface CachedTree {
+  dir: string
+  extracted: Promise<ExtractResult>
+  ready: boolean
+  download: AbortController
+  waiting: number // packs waiting on the download
+  users: number // packs holding the tree (waiting or packing)
+  lastUsedAt: number
+}
+
+const trees = new Map<string, CachedTree>()
+
+function treeKey(repo: string, sha: string, { token, githubHost }: CheckoutOptions): string {
+  const tokenHash = token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : 'anonymous'
+  const host = githubHost ? `${githubHost.archiveUrl ?? githubHost.apiUrl}/` : '' // same name, another server
+  return `${host}${repo.toLowerCase()}@${sha.toLowerCase()}:${tokenHash}`
+}
+
+function startTreeDownload(key: string, repo: string, sha: string, options: CheckoutOptions): CachedTree {
+  const dir = mkdtempSync(join(tmpdir(), 'repo-tree-'))
+  const download = new AbortController()
+  const tree: CachedTree = {
+    dir,
+    extracted: downloadRepoArchive(repo, sha, dir, { ...options, signal: download.signal }),
+    ready: false,
+    download,
+    waiting: 0,
+    users: 0,
+    lastUsedAt: Date.now(),
+  }
+
+  tree.extracted.then(
+    () => {
+      tree.ready = true
+    },
+    () => {
+      if (trees.get(key) === tree) trees.delete(key)
+      removeDir(dir)
+    }
+  )
+  trees.set(key, tree)
+  return tree
+}
+
+/**
+ * Drop unused trees past their TTL, then the least recently used beyond config.archive.reuseTrees
+ */
+function pruneTrees(): void {
+  const now = Date.now()
+  const idle = [...trees.entries()]
+    .filter(([, tree]) => tree.ready && tree.users === 0)
+    .sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt)
+
+  idle.forEach(([key, tree], index) => {
+    if (index >= config.archive.reuseTrees || now - tree.lastUsedAt > config.archive.reuseTtlMs) {
+      trees.delete(key)
+      removeDir(tree.dir)
+    }
+  })
+}
+
+function removeDir(dir: string): void {
+  try {
+    rmSync(dir, { recursive: true, force: true })
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Typed error for a failed archive response
+ */
+function responseError(response: Response, repo: string, label: string): ArchiveError {
+  const { status } = response
+  const host = parseRepoSource(repo).provider === 'gitlab' ? 'GitLab' : 'GitHub'
+
+  if (status === 404) {
+    return new ArchiveError(
+      'NOT_FOUND',
+      `Repository or ref not found: ${label}. Check that the repo exists, the branch name is correct and your token can see it.`,
+      status
+    )
+  }
+
+  if (status === 401) {
+    return new ArchiveError('UNAUTHORIZED', `Authentication failed. Check that your ${host} token is valid and has access to ${repo}.`, status)
+  }
+
+  if (status === 403 || status === 429) {
+    // GitHub sends x-ratelimit-* headers, GitLab ratelimit-*
+    if (status === 429 || (response.headers.get('x-ratelimit-remaining') ?? response.headers.get('ratelimit-remaining')) === '0') {
+      const resetTime = response.headers.get('x-ratelimit-reset') ?? response.headers.get('ratelimit-reset')
+      const resetDate = resetTime ? new Date(parseInt(resetTime) * 1000) : null
+      return new ArchiveError(
+        'RATE_LIMITED',
+        `${host} rate limit exceeded${resetDate ? `. Resets at ${resetDate.toLocaleTimeString()}` : ''}`,
+        status
+      )
+    }
+    return new ArchiveError('FORBIDDEN', `Access denied to ${repo}. Ensure your ${host} token has the required permissions.`, status)
+  }
+
+  return new ArchiveError(
+    'DOWNLOAD_FAILED',
+    `Failed to download ${label}: ${status} ${response.statusText}. This may be a network issue or ${host} API error.`,
+    status
+  )
+}
+
+/**
+ * Tar extraction
+ */
+
+async function extractTar(source: AsyncIterable<Buffer>, targetDir: string, limits: ArchiveLimits): Promise<ExtractResult> {
+  const reader = createBlockReader(source)
+  const maxBytes = limits.maxSize * 1024
+  const result: ExtractResult = { fileCount: 0, totalBytes: 0 }
+  let longPath: string | undefined // from a pax or GNU long-name header, applies to the next entry
+  let entries = 0
+
+  while (true) {
+    const header = await reader.read(BLOCK_SIZE)
+    if (!header || header.every(byte => byte === 0)) break // end-of-archive marker
+
+    const size = parseOctal(header, 124, 12)
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156])
+    const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+
+    // Metadata entries: read whole (they're small), then move on to the entry they describe
+    if (type === 'x' || type === 'g' || type === 'L') {
+      if (size > MAX_METADATA_SIZE) {
+        throw new ArchiveError('TOO_LARGE', `Archive has a ${Math.ceil(size / 1024)}KB metadata entry (limit ${MAX_METADATA_SIZE / 1024}KB)`)
+      }
+      const body = await reader.read(size + padding)
+      if (!body) throw truncated()
+      const data = body.subarray(0, size)
+
+      if (type === 'L') {
+        longPath = readString(data, 0, data.length)
+      } else {
+        const records = parsePaxRecords(data)
+        if (type === 'x' && records.path) longPath = records.path
+        if (type === 'g' && records.comment && COMMIT_SHA.test(records.comment)) result.commitSha = records.comment
+      }
+      continue
+    }
+
+    const name = longPath ?? headerPath(header)
+    longPath = undefined
+
+    if (++entries > limits.maxEntries) {
+      throw new ArchiveError('TOO_MANY_ENTRIES', `Archive has more than ${limits.maxEntries} entries`)
+    }
+
+    const relative = name.split('/').slice(1).join('/') // strip "owner-repo-sha/"
+    const destination = resolve(targetDir, relative)
+    if (relative && !destination.startsWith(targetDir + sep)) {
+      throw new ArchiveError('UNSAFE_PATH', `Archive entry "${name}" points outside the extraction directory`)
+    }
+
+    // Regular files only; directories are created as files need them
+    if ((type !== '0' && type !== '7') || !relative) {
+      if (!(await reader.consume(size + padding, () => {}))) throw truncated()
+      continue
+    }
+
+    result.totalBytes += size
+    if (result.totalBytes > maxBytes) {
+      throw new ArchiveError('TOO_LARGE', `Archive is over the ${Math.round(limits.maxSize / 1024)}MB extracted size limit`)
+    }
+
+    mkdirSync(dirname(destination), { recursive: true })
+    const fd = openSync(destination, 'w')
+    try {
+      if (!(await reader.consume(size, chunk => writeSync(fd, chunk)))) throw truncated()
+    } finally {
+      closeSync(fd)
+    }
+    if (!(await reader.consume(padding, () => {}))) throw truncated()
+    result.fileCount++
+  }
+
+  return result
+}
+
+/**
+ * Read exact-size pieces from a chunked stream, without buffering large entries
+ */
+function createBlockReader(source: AsyncIterable<Buffer>) {
+  const iterator = source[Symbol.asyncIterator]()
+  let pending: Buffer = Buffer.alloc(0)
+
+  // Hand the next `size` bytes to onChunk as they arrive; false if the stream ends first
+  async function consume(size: number, onChunk: (chunk: Buffer) => void): Promise<boolean> {
+    let remaining = size
+    while (remaining > 0) {
+      if (pending.length === 0) {
+        const { value, done } = await iterator.next()
+        if (done) return false
+        pending = value
+        continue
+      }
+      const piece = pending.subarray(0, remaining)
+      pending = pending.subarray(piece.length)
+      remaining -= piece.length
+      onChunk(piece)
+    }
+    return true
+  }
+
+  async function read(size: number): Promise<Buffer | null> {
+    const pieces: Buffer[] = []
+    return (await consume(size, piece => pieces.push(piece))) ? Buffer.concat(pieces) : null
+  }
+
+  return { consume, read }
+}
+
+function truncated(): ArchiveError {
+  return new ArchiveError('CORRUPT', 'Archive ended mid-entry')
+}
+
+/**
+ * Entry path from a ustar header (prefix + name)
+ */
+function headerPath(header: Buffer): string {
+  const name = readString(header, 0, 100)
+  const isUstar = header.toString('ascii', 257, 262) === 'ustar'
+  const prefix = isUstar ? readString(header, 345, 155) : ''
+  return prefix ? `${prefix}/${name}` : name
+}
+
+/**
+ * Pax header records ("<length> <key>=<value>\n")
+ */
+function parsePaxRecords(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  let offset = 0
+
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset)
+    const length = parseInt(body.toString('ascii', offset, space), 10)
+    if (space === -1 || !length) break
+
+    const record = body.toString('utf8', space + 1, offset + length - 1)
+    const equals = record.indexOf('=')
+    if (equals > 0) records[record.slice(0, equals)] = record.slice(equals + 1)
+    offset += length
+  }
+
+  return records
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const value = buffer.toString('utf8', offset, offset + length)
+  const end = value.indexOf('\0')
+  return end === -1 ? value : value.slice(0, end)
+}
+
+function parseOctal(buffer: Buffer, offset: number, length: number): number {
+  const value = parseInt(readString(buffer, offset, length).trim() || '0', 8)
+  if (Number.isNaN(value)) {
+    throw new ArchiveError('CORRUPT', 'Archive has an unreadable entry header')
+  }
+  return value
+}
@@ -5,17 +5,34 @@
  * Works in both client and server environments (no Node.js dependencies).
  */
 
-import { PackedRepo } from './types'
+import { Changeset, OutputStyle, PackedRepo, RepoThread, RepoThreads, ThreadComment, ThreadKind } from './types'
+import { parseJsonOutput } from './packFormat'
 
 /**
  * Assemble multiple packed repos into a single prompt-friendly output
  *
  * Can be called client-side or server-side.
  * Separated from lib/repomix.ts to avoid Node.js dependencies in browser.
+ *
+ * XML and Markdown packs are wrapped in Markdown headers; plain and JSON packs
+ * get a wrapper in their own format so the result stays pasteable as-is.
+ * A repo's issues, pull requests and discussions follow its code as their own section.
  */
-export function assemblePackedContext(repos: PackedRepo[], userPrompt?: string): string {
+export function assemblePackedContext(
+  repos: PackedRepo[],
+  userPrompt?: string,
+  outputStyle: OutputStyle = 'xml'
+): string {
   const timestamp = new Date().toISOString().split('T')[0]
 
+  if (outputStyle === 'json') {
+    return assembleJsonContext(repos, timestamp, userPrompt)
+  }
+
+  if (outputStyle === 'plain') {
+    return assemblePlainContext(repos, timestamp, userPrompt)
+  }
+
   let output = ''
 
   // Add user prompt at the top if provided
@@ -33,20 +50,204 @@ export function assemblePackedContext(repos: PackedRepo[], userPrompt?: string):
     }
 
     output += `## Repo: ${repo.repo} (${repo.branch})\n`
-    output += `- Files included: ${repo.stats.fileCount} | Approx chars: ${repo.stats.approxChars.toLocaleString()}\n\n`
+    output += `- Files included: ${repo.stats.fileCount} | Approx chars: ${repo.stats.approxChars.toLocaleString()}\n`
+
+    if (repo.changes) {
+      const fence = codeFence(repo.changes.diff)
+      output += `- ${describeChangeset(repo.changes)}\n\n`
+      output += `### Diff\n\n${fence}diff\n${repo.changes.diff}\n${fence}\n\n`
+      output += `### Changed files at head\n\n`
+    } else {
+      output += `\n`
+    }
+
     output += repo.output
     output += `\n\n`
+
+    if (repo.threads) {
+      output += `### Issues, pull requests and discussions\n\n`
+      output += renderThreads(repo.threads, true)
+    }
+  }
+
+  return output
+}
+
+/**
+ * Plain text variant: underlined headings instead of Markdown syntax
+ */
+function assemblePlainContext(repos: PackedRepo[], timestamp: string, userPrompt?: string): string {
+  const heading = (text: string) => `${text}\n${'='.repeat(text.length)}\n\n`
+
+  let output = ''
+
+  if (userPrompt?.trim()) {
+    output += heading('User Prompt') + `${userPrompt.trim()}\n\n`
+  }
+
+  output += heading(`Context: Vana Source Query packed code (generated on ${timestamp})`)
+
+  for (const repo of repos) {
+    if (repo.error) {
+      output += heading(`Repo: ${repo.repo} (${repo.branch}) - ERROR`)
+      output += `Error: ${repo.error}\n\n`
+      continue
+    }
+
+    output += heading(`Repo: ${repo.repo} (${repo.branch})`)
+    output += `Files included: ${repo.stats.fileCount} | Approx chars: ${repo.stats.approxChars.toLocaleString()}\n\n`
+
+    if (repo.changes) {
+      output += `${describeChangeset(repo.changes)}\n\n`
+      output += `Diff:\n\n${repo.changes.diff}\n\n`
+    }
+
+    output += repo.output
+    output += `\n\n`
+
+    if (repo.threads) {
+      output += heading(`Issues, pull requests and discussions: ${repo.repo}`)
+      output += renderThreads(repo.threads, false)
+    }
+  }
+
+  return output
+}
+
+/**
+ * JSON variant: a single document with each repo's pack embedded as parsed JSON
+ */
+function assembleJsonContext(repos: PackedRepo[], timestamp: string, userPrompt?: string): string {
+  const document = {
+    ...(userPrompt?.trim() && { userPrompt: userPrompt.trim() }),
+    context: `Vana Source Query packed code (generated on ${timestamp})`,
+    repos: repos.map(repo =>
+      repo.error
+        ? { repo: repo.repo, branch: repo.branch, error: repo.error }
+        : {
+            repo: repo.repo,
+            branch: repo.branch,
+            fileCount: repo.stats.fileCount,
+            approxChars: repo.stats.approxChars,
+            ...(repo.changes && { changes: repo.changes }),
+            // Embed as an object when the pack is JSON, otherwise keep the raw text
+            pack: parseJsonOutput(repo.output) ?? repo.output,
+            ...(repo.threads && {
+              threads: repo.threads.error ? { error: repo.threads.error } : repo.threads.threads,
+            }),
+          }
+    ),
+  }
+
+  return JSON.stringify(document, null, 2)
+}
+
+/**
+ * One-line summary of a pull request or compare range
+ */
+function describeChangeset(changes: Changeset): string {
+  const additions = changes.files.reduce((sum, file) => sum + file.additions, 0)
+  const deletions = changes.files.reduce((sum, file) => sum + file.deletions, 0)
+  const subject = changes.kind === 'pull'
+    ? `Pull request ${changes.label}${changes.title ? `: ${changes.title}` : ''}`
+    : `Compare ${changes.label}`
+
+  return `${subject} | base ${changes.baseSha.slice(0, 7)} → head ${changes.headSha.slice(0, 7)}` +
+    ` | ${changes.files.length} files changed (+${additions} −${deletions})` +
+    (changes.truncated ? ' | file list truncated by GitHub' : '')
+}
+
+const THREAD_KIND_LABELS: Record<ThreadKind, string> = {
+  issue: 'Issue',
+  pull: 'Pull request',
+  discussion: 'Discussion',
+}
+
+/**
+ * Render a repo's threads, each with its metadata, body and comments
+ * Bodies are quoted in Markdown so their own headings don't break the outline
+ */
+function renderThreads(threads: RepoThreads, markdown: boolean): string {
+  if (threads.error) {
+    return `Threads unavailable: ${threads.error}\n\n`
+  }
+
+  const { kinds = [], labels, state, since } = threads.filter
+  const scope = [
+    kinds.map(kind => THREAD_KIND_LABELS[kind].toLowerCase() + 's').join(', '),
+    `state ${state ?? 'all'}`,
+    ...(labels?.length ? [`labels ${labels.join(', ')}`] : []),
+    ...(since ? [`updated since ${since.split('T')[0]}`] : []),
+  ].join('; ')
+  const count = threads.threads.length
+  let output = `${count} ${count === 1 ? 'thread' : 'threads'} (${scope}), most recently updated first\n\n`
+
+  const quote = (text: string) => markdown
+    ? text.trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n')
+    : text.trim().split('\n').map(line => `    ${line}`.trimEnd()).join('\n')
+
+  for (const thread of threads.threads) {
+    const title = `${THREAD_KIND_LABELS[thread.kind]} #${thread.number}: ${thread.title}`
+    output += markdown ? `#### ${title}\n` : `${title}\n${'-'.repeat(title.length)}\n`
+    output += markdown
+      ? `- ${describeThread(thread)}\n- ${thread.url}\n\n`
+      : `${describeThread(thread)}\n${thread.url}\n\n`
+    if (thread.body.trim()) {
+      output += `${quote(thread.body)}\n\n`
+    }
+
+    for (const comment of thread.comments) {
+      const author = markdown ? `**@${comment.author}**` : `@${comment.author}`
+      output += `${author} ${describeComment(comment, markdown)}:\n${quote(comment.body || '(no text)')}\n\n`
+    }
+    if (thread.omittedComments) {
+      output += `(${thread.omittedComments} later comments omitted)\n\n`
+    }
   }
 
   return output
 }
 
+/**
+ * One-line summary of a thread: state, author, dates and labels
+ */
+function describeThread(thread: RepoThread): string {
+  return [
+    thread.state,
+    `@${thread.author}`,
+    `opened ${thread.createdAt.split('T')[0]}`,
+    `updated ${thread.updatedAt.split('T')[0]}`,
+    ...(thread.labels.length > 0 ? [`labels: ${thread.labels.join(', ')}`] : []),
+  ].join(' | ')
+}
+
+/**
+ * What a comment is attached to, and when
+ */
+function describeComment(comment: ThreadComment, markdown: boolean): string {
+  const date = comment.createdAt.split('T')[0]
+  if (comment.review) return `reviewed (${comment.review.toLowerCase().replace(/_/g, ' ')}, ${date})`
+  if (comment.path) {
+    const location = `${comment.path}${comment.line ? `:${comment.line}` : ''}`
+    return `on ${markdown ? `\`${location}\`` : location} (${date})`
+  }
+  return `(${date})`
+}
+
+/**
+ * Backtick fence longer than any backtick run inside the content
+ */
+function codeFence(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length))
+  return '`'.repeat(Math.max(3, longestRun + 1))
+}
+
 /**
  * Calculate total character count for assembled context
  * Used for estimating token counts before calling Gemini API
  */
 export function calculateTotalChars(repos: PackedRepo[], userPrompt?: string): number {
-  // Estimate: sum of repo outputs + headers + prompt
+  // Estimate: sum of repo outputs and threads (both in stats) + headers + prompt
   const repoChars = repos.reduce((acc, repo) => acc + repo.stats.approxChars, 0)
   const promptChars = userPrompt?.trim().length || 0
   const headerChars = 200 // rough estimate for headers and formatting
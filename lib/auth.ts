@@ -11,6 +11,7 @@ import NextAuth from 'next-auth'
 import GitHub from 'next-auth/providers/github'
 import { PrismaAdapter } from '@auth/prisma-adapter'
 import { prisma, isServerMode } from './prisma'
+import { config } from './config'
 
 // Extend session type to include accessToken
 declare module 'next-auth' {
@@ -47,6 +48,8 @@ function createNextAuth() {
       GitHub({
         clientId: process.env.GITHUB_CLIENT_ID!,
         clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+        // GitHub Enterprise Server deployments sign in on their own host
+        ...(config.github.webUrl !== 'https://github.com' && { enterprise: { baseUrl: config.github.webUrl } }),
         authorization: {
           params: {
             // Request repo scope for private repo access
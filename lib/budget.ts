@@ -0,0 +1,230 @@
+/**
+ * Token Budget Fitting
+ *
+ * Shrinks an oversized pack until it fits a target token count:
+ * 1. Turn on reducers one at a time (re-packs via the caller)
+ * 2. Drop low-priority files (generated, data, tests, docs)
+ * 3. Truncate the largest remaining files evenly
+ *
+ * Steps 2 and 3 rewrite the packed output in place, so they work on any pack.
+ * Works in both client and server environments (no Node.js dependencies).
+ */
+
+import { minimatch } from 'minimatch'
+import { BudgetFileCategory, BudgetReport, PackedRepo, PackResult, ReducerName, SliceConfig } from './types'
+import { buildFileManifest, mapPackedFileContents, parsePackedFiles } from './packFormat'
+
+// Cheapest first: each step loses more of the code than the one before
+export const BUDGET_REDUCERS: ReducerName[] = ['truncateBase64', 'removeEmptyLines', 'removeComments', 'compress', 'outline']
+
+// First matching category wins; categories are dropped in this order
+const BUDGET_FILE_PATTERNS: Record<BudgetFileCategory, string[]> = {
+  generated: [
+    '**/generated/**',
+    '**/*.generated.*',
+    '**/*.min.{js,css}',
+    '**/*.map',
+    '**/*.snap',
+    '**/{package-lock.json,yarn.lock,pnpm-lock.yaml,Cargo.lock,poetry.lock,go.sum}',
+    '**/{dist,build}/**',
+  ],
+  data: ['**/*.{csv,tsv,jsonl,ndjson,sql}', '**/fixtures/**'],
+  tests: ['**/*.{test,spec}.*', '**/__tests__/**', '**/{test,tests}/**', '**/*_test.{go,py}', '**/test_*.py'],
+  docs: ['**/*.{md,mdx,rst,txt}', '**/docs/**', '**/{LICENSE,CHANGELOG}*'],
+}
+
+const BUDGET_FILE_CATEGORIES = Object.keys(BUDGET_FILE_PATTERNS) as BudgetFileCategory[]
+
+// Structured data files this large are treated as data, not config
+const LARGE_DATA_CHARS = 20_000
+const DATA_EXTENSIONS = /\.(json|ya?ml|xml)$/i
+
+const DROPPED_NOTE = '(omitted to fit the token budget)'
+const TRUNCATION_NOTE_CHARS = 60 // allowance for the "... truncated" line
+
+/**
+ * Classify a file for dropping when over budget
+ * @returns Category, or null if the file should be kept
+ */
+export function classifyBudgetFile(path: string, chars: number): BudgetFileCategory | null {
+  for (const category of BUDGET_FILE_CATEGORIES) {
+    if (BUDGET_FILE_PATTERNS[category].some(pattern => minimatch(path, pattern, { dot: true }))) {
+      return category
+    }
+    if (category === 'data' && chars >= LARGE_DATA_CHARS && DATA_EXTENSIONS.test(path)) {
+      return category
+    }
+  }
+  return null
+}
+
+/**
+ * Approximate tokens across all successfully packed repos
+ */
+export function totalTokens(repos: PackedRepo[]): number {
+  return repos.filter(r => !r.error).reduce((sum, r) => sum + r.stats.approxTokens, 0)
+}
+
+/**
+ * Fit packed repos into a token budget
+ *
+ * @param repack - Re-packs every repo with the given slice config, in the same order
+ * @returns Fitted repos (each with a budget report) and a summary for PackResult
+ */
+export async function fitToBudget(
+  repos: PackedRepo[],
+  options: {
+    targetTokens: number
+    sliceConfig: SliceConfig
+    repack: (sliceConfig: SliceConfig) => Promise<PackedRepo[]>
+  }
+): Promise<{ repos: PackedRepo[]; budget: NonNullable<PackResult['budget']> }> {
+  const { targetTokens, sliceConfig } = options
+  const initialTokens = totalTokens(repos)
+
+  if (initialTokens <= targetTokens) {
+    return { repos, budget: { targetTokens, initialTokens, fits: true } }
+  }
+
+  // Step 1: reducers, one at a time, re-packing after each
+  let current = repos
+  let reducers = { ...sliceConfig.reducers }
+  const applied: ReducerName[] = []
+
+  for (const reducer of BUDGET_REDUCERS) {
+    if (totalTokens(current) <= targetTokens) break
+    if (reducers[reducer]) continue
+
+    reducers = { ...reducers, [reducer]: true }
+    applied.push(reducer)
+
+    const repacked = await options.repack({ ...sliceConfig, reducers })
+    // A failed re-pack keeps the previous (larger) result rather than losing the repo
+    current = repacked.map((repo, i) => (repo.error && !current[i].error ? current[i] : repo))
+  }
+
+  // Steps 2 and 3: drop, then truncate
+  const fitted = trimToBudget(current, targetTokens).map(repo =>
+    repo.error ? repo : { ...repo, budget: { ...emptyReport(), ...repo.budget, reducers: applied } }
+  )
+
+  return {
+    repos: fitted,
+    budget: { targetTokens, initialTokens, fits: totalTokens(fitted) <= targetTokens },
+  }
+}
+
+/**
+ * Drop low-priority files, then truncate the largest files, until the repos fit
+ * Rewrites file contents only; the directory tree still lists every file
+ */
+export function trimToBudget(repos: PackedRepo[], targetTokens: number): PackedRepo[] {
+  let excessChars = (totalTokens(repos) - targetTokens) * 4
+  if (excessChars <= 0) return repos
+
+  const edits = repos.map(() => new Map<string, string>())
+  const reports = repos.map(emptyReport)
+
+  const candidates = repos.flatMap((repo, repoIndex) =>
+    repo.error
+      ? []
+      : parsePackedFiles(repo.output, repo.outputStyle).map(file => ({
+          repoIndex,
+          path: file.path,
+          content: file.content,
+          category: classifyBudgetFile(file.path, file.content.length),
+        }))
+  )
+
+  // Drop by category, largest files first within each
+  const droppable = candidates
+    .filter(c => c.category && c.content.length > DROPPED_NOTE.length)
+    .sort((a, b) =>
+      BUDGET_FILE_CATEGORIES.indexOf(a.category!) - BUDGET_FILE_CATEGORIES.indexOf(b.category!)
+        || b.content.length - a.content.length
+    )
+
+  for (const candidate of droppable) {
+    if (excessChars <= 0) break
+
+    edits[candidate.repoIndex].set(candidate.path, DROPPED_NOTE)
+    reports[candidate.repoIndex].droppedFiles.push({
+      path: candidate.path,
+      category: candidate.category!,
+      approxTokens: Math.ceil(candidate.content.length / 4),
+    })
+    excessChars -= candidate.content.length - DROPPED_NOTE.length
+  }
+
+  // Truncate everything above a common cap, so no single file takes the whole cut
+  if (excessChars > 0) {
+    const remaining = candidates.filter(c => !edits[c.repoIndex].has(c.path))
+    const cap = findTruncationCap(remaining.map(c => c.content.length), excessChars)
+
+    for (const candidate of remaining) {
+      if (candidate.content.length <= cap + TRUNCATION_NOTE_CHARS) continue
+
+      const truncated = truncateContent(candidate.content, cap)
+      edits[candidate.repoIndex].set(candidate.path, truncated)
+      reports[candidate.repoIndex].truncatedFiles.push({
+        path: candidate.path,
+        removedTokens: Math.ceil((candidate.content.length - truncated.length) / 4),
+      })
+    }
+  }
+
+  return repos.map((repo, i) => {
+    if (repo.error || edits[i].size === 0) return { ...repo, budget: reports[i] }
+
+    const style = repo.outputStyle ?? 'xml'
+    const output = mapPackedFileContents(repo.output, style, file => edits[i].get(file.path) ?? file.content)
+    const removedChars = repo.output.length - output.length
+
+    return {
+      ...repo,
+      output,
+      stats: {
+        fileCount: repo.stats.fileCount - reports[i].droppedFiles.length,
+        approxChars: Math.max(0, repo.stats.approxChars - removedChars),
+        approxTokens: Math.max(0, repo.stats.approxTokens - Math.ceil(removedChars / 4)),
+      },
+      files: buildFileManifest(output, style),
+      budget: reports[i],
+    }
+  })
+}
+
+function emptyReport(): BudgetReport {
+  return { reducers: [], droppedFiles: [], truncatedFiles: [] }
+}
+
+/**
+ * Largest per-file size that still removes at least `excessChars` in total
+ * Binary search: savings only shrink as the cap grows
+ */
+function findTruncationCap(sizes: number[], excessChars: number): number {
+  const savings = (cap: number) =>
+    sizes.reduce((sum, size) => sum + Math.max(0, size - cap - TRUNCATION_NOTE_CHARS), 0)
+
+  let low = 0
+  let high = Math.max(0, ...sizes)
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (savings(mid) >= excessChars) low = mid
+    else high = mid - 1
+  }
+
+  return low
+}
+
+/**
+ * Keep the first `cap` chars (cut at a line break) and note how much was cut
+ */
+function truncateContent(content: string, cap: number): string {
+  const lineEnd = content.lastIndexOf('\n', cap)
+  const kept = content.slice(0, lineEnd > 0 ? lineEnd : cap)
+  const removedLines = content.slice(kept.length).split('\n').filter(Boolean).length
+
+  return `${kept}\n... (${removedLines} more lines truncated to fit the token budget)`
+}
@@ -4,15 +4,42 @@
  */
 
 import { config } from './config'
+import type { OutputStyle, RepoSliceConfig, SliceConfig, ThreadFilter, ThreadKind } from './types'
+
+// Issues, pull requests and discussions to pack with every selected repo
+export interface ThreadOptions {
+  enabled: boolean
+  kinds: ThreadKind[]
+  state: NonNullable<ThreadFilter['state']>
+  since: string // yyyy-mm-dd, empty = any time
+}
 
 export interface VanaQueryCache {
   selectedRepos: string[]
   repoBranches: Record<string, string>
+  repoSliceConfigs?: Record<string, RepoSliceConfig> // Optional for backward compatibility (per-repo overrides)
   includeGlobs: string
   ignoreGlobs: string
+  entryPoints?: string // Optional for backward compatibility (import-graph slicing, comma-separated)
+  importDepth?: string // Optional for backward compatibility (empty = default depth)
   respectGitignore: boolean
   respectAiIgnore?: boolean // Optional for backward compatibility
   useDefaultPatterns: boolean
+  outputStyle?: OutputStyle // Optional for backward compatibility
+  redactSecrets?: boolean // Optional for backward compatibility
+  reducers?: SliceConfig['reducers'] // Optional for backward compatibility
+  fullContentGlobs?: string // Optional for backward compatibility (outline reducer, comma-separated)
+  commitLog?: string // Optional for backward compatibility (empty = no commit log)
+  fileHistory?: boolean // Optional for backward compatibility
+  sortByRecentChanges?: boolean // Optional for backward compatibility
+  fitBudget?: boolean // Optional for backward compatibility (fit-to-budget mode)
+  tokenBudget?: string // Optional for backward compatibility (empty = model input limit)
+  includeUnchangedFiles?: boolean // Optional for backward compatibility (PR/compare packs)
+  threadOptions?: ThreadOptions // Optional for backward compatibility (issues/PRs/discussions)
+  threadLabels?: string // Optional for backward compatibility (comma-separated)
+  backgroundPack?: boolean // Optional for backward compatibility (pack as a server job)
+  packJobId?: string // Background job still being followed, resumed on next load
+  githubHost?: string // Optional for backward compatibility (account's GitHub server web URL, empty = deployment's)
   userPrompt: string
   externalRepos?: Array<{
     fullName: string
@@ -34,11 +61,28 @@ const CACHE_VERSION = 1
 const defaultCache: VanaQueryCache = {
   selectedRepos: [],
   repoBranches: {},
+  repoSliceConfigs: {},
   includeGlobs: '',
   ignoreGlobs: '**/*.test.ts,**/*.test.tsx,**/*.test.js,**/*.test.jsx,**/generated/**,**/__tests__/**,**/*.spec.ts,**/*.spec.tsx,**/*.spec.js,**/*.spec.jsx',
+  entryPoints: '',
+  importDepth: '',
   respectGitignore: true,
   respectAiIgnore: true,
   useDefaultPatterns: true,
+  outputStyle: 'xml',
+  redactSecrets: true,
+  reducers: {},
+  fullContentGlobs: '',
+  commitLog: '',
+  fileHistory: false,
+  sortByRecentChanges: false,
+  fitBudget: false,
+  tokenBudget: '',
+  includeUnchangedFiles: false,
+  threadOptions: { enabled: false, kinds: ['issue', 'pull'], state: 'all', since: '' },
+  threadLabels: '',
+  backgroundPack: false,
+  githubHost: '',
   userPrompt: '',
   externalRepos: [],
   geminiModel: config.gemini.defaultModel,
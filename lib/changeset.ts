@@ -0,0 +1,143 @@
+/**
+ * Changeset Utilities
+ *
+ * Pure functions for what a repo selection points at: a branch head, a pinned
+ * tag/SHA, a pull request or a compare range, and which slice of it to pack.
+ * Works in both client and server environments (no Node.js dependencies).
+ */
+
+import { ChangedFile, RepoSelection, SliceConfig, SourceProvider } from './types'
+
+/**
+ * Parse the ref typed into a repo row
+ * "#123" selects a pull request, "base...head" a compare range,
+ * "branch@ref" (or "@ref") pins a tag or SHA, anything else is a branch
+ */
+export function parseRefInput(value: string): Pick<RepoSelection, 'branch' | 'ref' | 'pullRequest' | 'compare'> {
+  const trimmed = value.trim()
+
+  const pinMatch = trimmed.match(/^([^@\s]*)@(\S+)$/)
+  if (pinMatch) {
+    return { branch: pinMatch[1] || undefined, ref: pinMatch[2] }
+  }
+
+  const pullMatch = trimmed.match(/^#(\d+)$/)
+  if (pullMatch) {
+    return { pullRequest: parseInt(pullMatch[1], 10) }
+  }
+
+  const [base, head, ...rest] = trimmed.split('...')
+  if (base && head && rest.length === 0 && !/\s/.test(trimmed)) {
+    return { compare: trimmed }
+  }
+
+  return { branch: trimmed || undefined }
+}
+
+/**
+ * Split a selection's fullName into the repo and an optional sub-directory
+ * "owner/repo//packages/foo" targets packages/foo of owner/repo
+ */
+export function parseRepoTarget(fullName: string): { repo: string; subPath?: string } {
+  const [repo, ...rest] = fullName.split('//')
+  const subPath = rest.join('/').replace(/^\/+|\/+$/g, '')
+  return subPath ? { repo, subPath } : { repo }
+}
+
+/**
+ * Inverse of parseRepoTarget
+ */
+export function repoTargetName(repo: string, subPath?: string): string {
+  return subPath ? `${repo}//${subPath}` : repo
+}
+
+const GITLAB_PREFIX = 'gitlab:'
+
+/**
+ * Split a repo name into its provider and the provider's own path for it
+ * "gitlab:group/sub/project" is a GitLab project; names without a prefix are GitHub repos
+ */
+export function parseRepoSource(repo: string): { provider: SourceProvider; path: string } {
+  return repo.startsWith(GITLAB_PREFIX)
+    ? { provider: 'gitlab', path: repo.slice(GITLAB_PREFIX.length) }
+    : { provider: 'github', path: repo }
+}
+
+/**
+ * Inverse of parseRepoSource
+ */
+export function repoSourceName(provider: SourceProvider, path: string): string {
+  return provider === 'gitlab' ? `${GITLAB_PREFIX}${path}` : path
+}
+
+/**
+ * Branch label for a selection, used in cache keys and pack headers
+ * Pinned selections get "branch@ref" so they never share entries with the branch head
+ */
+export function selectionBranchLabel(selection: RepoSelection): string {
+  const branch = selection.branch || 'main'
+  return selection.ref ? `${branch}@${selection.ref}` : branch
+}
+
+/**
+ * True if the selection packs a pull request or compare range rather than a branch
+ */
+export function isChangesetSelection(selection: RepoSelection): boolean {
+  return selection.pullRequest !== undefined || !!selection.compare
+}
+
+/**
+ * Short display label for a changeset selection ("#123" or "base...head")
+ */
+export function changesetLabel(selection: RepoSelection): string | null {
+  if (selection.pullRequest !== undefined) return `#${selection.pullRequest}`
+  return selection.compare || null
+}
+
+/**
+ * Effective slice config for a selection: its override on top of the request's config
+ * Set fields replace the global ones (globs are not concatenated); reducers merge per key
+ */
+export function selectionSliceConfig(selection: RepoSelection, sliceConfig: SliceConfig): SliceConfig {
+  if (!selection.sliceConfig) return sliceConfig
+
+  const override = Object.fromEntries(
+    Object.entries(selection.sliceConfig).filter(([, value]) => value !== undefined)
+  ) as RepoSelection['sliceConfig']
+
+  return {
+    ...sliceConfig,
+    ...override,
+    outputStyle: sliceConfig.outputStyle,
+    reducers: { ...sliceConfig.reducers, ...override?.reducers },
+  }
+}
+
+/**
+ * Render changed files as a single unified diff (git diff format)
+ * GitHub omits patches for binary and very large files; those get a one-line note
+ */
+export function buildUnifiedDiff(files: ChangedFile[]): string {
+  return files
+    .map(file => {
+      const oldPath = file.previousPath ?? file.path
+      const lines = [`diff --git a/${oldPath} b/${file.path}`]
+
+      if (file.status === 'added') lines.push('new file')
+      if (file.status === 'removed') lines.push('deleted file')
+      if (file.previousPath) lines.push(`rename from ${file.previousPath}`, `rename to ${file.path}`)
+
+      if (!file.patch) {
+        lines.push('(diff not available: binary or too large)')
+        return lines.join('\n')
+      }
+
+      lines.push(
+        `--- ${file.status === 'added' ? '/dev/null' : `a/${oldPath}`}`,
+        `+++ ${file.status === 'removed' ? '/dev/null' : `b/${file.path}`}`,
+        file.patch
+      )
+      return lines.join('\n')
+    })
+    .join('\n')
+}
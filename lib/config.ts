@@ -1,19 +1,43 @@
 import { AppConfig } from "./types";
 
+// github.com unless NEXT_PUBLIC_GITHUB_URL names a GitHub Enterprise Server (e.g. https://github.example.com).
+// The API and archive hosts follow it; GITHUB_API_URL / GITHUB_ARCHIVE_URL override them.
+const githubWebUrl = (process.env.NEXT_PUBLIC_GITHUB_URL || "https://github.com").replace(/\/+$/, "");
+
 /**
  * Application Configuration
  * Single source of truth for all defaults and limits
  */
 export const config: AppConfig = {
   github: {
-    apiUrl: "https://api.github.com",
+    apiUrl: process.env.GITHUB_API_URL
+      || (githubWebUrl === "https://github.com" ? "https://api.github.com" : `${githubWebUrl}/api/v3`),
+    webUrl: githubWebUrl,
+    archiveUrl: process.env.GITHUB_ARCHIVE_URL || undefined,
+    // Other GitHub Enterprise Servers accounts may use (comma-separated web URLs)
+    enterpriseHosts: (process.env.GITHUB_ENTERPRISE_HOSTS || "")
+      .split(",")
+      .map((host) => host.trim().replace(/\/+$/, ""))
+      .filter(Boolean),
+    timeout: 30000, // 30s
+  },
+  gitlab: {
+    apiUrl: "https://gitlab.com/api/v4",
+    webUrl: "https://gitlab.com",
     timeout: 30000, // 30s
   },
   repomix: {
     timeout: 60000, // 60s per repo
+    maxAbandonedRuns: 2, // timed-out or cancelled runs still finishing; new packs are refused beyond this
     maxFileSize: 1024 * 1024, // 1MB per file
     maxTotalSize: 50 * 1024, // 50MB total per repo (in KB)
   },
+  archive: {
+    maxSize: 500 * 1024, // 500MB extracted per repo archive (in KB)
+    maxEntries: 100000, // files + directories per archive
+    reuseTrees: 8, // extracted trees kept for re-packing the same commit with another slice
+    reuseTtlMs: 10 * 60 * 1000, // 10min since last use
+  },
   gemini: {
     defaultModel: "gemini-pro-latest", // baseModelId format (models/ prefix stripped)
   },
@@ -47,3 +71,91 @@ export const CACHE_CONFIG = {
   // Personal repos use browser IndexedDB only
   sharedCacheOrgs: ["vana-com", "opendatalabs", "corsali"],
 };
+
+/**
+ * Pack Job Configuration
+ * Background packs (POST /api/pack/jobs)
+ */
+export const PACK_JOB_CONFIG = {
+  // Repos packed at once across all jobs in this process
+  maxConcurrentPacks: 3,
+
+  // Persist progress at most this often (repo results are saved right away)
+  progressFlushMs: 1000,
+
+  // Queued/running jobs with no update for this long are reported as failed
+  // (the process restarted or the platform stopped it)
+  staleAfterMs: 10 * 60 * 1000,
+
+  // Running jobs touch their updatedAt this often, well inside staleAfterMs
+  heartbeatMs: 60 * 1000,
+
+  // Jobs not updated for this long are deleted, outputs included (well past staleAfterMs,
+  // so only finished or abandoned jobs go)
+  ttlMs: 60 * 60 * 1000,
+};
+
+/**
+ * Thread Configuration
+ * Issues, pull requests and discussions packed alongside code
+ */
+export const THREAD_CONFIG = {
+  // Most recently updated threads per kind, unless the filter says otherwise
+  defaultLimit: 30,
+  maxLimit: 100,
+
+  // Comments kept per thread (oldest first)
+  maxCommentsPerThread: 100,
+
+  // Memory cache (local mode, no Postgres)
+  memoryEntries: 50,
+
+  // Postgres cache; least recently used entries go first
+  maxTotalSize: 100 * 1024 * 1024, // 100MB
+};
+
+/**
+ * History Configuration
+ * Commit log and per-file last changes in a pack (GitHub API, no git binary)
+ */
+export const HISTORY_CONFIG = {
+  // Most commits a pack's commit log may list
+  maxCommitLog: 100,
+
+  // Files looked up per GraphQL request, and at most per pack (the rest get no date)
+  filesPerQuery: 50,
+  maxFiles: 2000,
+};
+
+/**
+ * GitHub App Configuration
+ * Installation tokens for deployments that use an app instead of PATs (lib/githubApp.ts)
+ */
+export const GITHUB_APP_CONFIG = {
+  // App JWTs may live at most 10 minutes
+  jwtLifetimeSeconds: 9 * 60,
+
+  // Installation tokens last an hour; mint a new one this long before expiry
+  refreshBeforeExpiryMs: 5 * 60 * 1000,
+
+  // Remember that an owner has no installation for this long
+  notInstalledTtlMs: 60 * 1000,
+
+  // Remember whether a signed-in user belongs to an owner for this long
+  membershipTtlMs: 5 * 60 * 1000,
+};
+
+/**
+ * GitHub HTTP Cache Configuration
+ * ETag / Last-Modified validators for conditional GitHub GETs (lib/db/httpCache.server.ts)
+ */
+export const HTTP_CACHE_CONFIG = {
+  // Larger responses (e.g. big raw files) aren't stored
+  maxEntrySize: 2 * 1024 * 1024, // 2MB
+
+  // Memory store (local mode, no Postgres); oldest entries go first
+  memoryMaxSize: 50 * 1024 * 1024, // 50MB
+
+  // Postgres store; least recently used entries go first
+  maxTotalSize: 200 * 1024 * 1024, // 200MB
+};
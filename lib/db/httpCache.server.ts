@@ -0,0 +1,155 @@
+/**
+ * Server-side GitHub HTTP Cache (Postgres, or memory in local mode)
+ *
+ * The last response to each GitHub GET, with its ETag / Last-Modified, so the
+ * next request can go out conditional. Keys hash the token in: entries are
+ * per token and never served to another. Both stores are bounded by size,
+ * least recently used first out.
+ */
+
+import { createHash } from 'node:crypto'
+import { HTTP_CACHE_CONFIG } from '../config'
+
+export interface HttpCacheEntry {
+  etag?: string
+  lastModified?: string
+  headers: Record<string, string | number | undefined> // replayed on 304 (pagination links, scopes)
+  data: unknown
+}
+
+interface MemoryEntry extends HttpCacheEntry {
+  sizeBytes: number
+}
+
+// Memory store, cached on globalThis so hot reloads keep it
+const globalForHttp = globalThis as unknown as { httpCache: Map<string, MemoryEntry> | undefined }
+const memoryEntries = globalForHttp.httpCache ?? new Map<string, MemoryEntry>()
+globalForHttp.httpCache = memoryEntries
+let memorySize = [...memoryEntries.values()].reduce((sum, entry) => sum + entry.sizeBytes, 0)
+
+// Prisma is loaded on first use in server mode only, so GitHubClient doesn't need the generated client
+const getPrisma = async () => {
+  if (!process.env.DATABASE_URL) return null
+  const { prisma } = await import('../prisma')
+  return prisma
+}
+
+/**
+ * Build cache key: the token, Accept header (raw vs JSON bodies) and URL
+ */
+export function buildHttpCacheKey(token: string, accept: string, url: string): string {
+  return createHash('sha256').update(`${token}\n${accept}\n${url}`).digest('hex')
+}
+
+/**
+ * Look up the stored response for a request
+ * @returns The entry, or null on a miss
+ */
+export async function lookupHttpCache(key: string): Promise<HttpCacheEntry | null> {
+  const prisma = await getPrisma()
+
+  if (!prisma) {
+    const entry = memoryEntries.get(key)
+    if (!entry) return null
+    memoryEntries.delete(key) // Re-insert at the end, so the least recently used goes first
+    memoryEntries.set(key, entry)
+    return entry
+  }
+
+  try {
+    const entry = await prisma.httpCache.findUnique({ where: { key } })
+    if (!entry) return null
+
+    await prisma.httpCache.update({
+      where: { key },
+      data: { lastAccessedAt: new Date() },
+    })
+    return {
+      ...(entry.etag && { etag: entry.etag }),
+      ...(entry.lastModified && { lastModified: entry.lastModified }),
+      headers: entry.headers as HttpCacheEntry['headers'],
+      data: entry.data,
+    }
+  } catch (error) {
+    console.error('[httpCache.server] Lookup failed:', error)
+    return null
+  }
+}
+
+/**
+ * Store a response with its validators, replacing any entry for the same key
+ * Responses over HTTP_CACHE_CONFIG.maxEntrySize are skipped
+ */
+export async function storeHttpCache(key: string, url: string, entry: HttpCacheEntry): Promise<void> {
+  const sizeBytes = Buffer.byteLength(JSON.stringify(entry.data) ?? '', 'utf8')
+  if (sizeBytes > HTTP_CACHE_CONFIG.maxEntrySize) return
+
+  const prisma = await getPrisma()
+
+  if (!prisma) {
+    deleteMemoryEntry(key)
+    memoryEntries.set(key, { ...entry, sizeBytes })
+    memorySize += sizeBytes
+    while (memorySize > HTTP_CACHE_CONFIG.memoryMaxSize) {
+      deleteMemoryEntry(memoryEntries.keys().next().value!)
+    }
+    return
+  }
+
+  try {
+    const data = {
+      url,
+      etag: entry.etag ?? null,
+      lastModified: entry.lastModified ?? null,
+      headers: JSON.parse(JSON.stringify(entry.headers)),
+      data: JSON.parse(JSON.stringify(entry.data)),
+      sizeBytes,
+    }
+    await prisma.httpCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: { ...data, cachedAt: new Date(), lastAccessedAt: new Date() },
+    })
+
+    const { _sum } = await prisma.httpCache.aggregate({ _sum: { sizeBytes: true } })
+    const totalSize = _sum.sizeBytes ?? 0
+    if (totalSize > HTTP_CACHE_CONFIG.maxTotalSize) {
+      await purgeLRU(totalSize - HTTP_CACHE_CONFIG.maxTotalSize)
+    }
+  } catch (error) {
+    console.error('[httpCache.server] Store failed:', error)
+  }
+}
+
+/**
+ * Delete least recently used Postgres entries to free space
+ */
+async function purgeLRU(bytesNeeded: number): Promise<void> {
+  const prisma = await getPrisma()
+  if (!prisma) return
+
+  const entries = await prisma.httpCache.findMany({
+    orderBy: { lastAccessedAt: 'asc' },
+    select: { key: true, sizeBytes: true },
+  })
+
+  let freedBytes = 0
+  const keysToDelete: string[] = []
+  for (const entry of entries) {
+    if (freedBytes >= bytesNeeded) break
+    keysToDelete.push(entry.key)
+    freedBytes += entry.sizeBytes
+  }
+
+  if (keysToDelete.length > 0) {
+    await prisma.httpCache.deleteMany({ where: { key: { in: keysToDelete } } })
+    console.log(`[httpCache.server] Purged ${keysToDelete.length} entries, freed ${(freedBytes / 1024 / 1024).toFixed(1)}MB`)
+  }
+}
+
+function deleteMemoryEntry(key: string): void {
+  const entry = memoryEntries.get(key)
+  if (!entry) return
+  memoryEntries.delete(key)
+  memorySize -= entry.sizeBytes
+}
@@ -6,13 +6,13 @@
  */
 
 import { prisma } from '../prisma'
-import type { CachedPack, CacheLookupResult, CacheStats, SliceConfig } from '../types'
+import type { CachedPack, CacheLookupResult, CacheStats, FileManifestEntry, SliceConfig } from '../types'
 import { CACHE_CONFIG } from '../config'
 
 /**
  * FNV-1a hash function (deterministic, same as client-side)
  */
-function fnv1aHash(str: string): string {
+export function fnv1aHash(str: string): string {
   let hash = 2166136261
   for (let i = 0; i < str.length; i++) {
     hash ^= str.charCodeAt(i)
@@ -23,6 +23,7 @@ function fnv1aHash(str: string): string {
 
 /**
  * Hash slice config for cache key (same as client-side)
+ * Pass the repo's effective config (selectionSliceConfig) so per-repo overrides get their own entries
  */
 export function hashSliceConfig(config: SliceConfig): string {
   const normalized = {
@@ -31,12 +32,21 @@ export function hashSliceConfig(config: SliceConfig): string {
     respectGitignore: config.respectGitignore ?? true,
     respectAiIgnore: config.respectAiIgnore ?? true,
     useDefaultPatterns: config.useDefaultPatterns ?? true,
+    outputStyle: config.outputStyle ?? 'xml',
+    redactSecrets: config.redactSecrets ?? true,
+    entryPoints: (config.entryPoints || []).filter(Boolean).sort(),
+    importDepth: config.entryPoints?.some(Boolean) ? config.importDepth ?? 3 : undefined,
     reducers: {
       compress: config.reducers?.compress ?? false,
       removeComments: config.reducers?.removeComments ?? false,
       removeEmptyLines: config.reducers?.removeEmptyLines ?? false,
       truncateBase64: config.reducers?.truncateBase64 ?? false,
+      outline: config.reducers?.outline ?? false,
     },
+    fullContentGlobs: config.reducers?.outline ? [...(config.fullContentGlobs || [])].sort() : [],
+    commitLog: config.commitLog ?? 0,
+    fileHistory: config.fileHistory ?? false,
+    sortByRecentChanges: config.sortByRecentChanges ?? false,
   }
   return fnv1aHash(JSON.stringify(normalized))
 }
@@ -136,6 +146,7 @@ export async function storeInCache(
   sliceConfig: SliceConfig,
   packedOutput: string,
   stats: { fileCount: number; approxChars: number; approxTokens: number },
+  files?: FileManifestEntry[],
   isPublic: boolean = true,
   geminiTokens?: number
 ): Promise<void> {
@@ -167,6 +178,7 @@ export async function storeInCache(
         sliceConfigHash: hashSliceConfig(sliceConfig),
         packedOutput,
         stats,
+        files,
         geminiTokens,
         sizeBytes,
         isPublic,
@@ -174,6 +186,7 @@ export async function storeInCache(
       update: {
         packedOutput,
         stats,
+        files,
         geminiTokens,
         sizeBytes,
         lastAccessedAt: new Date(),
@@ -287,6 +300,7 @@ function dbToCachedPack(record: {
   sliceConfigHash: string
   packedOutput: string
   stats: unknown
+  files: unknown
   geminiTokens: number | null
   cachedAt: Date
   lastAccessedAt: Date
@@ -300,6 +314,7 @@ function dbToCachedPack(record: {
     sliceConfigHash: record.sliceConfigHash,
     packedOutput: record.packedOutput,
     stats,
+    files: (record.files as FileManifestEntry[] | null) ?? undefined,
     geminiTokens: record.geminiTokens ?? undefined,
     cachedAt: record.cachedAt.getTime(),
     lastAccessedAt: record.lastAccessedAt.getTime(),
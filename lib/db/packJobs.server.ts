@@ -0,0 +1,191 @@
+/**
+ * Server-side Pack Jobs (Postgres, or memory in local mode)
+ *
+ * Job state for background packs. Jobs are looked up by their random ID and
+ * only returned to the requester who started them; the GitHub token is never
+ * stored. Jobs expire PACK_JOB_CONFIG.ttlMs after their last update.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { prisma } from '../prisma'
+import { PACK_JOB_CONFIG } from '../config'
+import type { PackJob, PackResult, RepoSelection, SliceConfig } from '../types'
+
+export interface PackJobRequest {
+  repos: RepoSelection[]
+  sliceConfig: SliceConfig
+  tokenBudget?: number
+}
+
+export type PackJobUpdate = Partial<Pick<PackJob, 'status' | 'progress' | 'result' | 'error'>>
+
+const ACTIVE_STATUSES: PackJob['status'][] = ['queued', 'running']
+
+interface MemoryJob {
+  job: PackJob
+  ownerKey: string | null
+}
+
+// Memory store, cached on globalThis so hot reloads don't lose running jobs
+const globalForJobs = globalThis as unknown as { packJobs: Map<string, MemoryJob> | undefined }
+const memoryJobs = globalForJobs.packJobs ?? new Map<string, MemoryJob>()
+globalForJobs.packJobs = memoryJobs
+
+function emptyResult(): PackResult {
+  return { repos: [], totalStats: { fileCount: 0, approxChars: 0, approxTokens: 0 }, errors: [] }
+}
+
+/**
+ * Create a queued job, purging expired ones
+ * @param ownerKey - Requester the job belongs to (see getRequesterKey); null for anonymous requests
+ */
+export async function createJob(request: PackJobRequest, ownerKey: string | null): Promise<PackJob> {
+  const progress: PackJob['progress'] = Object.fromEntries(request.repos.map(r => [r.fullName, 'queued']))
+
+  if (!prisma) {
+    purgeMemoryJobs()
+    const now = Date.now()
+    const job: PackJob = {
+      id: randomUUID(),
+      status: 'queued',
+      repos: request.repos,
+      sliceConfig: request.sliceConfig,
+      progress,
+      result: emptyResult(),
+      createdAt: now,
+      updatedAt: now,
+    }
+    memoryJobs.set(job.id, { job, ownerKey })
+    return job
+  }
+
+  await purgeExpiredJobs()
+
+  try {
+    const record = await prisma.packJob.create({
+      data: {
+        id: randomUUID(),
+        ownerKey,
+        request: JSON.parse(JSON.stringify(request)),
+        progress,
+        result: JSON.parse(JSON.stringify(emptyResult())),
+      },
+    })
+    return dbToPackJob(record)
+  } catch (error) {
+    console.error('[packJobs.server] createJob failed:', error)
+    throw error
+  }
+}
+
+/**
+ * Get a job by ID for its requester
+ * @returns The job, or null if it doesn't exist, expired or belongs to someone else
+ */
+export async function getJob(id: string, ownerKey: string | null): Promise<PackJob | null> {
+  const cutoff = Date.now() - PACK_JOB_CONFIG.ttlMs
+
+  if (!prisma) {
+    const entry = memoryJobs.get(id)
+    if (!entry || entry.ownerKey !== ownerKey || entry.job.updatedAt < cutoff) return null
+    return entry.job
+  }
+
+  try {
+    const record = await prisma.packJob.findUnique({ where: { id } })
+    if (!record || record.ownerKey !== ownerKey || record.updatedAt.getTime() < cutoff) return null
+    return dbToPackJob(record)
+  } catch (error) {
+    console.error('[packJobs.server] getJob failed:', error)
+    throw error
+  }
+}
+
+/**
+ * Update a job's status, progress or result while it is still queued or running
+ * Finished jobs (done, or failed by a stale check) are left as they are
+ * @returns Whether the job was updated
+ */
+export async function updateJob(id: string, update: PackJobUpdate): Promise<boolean> {
+  if (!prisma) {
+    const entry = memoryJobs.get(id)
+    if (!entry || !ACTIVE_STATUSES.includes(entry.job.status)) return false
+    memoryJobs.set(id, { ...entry, job: { ...entry.job, ...update, updatedAt: Date.now() } })
+    return true
+  }
+
+  try {
+    const { count } = await prisma.packJob.updateMany({
+      where: { id, status: { in: ACTIVE_STATUSES } },
+      data: {
+        ...(update.status && { status: update.status }),
+        ...(update.progress && { progress: update.progress }),
+        ...(update.result && { result: JSON.parse(JSON.stringify(update.result)) }),
+        ...(update.error !== undefined && { error: update.error }),
+        // Set explicitly: a heartbeat may change nothing else
+        updatedAt: new Date(),
+      },
+    })
+    return count > 0
+  } catch (error) {
+    console.error('[packJobs.server] updateJob failed:', error)
+    throw error
+  }
+}
+
+/**
+ * Drop memory jobs not updated for PACK_JOB_CONFIG.ttlMs
+ */
+function purgeMemoryJobs(): void {
+  const cutoff = Date.now() - PACK_JOB_CONFIG.ttlMs
+  for (const [id, { job }] of memoryJobs) {
+    if (job.updatedAt < cutoff) {
+      memoryJobs.delete(id)
+    }
+  }
+}
+
+/**
+ * Delete Postgres jobs not updated for PACK_JOB_CONFIG.ttlMs, with their outputs
+ */
+async function purgeExpiredJobs(): Promise<void> {
+  if (!prisma) return
+
+  try {
+    const result = await prisma.packJob.deleteMany({
+      where: { updatedAt: { lt: new Date(Date.now() - PACK_JOB_CONFIG.ttlMs) } },
+    })
+    if (result.count > 0) {
+      console.log(`[packJobs.server] Purged ${result.count} expired jobs`)
+    }
+  } catch (error) {
+    console.error('[packJobs.server] Purge failed:', error)
+  }
+}
+
+/**
+ * Convert database record to PackJob type
+ */
+function dbToPackJob(record: {
+  id: string
+  status: string
+  request: unknown
+  progress: unknown
+  result: unknown
+  error: string | null
+  createdAt: Date
+  updatedAt: Date
+}): PackJob {
+  const request = record.request as PackJobRequest
+  return {
+    id: record.id,
+    status: record.status as PackJob['status'],
+    repos: request.repos,
+    sliceConfig: request.sliceConfig,
+    progress: record.progress as PackJob['progress'],
+    result: record.result as PackResult,
+    error: record.error ?? undefined,
+    createdAt: record.createdAt.getTime(),
+    updatedAt: record.updatedAt.getTime(),
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Server-side Thread Cache (Postgres, or memory in local mode)
+ *
+ * Issues, pull requests and discussions keyed on repo + filter. An entry is
+ * fresh while the repo's latest thread update (its freshness key) hasn't moved.
+ * Both stores are bounded, least recently used first out.
+ */
+
+import { prisma } from '../prisma'
+import { CACHE_CONFIG, THREAD_CONFIG } from '../config'
+import { fnv1aHash } from './packCache.server'
+import type { RepoThread, ThreadFilter } from '../types'
+
+interface CachedThreads {
+  freshness: string
+  threads: RepoThread[]
+}
+
+// Memory store, cached on globalThis so hot reloads keep it
+const globalForThreads = globalThis as unknown as { threadCache: Map<string, CachedThreads> | undefined }
+const memoryThreads = globalForThreads.threadCache ?? new Map<string, CachedThreads>()
+globalForThreads.threadCache = memoryThreads
+
+/**
+ * Hash a normalized thread filter for the cache key
+ */
+export function hashThreadFilter(filter: ThreadFilter): string {
+  return fnv1aHash(JSON.stringify({
+    kinds: filter.kinds ?? [],
+    labels: filter.labels ?? [],
+    state: filter.state ?? 'all',
+    since: filter.since ?? '',
+    limit: filter.limit ?? 0,
+  }))
+}
+
+/**
+ * Build cache key
+ */
+export function buildThreadCacheKey(repo: string, filter: ThreadFilter): string {
+  return `${repo}:${hashThreadFilter(filter)}`
+}
+
+/**
+ * Look up cached threads
+ * @param shared - Use Postgres (whitelisted orgs only); local mode always uses memory
+ * @returns The threads, or null on a miss or when the freshness key moved
+ */
+export async function lookupThreadCache(
+  repo: string,
+  filter: ThreadFilter,
+  freshness: string,
+  shared: boolean
+): Promise<RepoThread[] | null> {
+  const key = buildThreadCacheKey(repo, filter)
+
+  if (!prisma) {
+    const entry = memoryThreads.get(key)
+    return entry?.freshness === freshness ? entry.threads : null
+  }
+  if (!shared) return null
+
+  try {
+    const entry = await prisma.threadCache.findUnique({ where: { key } })
+    if (!entry || entry.freshness !== freshness) return null
+
+    await prisma.threadCache.update({
+      where: { key },
+      data: { lastAccessedAt: new Date() },
+    })
+    return entry.threads as RepoThread[]
+  } catch (error) {
+    console.error('[threadCache.server] Lookup failed:', error)
+    return null
+  }
+}
+
+/**
+ * Store fetched threads, replacing any entry for the same repo + filter
+ */
+export async function storeThreadCache(
+  repo: string,
+  filter: ThreadFilter,
+  freshness: string,
+  threads: RepoThread[],
+  shared: boolean
+): Promise<void> {
+  const key = buildThreadCacheKey(repo, filter)
+
+  if (!prisma) {
+    memoryThreads.delete(key) // Re-insert at the end, so the oldest entry goes first
+    memoryThreads.set(key, { freshness, threads })
+    while (memoryThreads.size > THREAD_CONFIG.memoryEntries) {
+      memoryThreads.delete(memoryThreads.keys().next().value!)
+    }
+    return
+  }
+  if (!shared) return
+
+  try {
+    const sizeBytes = Buffer.byteLength(JSON.stringify(threads), 'utf8')
+    if (sizeBytes > CACHE_CONFIG.maxEntrySize) {
+      console.warn(
+        `[threadCache.server] Entry too large (${(sizeBytes / 1024 / 1024).toFixed(1)}MB), skipping`
+      )
+      return
+    }
+
+    const data = { freshness, threads: JSON.parse(JSON.stringify(threads)), sizeBytes }
+    await prisma.threadCache.upsert({
+      where: { key },
+      create: { key, repoFullName: repo, filterHash: hashThreadFilter(filter), ...data },
+      update: { ...data, cachedAt: new Date(), lastAccessedAt: new Date() },
+    })
+
+    const { _sum } = await prisma.threadCache.aggregate({ _sum: { sizeBytes: true } })
+    const totalSize = _sum.sizeBytes ?? 0
+    if (totalSize > THREAD_CONFIG.maxTotalSize) {
+      await purgeLRU(totalSize - THREAD_CONFIG.maxTotalSize)
+    }
+  } catch (error) {
+    console.error('[threadCache.server] Store failed:', error)
+  }
+}
+
+/**
+ * Delete least recently used Postgres entries to free space
+ */
+async function purgeLRU(bytesNeeded: number): Promise<void> {
+  if (!prisma) return
+
+  const entries = await prisma.threadCache.findMany({
+    orderBy: { lastAccessedAt: 'asc' },
+    select: { key: true, sizeBytes: true },
+  })
+
+  let freedBytes = 0
+  const keysToDelete: string[] = []
+  for (const entry of entries) {
+    if (freedBytes >= bytesNeeded) break
+    keysToDelete.push(entry.key)
+    freedBytes += entry.sizeBytes
+  }
+
+  if (keysToDelete.length > 0) {
+    await prisma.threadCache.deleteMany({ where: { key: { in: keysToDelete } } })
+    console.log(`[threadCache.server] Purged ${keysToDelete.length} entries, freed ${(freedBytes / 1024 / 1024).toFixed(1)}MB`)
+  }
+}
@@ -1,23 +1,56 @@
 import { Octokit } from '@octokit/rest'
-import { GitHubRepo } from './types'
-import { config } from './config'
+import { ChangedFile, CommitSummary, GitHubHost, GitHubRepo, RateLimitStatus, RepoAccess, RepoThread, TokenInfo, TokenType, ThreadComment, ThreadFilter, ThreadKind } from './types'
+import { config, HISTORY_CONFIG, THREAD_CONFIG } from './config'
+import { buildHttpCacheKey, lookupHttpCache, storeHttpCache } from './db/httpCache.server'
 
 /**
  * GitHub API Integration
  * Thin wrapper over Octokit with explicit error handling
+ * Metadata GETs go out conditional (ETag / Last-Modified): a 304 replays the
+ * stored response and doesn't count against the rate limit
  */
 
+// Latest core rate limit per token + host, from response headers
+// Cached on globalThis so every route sees it and hot reloads keep it
+const globalForRateLimits = globalThis as unknown as { githubRateLimits: Map<string, RateLimitStatus> | undefined }
+const rateLimits = globalForRateLimits.githubRateLimits ?? new Map<string, RateLimitStatus>()
+globalForRateLimits.githubRateLimits = rateLimits
+
+// GETs stored for revalidation: small metadata only (listings, repo, branches, commit log)
+// File contents, trees, diffs and threads are never stored
+const CACHEABLE_PATHS = [
+  /^\/(user|orgs\/[^/]+|users\/[^/]+)\/repos$/,
+  /^\/user\/orgs$/,
+  /^\/installation\/repositories$/,
+  /^\/repos\/[^/]+\/[^/]+$/,
+  /^\/repos\/[^/]+\/[^/]+\/branches(\/[^/]+)?$/,
+  /^\/repos\/[^/]+\/[^/]+\/commits$/,
+]
+
+type RequestOptions = Required<Parameters<Octokit['request']['endpoint']['parse']>[0]>
+type RequestResponse = Awaited<ReturnType<Octokit['request']>>
+
 export class GitHubClient {
   private octokit: Octokit
+  private token: string
+  private rateLimitKey: string
+  readonly host: GitHubHost
 
-  constructor(token: string) {
+  /**
+   * @param host - github.com or a GitHub Enterprise Server; defaults to the deployment's (config.github)
+   */
+  constructor(token: string, host: GitHubHost = config.github) {
+    this.token = token
+    this.host = host
     this.octokit = new Octokit({
       auth: token,
-      baseUrl: config.github.apiUrl,
+      baseUrl: host.apiUrl, // Octokit derives the GraphQL endpoint from it
       request: {
         timeout: config.github.timeout,
       },
     })
+    this.octokit.hook.wrap('request', (request, options) => this.conditionalRequest(request, options))
+    this.rateLimitKey = buildHttpCacheKey(token, '', host.apiUrl)
   }
 
   /**
@@ -124,25 +157,156 @@ export class GitHubClient {
   }
 
   /**
-   * Validate that the token has required permissions
-   * @throws Error if token is invalid or lacks permissions
+   * List repositories a GitHub App installation can access (installation tokens only)
+   * @throws Error with clear message on failure
+   */
+  async listInstallationRepos(): Promise<GitHubRepo[]> {
+    try {
+      const data = await this.octokit.paginate(this.octokit.rest.apps.listReposAccessibleToInstallation, {
+        per_page: 100,
+      })
+
+      console.log(`[github] Fetched ${data.length} repos for app installation`)
+      return data.map(this.mapRepo)
+    } catch (error) {
+      throw this.handleError(error, 'Failed to list repos for app installation')
+    }
+  }
+
+  /**
+   * Identify the token: its type, OAuth scopes, orgs, and orgs awaiting SSO authorization
+   * Fine-grained and app tokens have no scopes; their access is per repo (see checkRepoAccess)
+   * @throws Error if token is invalid
    */
-  async validateToken(): Promise<{ user: string; scopes: string[] }> {
+  async validateToken(): Promise<TokenInfo> {
     try {
-      const { data: user } = await this.octokit.rest.users.getAuthenticated()
+      const { data: user, headers } = await this.octokit.rest.users.getAuthenticated()
 
-      // Get token scopes from response headers (if available)
-      const scopes: string[] = []
+      // Orgs enforcing SAML SSO are left out of listings until the token is authorized for them
+      const orgs: string[] = []
+      const ssoRequiredOrgIds = new Set<number>()
+      const pages = this.octokit.paginate.iterator(this.octokit.rest.orgs.listForAuthenticatedUser, { per_page: 100 })
+      for await (const page of pages) {
+        orgs.push(...page.data.map(org => org.login))
+        parseSsoHeader(page.headers['x-github-sso']).orgIds.forEach(id => ssoRequiredOrgIds.add(id))
+      }
 
       return {
         user: user.login,
-        scopes,
+        tokenType: tokenTypeOf(this.token),
+        scopes: String(headers['x-oauth-scopes'] ?? '').split(',').map(scope => scope.trim()).filter(Boolean),
+        orgs,
+        ssoRequiredOrgIds: [...ssoRequiredOrgIds],
       }
     } catch (error) {
       throw this.handleError(error, 'Failed to validate GitHub token')
     }
   }
 
+  /**
+   * Check whether the token can see a repo, and if not, why
+   * A private repo the token can't reach looks missing (404), so the reason comes
+   * from the token: SSO status, scopes, type and the user's orgs.
+   * @throws Error for invalid tokens and other API failures
+   */
+  async checkRepoAccess(fullName: string): Promise<RepoAccess> {
+    const [owner, repo] = fullName.split('/')
+    const tokenType = tokenTypeOf(this.token)
+    const hidden = `${fullName} is private or doesn't exist.`
+
+    try {
+      const { data } = await this.octokit.rest.repos.get({ owner, repo })
+      return { visible: true, repo: this.mapRepo(data), permission: highestPermission(data.permissions), tokenType }
+    } catch (error) {
+      const err = error as any
+      const sso = parseSsoHeader(err.response?.headers?.['x-github-sso'])
+      if (err.status === 403 && sso.url) {
+        return {
+          visible: false,
+          reason: 'sso-required',
+          message: `${owner} requires SAML single sign-on. Authorize your token for ${owner}, then try again.`,
+          ssoUrl: sso.url,
+          tokenType,
+        }
+      }
+      if (err.status !== 404 && err.status !== 403) {
+        throw this.handleError(error, `Failed to check access to ${fullName}`)
+      }
+    }
+
+    // The owner's public profile tells a missing owner from a hidden repo
+    const account = await this.octokit.rest.users.getByUsername({ username: owner }).then(
+      ({ data }) => data,
+      () => null
+    )
+    if (!account) {
+      return { visible: false, reason: 'not-found', message: `No GitHub user or org named ${owner}.`, tokenType }
+    }
+
+    if (tokenType === 'app') {
+      return {
+        visible: false,
+        reason: 'not-granted',
+        message: `${hidden} The GitHub App's installation on ${owner} doesn't include it.`,
+        tokenType,
+      }
+    }
+
+    const token = await this.validateToken()
+    const base = { visible: false, tokenType, scopes: token.scopes }
+
+    if (token.ssoRequiredOrgIds.includes(account.id)) {
+      return {
+        ...base,
+        reason: 'sso-required',
+        message: `${hidden} ${owner} requires SAML single sign-on and your token isn't authorized for it. Authorize it under your token settings (Configure SSO).`,
+      }
+    }
+
+    if ((tokenType === 'classic' || tokenType === 'oauth') && !token.scopes.includes('repo')) {
+      const scopes = token.scopes.length > 0 ? token.scopes.join(', ') : 'none'
+      return {
+        ...base,
+        reason: 'missing-scope',
+        message: `${hidden} Your token's scopes (${scopes}) only reach public repos. Private repos need the "repo" scope.`,
+      }
+    }
+
+    if (tokenType === 'fine-grained') {
+      return {
+        ...base,
+        reason: 'not-granted',
+        message: `${hidden} Fine-grained tokens only see the repos they were granted, under one resource owner. Add ${fullName} to the token (an ${owner} admin may need to approve it).`,
+      }
+    }
+
+    const membership = account.type === 'Organization' && !token.orgs.some(org => org.toLowerCase() === owner.toLowerCase())
+      ? ` ${token.user} isn't a member of ${owner}.`
+      : ` ${token.user} has no access to it.`
+    return { ...base, reason: 'no-access', message: hidden + membership }
+  }
+
+  /**
+   * The token's core rate limit, from the latest response's headers
+   * Before any request (or after the window resets) asks GET /rate_limit, which doesn't count
+   * @returns null when the host doesn't rate limit (GitHub Enterprise Server can turn it off)
+   * @throws Error with clear message on failure
+   */
+  async getRateLimit(): Promise<RateLimitStatus | null> {
+    const seen = rateLimits.get(this.rateLimitKey)
+    if (seen && new Date(seen.resetAt).getTime() > Date.now()) return seen
+
+    try {
+      const { data } = await this.octokit.rest.rateLimit.get()
+      const { limit, remaining, used, reset } = data.resources.core
+      return rateLimits.get(this.rateLimitKey)
+        ?? { limit, remaining, used, resetAt: new Date(reset * 1000).toISOString() }
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return null
+      throw this.handleError(error, 'Failed to get rate limit')
+    }
+  }
+
   /**
    * List all branches for a repository
    * Fetches ALL branches using pagination (not just first 100)
@@ -167,6 +331,38 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * List the directories directly under a path (contents API)
+   * Used to pick monorepo packages as separate targets
+   * @returns Directory paths relative to the repo root, sorted
+   * @throws Error with clear message on failure
+   */
+  async listDirectories(fullName: string, ref?: string, path: string = ''): Promise<string[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ...(ref && { ref }),
+      })
+
+      // A file path returns a single object, not a listing
+      if (!Array.isArray(data)) return []
+
+      return data
+        .filter(entry => entry.type === 'dir')
+        .map(entry => entry.path)
+        .sort()
+    } catch (error) {
+      throw this.handleError(error, `Failed to list directories in ${fullName}/${path}`)
+    }
+  }
+
   /**
    * Fetch the current commit SHA for a branch
    * Used for cache freshness validation
@@ -191,6 +387,491 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * List every file in a repository at a ref (recursive git tree)
+   * Sizes are blob sizes in bytes. GitHub truncates very large trees (~100k entries)
+   * @throws Error with clear message on failure
+   */
+  async getRepoTree(
+    fullName: string,
+    ref: string
+  ): Promise<{ files: Array<{ path: string; size: number }>; truncated: boolean }> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.git.getTree({
+        owner,
+        repo,
+        tree_sha: ref,
+        recursive: 'true',
+      })
+
+      // Blobs only - directories are implied by paths, submodules aren't packed
+      const files = data.tree
+        .filter(entry => entry.type === 'blob' && entry.path)
+        .map(entry => ({ path: entry.path!, size: entry.size ?? 0 }))
+
+      console.log(`[github] Fetched tree for ${fullName}@${ref}: ${files.length} files${data.truncated ? ' (truncated)' : ''}`)
+      return { files, truncated: data.truncated }
+    } catch (error) {
+      throw this.handleError(error, `Failed to fetch file tree for ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Fetch a single file's raw contents
+   * @returns File contents, or null if the file doesn't exist
+   * @throws Error with clear message on other failures
+   */
+  async fetchFileContent(fullName: string, ref: string, path: string): Promise<string | null> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner,
+        repo,
+        path,
+        ref,
+        mediaType: { format: 'raw' },
+      })
+
+      // Raw media type returns the body as a string
+      return data as unknown as string
+    } catch (error) {
+      if ((error as any)?.status === 404) return null
+      throw this.handleError(error, `Failed to fetch ${path} from ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Resolve any ref (branch, tag or SHA) to a commit SHA
+   * @throws Error with clear message on failure
+   */
+  async resolveCommitSHA(fullName: string, ref: string): Promise<string> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref,
+      })
+
+      return data.sha
+    } catch (error) {
+      throw this.handleError(error, `Failed to resolve ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Get a pull request's base and head commits
+   * headRepo is null when the fork it came from was deleted
+   * @throws Error with clear message on failure
+   */
+  async getPullRequest(fullName: string, number: number): Promise<{
+    number: number
+    title: string
+    baseRef: string
+    baseSha: string
+    headRef: string
+    headSha: string
+    headRepo: string | null
+  }> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: number,
+      })
+
+      return {
+        number: data.number,
+        title: data.title,
+        baseRef: data.base.ref,
+        baseSha: data.base.sha,
+        headRef: data.head.ref,
+        headSha: data.head.sha,
+        headRepo: data.head.repo?.full_name ?? null,
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to get pull request ${fullName}#${number}`)
+    }
+  }
+
+  /**
+   * List files changed by a pull request, with patches
+   * Fetches ALL files using pagination (GitHub caps this at 3000)
+   * @throws Error with clear message on failure
+   */
+  async listPullRequestFiles(fullName: string, number: number): Promise<ChangedFile[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const data = await this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
+        owner,
+        repo,
+        pull_number: number,
+        per_page: 100,
+      })
+
+      return data.map(this.mapChangedFile)
+    } catch (error) {
+      throw this.handleError(error, `Failed to list files for pull request ${fullName}#${number}`)
+    }
+  }
+
+  /**
+   * Compare two refs ("base...head") and list the changed files, with patches
+   * GitHub returns at most 300 files for a comparison
+   * @throws Error with clear message on failure
+   */
+  async compareRefs(fullName: string, basehead: string): Promise<{
+    mergeBaseSha: string
+    files: ChangedFile[]
+    truncated: boolean
+  }> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead,
+      })
+
+      const files = (data.files ?? []).map(this.mapChangedFile)
+
+      return {
+        mergeBaseSha: data.merge_base_commit.sha,
+        files,
+        truncated: files.length >= 300,
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to compare ${fullName} ${basehead}`)
+    }
+  }
+
+  /**
+   * List the most recent commits reachable from a ref, newest first
+   * @param path - Only commits touching this path (sub-directory targets)
+   * @throws Error with clear message on failure
+   */
+  async listRecentCommits(fullName: string, ref: string | undefined, count: number, path?: string): Promise<CommitSummary[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const { data } = await this.octokit.rest.repos.listCommits({
+        owner,
+        repo,
+        ...(ref && { sha: ref }),
+        ...(path && { path }),
+        per_page: Math.min(count, 100),
+      })
+
+      return data.map(commit => ({
+        sha: commit.sha,
+        date: commit.commit.committer?.date ?? commit.commit.author?.date ?? '',
+        author: commit.author?.login ?? commit.commit.author?.name ?? 'unknown',
+        message: commit.commit.message.split('\n')[0],
+      }))
+    } catch (error) {
+      throw this.handleError(error, `Failed to list commits for ${fullName}@${ref ?? 'default branch'}`)
+    }
+  }
+
+  /**
+   * Find the last commit touching each path at a ref (GraphQL, batched)
+   * Paths past HISTORY_CONFIG.maxFiles, and paths with no history, are left out
+   * @returns Repo-relative path -> last commit
+   * @throws Error with clear message on failure
+   */
+  async getLastCommits(fullName: string, ref: string | undefined, paths: string[]): Promise<Record<string, CommitSummary>> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const lastCommits: Record<string, CommitSummary> = {}
+      const lookups = paths.slice(0, HISTORY_CONFIG.maxFiles)
+
+      for (let i = 0; i < lookups.length; i += HISTORY_CONFIG.filesPerQuery) {
+        const batch = lookups.slice(i, i + HISTORY_CONFIG.filesPerQuery)
+        // One aliased history connection per path; JSON string syntax is valid GraphQL
+        const fields = batch
+          .map((path, j) => `f${j}: history(first: 1, path: ${JSON.stringify(path)}) { nodes { ...LastCommit } }`)
+          .join('\n')
+        const result = await this.octokit.graphql<{ repository: { object: Record<string, LastCommitHistory> | null } }>(
+          `query($owner: String!, $repo: String!, $ref: String!) {
+            repository(owner: $owner, name: $repo) {
+              object(expression: $ref) { ... on Commit { ${fields} } }
+            }
+          }
+          fragment LastCommit on Commit {
+            oid
+            committedDate
+            messageHeadline
+            author { name user { login } }
+          }`,
+          { owner, repo, ref: ref ?? 'HEAD' }
+        )
+
+        const commit = result.repository.object
+        if (!commit) throw new Error(`Ref not found: ${ref}`)
+        batch.forEach((path, j) => {
+          const node = commit[`f${j}`]?.nodes[0]
+          if (node) {
+            lastCommits[path] = {
+              sha: node.oid,
+              date: node.committedDate,
+              author: node.author?.user?.login ?? node.author?.name ?? 'unknown',
+              message: node.messageHeadline,
+            }
+          }
+        })
+      }
+
+      console.log(`[github] Fetched last commits for ${Object.keys(lastCommits).length}/${paths.length} files in ${fullName}`)
+      return lastCommits
+    } catch (error) {
+      throw this.handleError(error, `Failed to fetch file history for ${fullName}@${ref ?? 'default branch'}`)
+    }
+  }
+
+  /**
+   * List issues (not pull requests) with their comments
+   * Most recently updated first; paginates until filter.limit issues are found
+   * @throws Error with clear message on failure
+   */
+  async listIssueThreads(fullName: string, filter: ThreadFilter = {}): Promise<RepoThread[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const issues = await this.listIssuesForRepo(owner, repo, filter, false)
+      const threads: RepoThread[] = []
+      // One at a time: comment fetches in parallel trip GitHub's secondary rate limits
+      for (const issue of issues) {
+        const comments = issue.comments > 0 ? await this.listIssueComments(owner, repo, issue.number) : []
+        threads.push(this.mapThread('issue', issue, comments))
+      }
+
+      console.log(`[github] Fetched ${threads.length} issues for ${fullName}`)
+      return threads
+    } catch (error) {
+      throw this.handleError(error, `Failed to list issues for ${fullName}`)
+    }
+  }
+
+  /**
+   * List pull requests with their comments, reviews and review comments
+   * Most recently updated first; paginates until filter.limit pull requests are found
+   * @throws Error with clear message on failure
+   */
+  async listPullRequestThreads(fullName: string, filter: ThreadFilter = {}): Promise<RepoThread[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      // The issues endpoint filters by label and date; the pulls endpoint can't
+      const pulls = await this.listIssuesForRepo(owner, repo, filter, true)
+      const threads: RepoThread[] = []
+      for (const pull of pulls) {
+        const [comments, reviews, reviewComments] = await Promise.all([
+          pull.comments > 0 ? this.listIssueComments(owner, repo, pull.number) : [],
+          this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+            owner,
+            repo,
+            pull_number: pull.number,
+            per_page: 100,
+          }),
+          this.octokit.paginate(this.octokit.rest.pulls.listReviewComments, {
+            owner,
+            repo,
+            pull_number: pull.number,
+            per_page: 100,
+          }),
+        ])
+
+        threads.push(this.mapThread('pull', pull, [
+          ...comments,
+          // Reviews without a summary are just containers for their inline comments
+          ...reviews.filter(review => review.body?.trim()).map(review => ({
+            author: review.user?.login ?? 'ghost',
+            createdAt: review.submitted_at ?? pull.created_at,
+            body: review.body,
+            review: review.state,
+          })),
+          ...reviewComments.map(comment => ({
+            author: comment.user?.login ?? 'ghost',
+            createdAt: comment.created_at,
+            body: comment.body,
+            path: comment.path,
+            line: comment.line ?? comment.original_line ?? undefined,
+          })),
+        ]))
+      }
+
+      console.log(`[github] Fetched ${threads.length} pull requests for ${fullName}`)
+      return threads
+    } catch (error) {
+      throw this.handleError(error, `Failed to list pull requests for ${fullName}`)
+    }
+  }
+
+  /**
+   * List discussions with their top-level comments (GraphQL only)
+   * Labels and dates are filtered here; GitHub only filters discussions by state
+   * @throws Error with clear message on failure
+   */
+  async listDiscussionThreads(fullName: string, filter: ThreadFilter = {}): Promise<RepoThread[]> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const limit = filter.limit ?? THREAD_CONFIG.defaultLimit
+      const since = filter.since ? new Date(filter.since).getTime() : 0
+      const states = filter.state && filter.state !== 'all' ? [filter.state.toUpperCase()] : null
+      const threads: RepoThread[] = []
+      let after: string | null = null
+
+      while (threads.length < limit) {
+        const page: DiscussionPage = (await this.octokit.graphql<{ repository: { discussions: DiscussionPage } }>(
+          DISCUSSIONS_QUERY,
+          { owner, repo, after, states, comments: THREAD_CONFIG.maxCommentsPerThread }
+        )).repository.discussions
+        const { nodes, pageInfo } = page
+
+        for (const node of nodes) {
+          // Ordered by update time, so nothing further down is newer
+          if (new Date(node.updatedAt).getTime() < since) return threads
+          const labels = node.labels.nodes.map(label => label.name)
+          if (filter.labels?.some(label => !labels.includes(label))) continue
+
+          threads.push({
+            kind: 'discussion',
+            number: node.number,
+            title: node.title,
+            url: node.url,
+            state: node.closed ? 'closed' : 'open',
+            author: node.author?.login ?? 'ghost',
+            labels,
+            createdAt: node.createdAt,
+            updatedAt: node.updatedAt,
+            body: node.body,
+            comments: node.comments.nodes.map(comment => ({
+              author: comment.author?.login ?? 'ghost',
+              createdAt: comment.createdAt,
+              body: comment.body,
+            })),
+            ...(node.comments.totalCount > node.comments.nodes.length && {
+              omittedComments: node.comments.totalCount - node.comments.nodes.length,
+            }),
+          })
+          if (threads.length >= limit) break
+        }
+
+        if (!pageInfo.hasNextPage) break
+        after = pageInfo.endCursor
+      }
+
+      console.log(`[github] Fetched ${threads.length} discussions for ${fullName}`)
+      return threads
+    } catch (error) {
+      throw this.handleError(error, `Failed to list discussions for ${fullName}`)
+    }
+  }
+
+  /**
+   * Latest update time across a repo's threads of the given kinds
+   * Any new issue, comment, review or label change moves it, so it keys the thread cache
+   * @throws Error with clear message on failure
+   */
+  async fetchThreadsFreshness(fullName: string, kinds: ThreadKind[]): Promise<string> {
+    try {
+      const [owner, repo] = fullName.split('/')
+      if (!owner || !repo) {
+        throw new Error(`Invalid repo format: ${fullName}. Expected: owner/repo`)
+      }
+
+      const parts: string[] = []
+
+      // Issues and pull requests share one listing
+      if (kinds.includes('issue') || kinds.includes('pull')) {
+        const { data } = await this.octokit.rest.issues.listForRepo({
+          owner,
+          repo,
+          state: 'all',
+          sort: 'updated',
+          direction: 'desc',
+          per_page: 1,
+        })
+        parts.push(data[0]?.updated_at ?? '')
+      }
+
+      if (kinds.includes('discussion')) {
+        const { repository }: { repository: { discussions: { nodes: Array<{ updatedAt: string }> } } } =
+          await this.octokit.graphql(
+            `query($owner: String!, $repo: String!) {
+              repository(owner: $owner, name: $repo) {
+                discussions(first: 1, orderBy: { field: UPDATED_AT, direction: DESC }) { nodes { updatedAt } }
+              }
+            }`,
+            { owner, repo }
+          )
+        parts.push(repository.discussions.nodes[0]?.updatedAt ?? '')
+      }
+
+      return parts.join('|')
+    } catch (error) {
+      throw this.handleError(error, `Failed to check thread updates for ${fullName}`)
+    }
+  }
+
+  /**
+   * Archive download request for a ref (gzipped tarball, read by lib/archive.ts)
+   * GitHub redirects to codeload with a short-lived signed URL, so the token isn't forwarded
+   * @param ref - Defaults to the repo's default branch
+   */
+  archiveRequest(fullName: string, ref?: string): { url: string; headers: Record<string, string> } {
+    return {
+      url: `${this.host.archiveUrl ?? this.host.apiUrl}/repos/${fullName}/tarball${ref ? `/${encodeURI(ref)}` : ''}`,
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        ...(this.token && { 'Authorization': `Bearer ${this.token}` }),
+      },
+    }
+  }
+
   /**
    * Count commits between two SHAs
    * Used to show staleness ("3 commits behind")
@@ -218,6 +899,153 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Page through the issues listing until `limit` issues (or pull requests) are found
+   * The listing mixes both; `pulls` picks which
+   */
+  private async listIssuesForRepo(owner: string, repo: string, filter: ThreadFilter, pulls: boolean) {
+    const limit = filter.limit ?? THREAD_CONFIG.defaultLimit
+    let found = 0
+
+    const items = await this.octokit.paginate(
+      this.octokit.rest.issues.listForRepo,
+      {
+        owner,
+        repo,
+        state: filter.state ?? 'all',
+        ...(filter.labels?.length && { labels: filter.labels.join(',') }),
+        ...(filter.since && { since: filter.since }),
+        sort: 'updated',
+        direction: 'desc',
+        per_page: 100,
+      },
+      (response, done) => {
+        const matching = response.data.filter(item => !!item.pull_request === pulls)
+        found += matching.length
+        if (found >= limit) done()
+        return matching
+      }
+    )
+
+    return items.slice(0, limit)
+  }
+
+  /**
+   * Comments on an issue or pull request conversation (not review comments)
+   */
+  private async listIssueComments(owner: string, repo: string, number: number): Promise<ThreadComment[]> {
+    const data = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: number,
+      per_page: 100,
+    })
+
+    return data.map(comment => ({
+      author: comment.user?.login ?? 'ghost',
+      createdAt: comment.created_at,
+      body: comment.body ?? '',
+    }))
+  }
+
+  /**
+   * Map an issues-listing entry and its comments to our RepoThread type
+   * Comments are sorted oldest first and capped per thread
+   */
+  private mapThread(kind: 'issue' | 'pull', data: any, comments: ThreadComment[]): RepoThread {
+    const sorted = [...comments].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    const kept = sorted.slice(0, THREAD_CONFIG.maxCommentsPerThread)
+
+    return {
+      kind,
+      number: data.number,
+      title: data.title,
+      url: data.html_url,
+      state: data.pull_request?.merged_at ? 'merged' : data.state,
+      author: data.user?.login ?? 'ghost',
+      labels: (data.labels ?? []).map((label: string | { name?: string }) =>
+        typeof label === 'string' ? label : label.name ?? ''
+      ).filter(Boolean),
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+      body: data.body ?? '',
+      comments: kept,
+      ...(sorted.length > kept.length && { omittedComments: sorted.length - kept.length }),
+    }
+  }
+
+  /**
+   * Octokit request hook: send metadata GETs with the stored validators and replay the
+   * stored response on 304, storing new responses that carry an ETag or Last-Modified
+   */
+  private async conditionalRequest(
+    request: (options: RequestOptions) => RequestResponse | Promise<RequestResponse>,
+    options: RequestOptions
+  ): Promise<RequestResponse> {
+    const { method, url, headers } = this.octokit.request.endpoint.parse(options)
+    const key = method === 'GET' && this.isCacheable(url) ? buildHttpCacheKey(this.token, String(headers.accept ?? ''), url) : null
+    const cached = key ? await lookupHttpCache(key) : null
+
+    // Set on the options object itself: inner hooks (auth) are bound to it
+    options.headers = {
+      ...options.headers,
+      ...(cached?.etag && { 'if-none-match': cached.etag }),
+      ...(cached?.lastModified && !cached.etag && { 'if-modified-since': cached.lastModified }),
+    }
+
+    try {
+      const response = await request(options)
+      this.recordRateLimit(response.headers)
+
+      const { etag, 'last-modified': lastModified } = response.headers
+      if (key && (etag || lastModified) && isJsonBody(response.data)) {
+        await storeHttpCache(key, url, {
+          ...(etag && { etag }),
+          ...(lastModified && { lastModified }),
+          headers: response.headers,
+          data: response.data,
+        })
+      }
+      return response
+    } catch (error) {
+      const { status, response } = error as { status?: number; response?: { url: string; headers: Record<string, string> } }
+      if (response) this.recordRateLimit(response.headers)
+
+      if (status === 304 && cached && response) {
+        return { status: 200, url: response.url, headers: { ...cached.headers, ...response.headers }, data: cached.data }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Whether a GET's response may be stored (see CACHEABLE_PATHS)
+   */
+  private isCacheable(url: string): boolean {
+    const basePath = new URL(this.host.apiUrl).pathname.replace(/\/$/, '') // "/api/v3" on GitHub Enterprise Server
+    const { pathname } = new URL(url)
+    if (!pathname.startsWith(basePath)) return false
+    const path = pathname.slice(basePath.length)
+    return CACHEABLE_PATHS.some(pattern => pattern.test(path))
+  }
+
+  /**
+   * Remember the core rate limit from a response's headers
+   */
+  private recordRateLimit(headers: Record<string, unknown>): void {
+    const { 'x-ratelimit-limit': limit, 'x-ratelimit-remaining': remaining, 'x-ratelimit-used': used,
+      'x-ratelimit-reset': reset, 'x-ratelimit-resource': resource } = headers
+    if (limit === undefined || remaining === undefined || reset === undefined) return
+    if (resource !== undefined && resource !== 'core') return
+
+    rateLimits.set(this.rateLimitKey, {
+      limit: Number(limit),
+      remaining: Number(remaining),
+      used: used === undefined ? Number(limit) - Number(remaining) : Number(used),
+      resetAt: new Date(Number(reset) * 1000).toISOString(),
+    })
+  }
+
   /**
    * Map GitHub API response to our GitHubRepo type
    */
@@ -230,6 +1058,21 @@ export class GitHubClient {
       size: data.size,
       private: data.private,
       description: data.description,
+      webUrl: data.html_url,
+    }
+  }
+
+  /**
+   * Map a GitHub diff entry (PR files or compare files) to our ChangedFile type
+   */
+  private mapChangedFile(data: any): ChangedFile {
+    return {
+      path: data.filename,
+      previousPath: data.previous_filename,
+      status: data.status,
+      additions: data.additions,
+      deletions: data.deletions,
+      patch: data.patch,
     }
   }
 
@@ -267,16 +1110,105 @@ export class GitHubClient {
   }
 }
 
+/**
+ * Whether a response body can be stored as JSON (not a stream or binary)
+ */
+function isJsonBody(data: unknown): boolean {
+  if (typeof data === 'string' || Array.isArray(data)) return true
+  return data !== null && typeof data === 'object' && Object.getPrototypeOf(data) === Object.prototype
+}
+
+/**
+ * Token type from its prefix (older 40-character tokens are classic or OAuth; both report scopes)
+ */
+function tokenTypeOf(token: string): TokenType {
+  if (token.startsWith('github_pat_')) return 'fine-grained'
+  if (token.startsWith('ghp_') || /^[0-9a-f]{40}$/i.test(token)) return 'classic'
+  if (token.startsWith('gho_') || token.startsWith('ghu_')) return 'oauth'
+  if (token.startsWith('ghs_')) return 'app'
+  return 'unknown'
+}
+
+/**
+ * Parse X-GitHub-SSO: "required; url=<authorize URL>" on a blocked request,
+ * "partial-results; organizations=<id>,<id>" on listings with orgs left out
+ */
+function parseSsoHeader(header: unknown): { url?: string; orgIds: number[] } {
+  const value = typeof header === 'string' ? header : ''
+  const url = value.match(/url=(\S+)/)?.[1]
+  const orgIds = (value.match(/organizations=([\d,]+)/)?.[1] ?? '').split(',').filter(Boolean).map(Number)
+  return { url, orgIds }
+}
+
+function highestPermission(permissions?: Record<string, boolean | undefined>): RepoAccess['permission'] {
+  return (['admin', 'maintain', 'push', 'triage', 'pull'] as const).find(level => permissions?.[level])
+}
+
+// A file's history connection, first commit only
+interface LastCommitHistory {
+  nodes: Array<{
+    oid: string
+    committedDate: string
+    messageHeadline: string
+    author: { name: string | null; user: { login: string } | null } | null
+  }>
+}
+
+// One page of discussions with their labels and top-level comments
+interface DiscussionPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null }
+  nodes: Array<{
+    number: number
+    title: string
+    url: string
+    closed: boolean
+    author: { login: string } | null
+    createdAt: string
+    updatedAt: string
+    body: string
+    labels: { nodes: Array<{ name: string }> }
+    comments: {
+      totalCount: number
+      nodes: Array<{ author: { login: string } | null; createdAt: string; body: string }>
+    }
+  }>
+}
+
+const DISCUSSIONS_QUERY = `
+  query($owner: String!, $repo: String!, $after: String, $states: [DiscussionState!], $comments: Int!) {
+    repository(owner: $owner, name: $repo) {
+      discussions(first: 50, after: $after, states: $states, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          number
+          title
+          url
+          closed
+          author { login }
+          createdAt
+          updatedAt
+          body
+          labels(first: 20) { nodes { name } }
+          comments(first: $comments) {
+            totalCount
+            nodes { author { login } createdAt body }
+          }
+        }
+      }
+    }
+  }
+`
+
 /**
  * Factory function for creating GitHub client
  * Validates token and returns client or throws
  */
-export async function createGitHubClient(token: string): Promise<GitHubClient> {
+export async function createGitHubClient(token: string, host?: GitHubHost): Promise<GitHubClient> {
   if (!token || token.trim() === '') {
     throw new Error('GitHub token is required')
   }
 
-  const client = new GitHubClient(token)
+  const client = new GitHubClient(token, host)
 
   // Validate token on creation
   await client.validateToken()
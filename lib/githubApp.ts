@@ -0,0 +1,193 @@
+/**
+ * GitHub App Installation Auth (server-side)
+ *
+ * With GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY set, signed-in users get the app's
+ * access instead of their own token for the owners they belong to: the server
+ * mints a short-lived installation token for each repo owner the app is installed
+ * on. Anonymous requests never get one. Installation tokens only go to the
+ * deployment's GitHub host.
+ */
+
+import { createSign } from 'node:crypto'
+import { Octokit } from '@octokit/rest'
+import { GitHubClient } from './github'
+import { config, GITHUB_APP_CONFIG } from './config'
+import type { GitHubRepo } from './types'
+
+interface InstallationToken {
+  token: string | null // null: the app isn't installed on this owner
+  expiresAt: number
+}
+
+// Owner (lowercase) -> latest token, and lookups in flight so concurrent packs share one
+const installationTokens = new Map<string, InstallationToken>()
+const pendingTokens = new Map<string, Promise<InstallationToken>>()
+
+// "owner:login" (lowercase) -> whether the user belongs to the owner, until expiresAt
+const memberships = new Map<string, { member: boolean; expiresAt: number }>()
+
+/**
+ * Whether the deployment has a GitHub App to fall back on
+ */
+export function isGitHubAppConfigured(): boolean {
+  return !!(process.env.GITHUB_APP_ID && process.env.GITHUB_APP_PRIVATE_KEY)
+}
+
+/**
+ * Get an installation token for a repo owner (org or user), minting one when the
+ * cached token is missing or about to expire
+ * @returns null when the app isn't installed on the owner
+ * @throws Error when the app credentials are rejected or GitHub fails
+ */
+export async function getInstallationToken(owner: string): Promise<string | null> {
+  const key = owner.toLowerCase()
+  const cached = installationTokens.get(key)
+  if (cached && cached.expiresAt - Date.now() > GITHUB_APP_CONFIG.refreshBeforeExpiryMs) {
+    return cached.token
+  }
+
+  let pending = pendingTokens.get(key)
+  if (!pending) {
+    pending = mintInstallationToken(owner).finally(() => pendingTokens.delete(key))
+    pendingTokens.set(key, pending)
+  }
+
+  const minted = await pending
+  installationTokens.set(key, minted)
+  return minted.token
+}
+
+/**
+ * Installation token for a signed-in user: only when the app is installed on the
+ * owner and the user is the owner or one of its org's members
+ * @param login - The signed-in user's GitHub login
+ * @returns null when the app isn't installed there or the user doesn't belong
+ */
+export async function getMemberInstallationToken(owner: string, login: string): Promise<string | null> {
+  const token = await getInstallationToken(owner)
+  if (!token) return null
+  return (await isOwnerMember(owner, login, token)) ? token : null
+}
+
+/**
+ * Token for a GitHub repo owner: the member installation token when there is one,
+ * otherwise the user's own
+ * @param appLogin - Signed-in login allowed to use the app (null outside app mode)
+ */
+export async function resolveOwnerToken(owner: string, appLogin: string | null, userToken: string): Promise<string> {
+  return (appLogin && await getMemberInstallationToken(owner, appLogin)) || userToken
+}
+
+/**
+ * List the repos the app can pack for a signed-in user: one owner's installation,
+ * or every installation on an owner the user belongs to
+ * Most recently pushed first, like the org listings
+ */
+export async function listInstallationRepos(login: string, owner?: string): Promise<GitHubRepo[]> {
+  const owners = owner ? [owner] : await listInstallationOwners()
+  const lists = await Promise.all(owners.map(async name => {
+    const token = await getMemberInstallationToken(name, login)
+    return token ? new GitHubClient(token).listInstallationRepos() : []
+  }))
+  return lists.flat().sort((a, b) => (b.pushedAt ?? '').localeCompare(a.pushedAt ?? ''))
+}
+
+/**
+ * Whether a user is the owner or a member of the owner org (cached briefly)
+ * Asked with the installation's token, which needs the app's Members (read) permission
+ */
+async function isOwnerMember(owner: string, login: string, installationToken: string): Promise<boolean> {
+  if (owner.toLowerCase() === login.toLowerCase()) return true
+
+  const key = `${owner}:${login}`.toLowerCase()
+  const cached = memberships.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.member
+
+  let member: boolean
+  try {
+    const octokit = new Octokit({
+      auth: installationToken,
+      baseUrl: config.github.apiUrl,
+      request: {
+        timeout: config.github.timeout,
+      },
+    })
+    await octokit.request('GET /orgs/{org}/members/{username}', { org: owner, username: login })
+    member = true
+  } catch (error) {
+    const status = (error as { status?: number }).status
+    if (status !== 404 && status !== 302) {
+      throw new Error(`Failed to check ${login}'s membership in ${owner}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+    member = false
+  }
+
+  memberships.set(key, { member, expiresAt: Date.now() + GITHUB_APP_CONFIG.membershipTtlMs })
+  return member
+}
+
+async function listInstallationOwners(): Promise<string[]> {
+  const installations = await createAppOctokit().paginate('GET /app/installations', { per_page: 100 })
+  return installations.flatMap(installation =>
+    installation.account && 'login' in installation.account ? [installation.account.login] : []
+  )
+}
+
+async function mintInstallationToken(owner: string): Promise<InstallationToken> {
+  const app = createAppOctokit()
+
+  try {
+    const installations = await app.paginate('GET /app/installations', { per_page: 100 })
+    const installation = installations.find(
+      candidate => candidate.account && 'login' in candidate.account
+        && candidate.account.login.toLowerCase() === owner.toLowerCase()
+    )
+    if (!installation) {
+      console.log(`[githubApp] Not installed on ${owner}`)
+      return { token: null, expiresAt: Date.now() + GITHUB_APP_CONFIG.notInstalledTtlMs }
+    }
+
+    const { data } = await app.request('POST /app/installations/{installation_id}/access_tokens', {
+      installation_id: installation.id,
+    })
+    console.log(`[githubApp] Minted installation token for ${owner} (expires ${data.expires_at})`)
+    return { token: data.token, expiresAt: new Date(data.expires_at).getTime() }
+  } catch (error) {
+    const status = (error as { status?: number }).status
+    if (status === 401) {
+      throw new Error('GitHub App authentication failed. Check GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY.')
+    }
+    throw new Error(`Failed to get a GitHub App token for ${owner}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Octokit authenticated as the app itself (JWT), for installation lookups
+ */
+function createAppOctokit(): Octokit {
+  return new Octokit({
+    auth: createAppJwt(),
+    baseUrl: config.github.apiUrl,
+    request: {
+      timeout: config.github.timeout,
+    },
+  })
+}
+
+/**
+ * Sign the app's JWT (RS256), backdated a minute for clock drift
+ * The private key may be stored with literal "\n" (single-line env vars)
+ */
+function createAppJwt(): string {
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url')
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+    iat: now - 60,
+    exp: now + GITHUB_APP_CONFIG.jwtLifetimeSeconds,
+    iss: process.env.GITHUB_APP_ID,
+  })}`
+
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY!.replace(/\\n/g, '\n')
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey, 'base64url')
+  return `${unsigned}.${signature}`
+}
@@ -0,0 +1,77 @@
+/**
+ * GitHub Credentials for API Routes (server-side)
+ *
+ * One resolution order for every route: OAuth session, X-GitHub-Token header,
+ * then GITHUB_TOKEN. With a GitHub App configured, GITHUB_TOKEN is not used and
+ * signed-in users may use the app's installations (lib/githubApp.ts).
+ */
+
+import { createHash } from 'node:crypto'
+import type { NextRequest } from 'next/server'
+import { isServerMode } from './prisma'
+import { isGitHubAppConfigured } from './githubApp'
+import { isDeploymentGitHubHost } from './source'
+import type { GitHubHost } from './types'
+
+export interface GitHubAuth {
+  token: string | null
+  appLogin: string | null // signed-in GitHub login allowed to use the app's installations (deployment host only)
+  userId: string | null // signed-in user
+}
+
+// Conditionally import auth only in server mode
+const getAuth = async () => {
+  if (isServerMode) {
+    const { auth } = await import('./auth')
+    return auth
+  }
+  return null
+}
+
+/**
+ * Get the request's GitHub credentials
+ * 1. OAuth session (if logged in); with a GitHub App, also the user's login for its installations
+ * 2. X-GitHub-Token header
+ * 3. GITHUB_TOKEN env var, unless a GitHub App is configured
+ *
+ * Anonymous requests never get installation tokens: without a token, routes answer 401.
+ */
+export async function getGitHubAuth(request: NextRequest, host: GitHubHost): Promise<GitHubAuth> {
+  // 1. Try session (logged-in user with OAuth)
+  const auth = await getAuth()
+  if (auth) {
+    try {
+      const session = await auth()
+      if (session?.accessToken) {
+        const login = session.user.githubLogin
+        const appLogin = login && isGitHubAppConfigured() && isDeploymentGitHubHost(host) ? login : null
+        return { token: session.accessToken, appLogin, userId: session.user.id }
+      }
+    } catch {
+      // Auth not available, continue to header
+    }
+  }
+
+  // 2. Try header (manual entry)
+  const headerToken = request.headers.get('x-github-token')
+  if (headerToken) {
+    return { token: headerToken, appLogin: null, userId: null }
+  }
+
+  // 3. Try env fallback (a GitHub App deployment shares no token)
+  if (!isGitHubAppConfigured() && process.env.GITHUB_TOKEN) {
+    return { token: process.env.GITHUB_TOKEN, appLogin: null, userId: null }
+  }
+
+  return { token: null, appLogin: null, userId: null }
+}
+
+/**
+ * Identify who made a request, for binding server-side state (pack jobs) to them
+ * The signed-in user, else a hash of the tokens; null for anonymous requests
+ */
+export function getRequesterKey({ token, userId }: GitHubAuth, gitlabToken?: string): string | null {
+  if (userId) return `user:${userId}`
+  if (!token && !gitlabToken) return null
+  return `token:${createHash('sha256').update(`${token ?? ''}\n${gitlabToken ?? ''}`).digest('hex')}`
+}
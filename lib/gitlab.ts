@@ -0,0 +1,521 @@
+import { ChangedFile, GitHubRepo, TokenInfo } from './types'
+import { config } from './config'
+import { parseRepoSource, repoSourceName } from './changeset'
+import type { SourceClient } from './source'
+
+/**
+ * GitLab API Integration
+ * SourceClient for "gitlab:group/project" repos over the REST API (v4), with the
+ * same contract and error handling as GitHubClient. Merge requests stand in for
+ * pull requests.
+ */
+
+type QueryParams = Record<string, string | number | boolean | string[] | undefined>
+
+export class GitLabClient implements SourceClient {
+  private token: string
+
+  constructor(token: string) {
+    this.token = token
+  }
+
+  /**
+   * List projects in a group, subgroups included
+   * @throws Error with clear message on failure
+   */
+  async listOrgRepos(group: string): Promise<GitHubRepo[]> {
+    try {
+      const data = await this.paginate<any>(`/groups/${encodeURIComponent(group)}/projects`, {
+        include_subgroups: true,
+        order_by: 'last_activity_at',
+        sort: 'desc',
+        statistics: true,
+      })
+
+      console.log(`[gitlab] Fetched ${data.length} projects for group: ${group}`)
+      return data.map(this.mapRepo)
+    } catch (error) {
+      throw this.handleError(error, `Failed to list projects for group: ${group}`)
+    }
+  }
+
+  /**
+   * List projects owned by a user
+   * @throws Error with clear message on failure
+   */
+  async listUserRepos(username: string): Promise<GitHubRepo[]> {
+    try {
+      const data = await this.paginate<any>(`/users/${encodeURIComponent(username)}/projects`, {
+        order_by: 'last_activity_at',
+        sort: 'desc',
+      })
+
+      console.log(`[gitlab] Fetched ${data.length} projects for user: ${username}`)
+      return data.map(this.mapRepo)
+    } catch (error) {
+      throw this.handleError(error, `Failed to list projects for user: ${username}`)
+    }
+  }
+
+  /**
+   * Get metadata for a specific project
+   * @throws Error with clear message on failure
+   */
+  async getRepoMetadata(fullName: string): Promise<GitHubRepo> {
+    try {
+      const data = await this.getJson<any>(this.projectPath(fullName), { statistics: true })
+      return this.mapRepo(data)
+    } catch (error) {
+      throw this.handleError(error, `Failed to get project metadata: ${fullName}`)
+    }
+  }
+
+  /**
+   * List groups the authenticated user belongs to (any access level)
+   * @throws Error with clear message on failure
+   */
+  async listUserOrgs(): Promise<Array<{ login: string; description: string | null }>> {
+    try {
+      const data = await this.paginate<any>('/groups', { min_access_level: 10 })
+
+      return data.map(group => ({
+        login: group.full_path,
+        description: group.description || null,
+      }))
+    } catch (error) {
+      throw this.handleError(error, 'Failed to list user groups')
+    }
+  }
+
+  /**
+   * List projects owned by the authenticated user (personal projects)
+   * @throws Error with clear message on failure
+   */
+  async listAuthenticatedUserRepos(): Promise<GitHubRepo[]> {
+    try {
+      const data = await this.paginate<any>('/projects', {
+        owned: true,
+        order_by: 'last_activity_at',
+        sort: 'desc',
+        statistics: true,
+      })
+
+      console.log(`[gitlab] Fetched ${data.length} personal projects for authenticated user`)
+      return data.map(this.mapRepo)
+    } catch (error) {
+      throw this.handleError(error, 'Failed to list projects for authenticated user')
+    }
+  }
+
+  /**
+   * Validate the token, reading its scopes when it is a personal access token
+   * @throws Error if token is invalid or lacks permissions
+   */
+  async validateToken(): Promise<TokenInfo> {
+    try {
+      const user = await this.getJson<{ username: string }>('/user')
+
+      // OAuth tokens can't read their own scopes; only access tokens can
+      const scopes = await this.getJson<{ scopes: string[] }>('/personal_access_tokens/self')
+        .then(token => token.scopes)
+        .catch(() => [])
+      const groups = await this.listUserOrgs()
+
+      return {
+        user: user.username,
+        tokenType: 'unknown',
+        scopes,
+        orgs: groups.map(group => group.login),
+        ssoRequiredOrgIds: [],
+      }
+    } catch (error) {
+      throw this.handleError(error, 'Failed to validate GitLab token')
+    }
+  }
+
+  /**
+   * List all branches for a project
+   * @throws Error with clear message on failure
+   */
+  async listBranches(fullName: string): Promise<string[]> {
+    try {
+      const data = await this.paginate<{ name: string }>(`${this.projectPath(fullName)}/repository/branches`)
+      return data.map(branch => branch.name)
+    } catch (error) {
+      throw this.handleError(error, `Failed to list branches for ${fullName}`)
+    }
+  }
+
+  /**
+   * List the directories directly under a path
+   * @returns Directory paths relative to the repo root, sorted
+   * @throws Error with clear message on failure
+   */
+  async listDirectories(fullName: string, ref?: string, path: string = ''): Promise<string[]> {
+    try {
+      const data = await this.paginate<{ type: string; path: string }>(`${this.projectPath(fullName)}/repository/tree`, {
+        path: path || undefined,
+        ref,
+      })
+
+      return data
+        .filter(entry => entry.type === 'tree')
+        .map(entry => entry.path)
+        .sort()
+    } catch (error) {
+      throw this.handleError(error, `Failed to list directories in ${fullName}/${path}`)
+    }
+  }
+
+  /**
+   * Fetch the current commit SHA for a branch
+   * @throws Error with clear message on failure
+   */
+  async fetchCurrentCommitSHA(fullName: string, branch: string): Promise<string> {
+    try {
+      const data = await this.getJson<{ commit: { id: string } }>(
+        `${this.projectPath(fullName)}/repository/branches/${encodeURIComponent(branch)}`
+      )
+      return data.commit.id
+    } catch (error) {
+      throw this.handleError(error, `Failed to fetch commit SHA for ${fullName}:${branch}`)
+    }
+  }
+
+  /**
+   * List every file in a project at a ref
+   * The tree API has no sizes, so blob sizes come from GraphQL in batches
+   * @throws Error with clear message on failure
+   */
+  async getRepoTree(
+    fullName: string,
+    ref: string
+  ): Promise<{ files: Array<{ path: string; size: number }>; truncated: boolean }> {
+    try {
+      const entries = await this.paginate<{ type: string; path: string }>(`${this.projectPath(fullName)}/repository/tree`, {
+        ref,
+        recursive: true,
+      })
+      const paths = entries.filter(entry => entry.type === 'blob').map(entry => entry.path)
+
+      const sizes = new Map<string, number>()
+      for (let i = 0; i < paths.length; i += BLOB_SIZES_PER_QUERY) {
+        const result = await this.graphql<{ project: { repository: { blobs: { nodes: Array<{ path: string; size: string }> } } } | null }>(
+          BLOB_SIZES_QUERY,
+          { project: parseRepoSource(fullName).path, ref, paths: paths.slice(i, i + BLOB_SIZES_PER_QUERY) }
+        )
+        result.project?.repository.blobs.nodes.forEach(blob => sizes.set(blob.path, Number(blob.size) || 0))
+      }
+
+      const files = paths.map(path => ({ path, size: sizes.get(path) ?? 0 }))
+      console.log(`[gitlab] Fetched tree for ${fullName}@${ref}: ${files.length} files`)
+      return { files, truncated: false }
+    } catch (error) {
+      throw this.handleError(error, `Failed to fetch file tree for ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Fetch a single file's raw contents
+   * @returns File contents, or null if the file doesn't exist
+   * @throws Error with clear message on other failures
+   */
+  async fetchFileContent(fullName: string, ref: string, path: string): Promise<string | null> {
+    try {
+      const response = await this.request(
+        `${this.projectPath(fullName)}/repository/files/${encodeURIComponent(path)}/raw`,
+        { ref }
+      )
+      return await response.text()
+    } catch (error) {
+      if (error instanceof GitLabRequestError && error.status === 404) return null
+      throw this.handleError(error, `Failed to fetch ${path} from ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Resolve any ref (branch, tag or SHA) to a commit SHA
+   * @throws Error with clear message on failure
+   */
+  async resolveCommitSHA(fullName: string, ref: string): Promise<string> {
+    try {
+      const data = await this.getJson<{ id: string }>(
+        `${this.projectPath(fullName)}/repository/commits/${encodeURIComponent(ref)}`
+      )
+      return data.id
+    } catch (error) {
+      throw this.handleError(error, `Failed to resolve ${fullName}@${ref}`)
+    }
+  }
+
+  /**
+   * Get a merge request's base and head commits
+   * headRepo is the source project for merge requests from forks, null when it was deleted
+   * @throws Error with clear message on failure
+   */
+  async getPullRequest(fullName: string, number: number): Promise<{
+    number: number
+    title: string
+    baseRef: string
+    baseSha: string
+    headRef: string
+    headSha: string
+    headRepo: string | null
+  }> {
+    try {
+      const data = await this.getJson<any>(`${this.projectPath(fullName)}/merge_requests/${number}`)
+
+      const headRepo = data.source_project_id === data.target_project_id
+        ? fullName
+        : await this.getJson<{ path_with_namespace: string }>(`/projects/${data.source_project_id}`)
+            .then(project => repoSourceName('gitlab', project.path_with_namespace))
+            .catch(() => null)
+
+      return {
+        number: data.iid,
+        title: data.title,
+        baseRef: data.target_branch,
+        baseSha: data.diff_refs?.base_sha,
+        headRef: data.source_branch,
+        headSha: data.diff_refs?.head_sha ?? data.sha,
+        headRepo,
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to get merge request ${fullName}!${number}`)
+    }
+  }
+
+  /**
+   * List files changed by a merge request, with patches
+   * @throws Error with clear message on failure
+   */
+  async listPullRequestFiles(fullName: string, number: number): Promise<ChangedFile[]> {
+    try {
+      const data = await this.paginate<any>(`${this.projectPath(fullName)}/merge_requests/${number}/diffs`)
+      return data.map(this.mapChangedFile)
+    } catch (error) {
+      throw this.handleError(error, `Failed to list files for merge request ${fullName}!${number}`)
+    }
+  }
+
+  /**
+   * Compare two refs ("base...head") from their merge base and list the changed files
+   * @throws Error with clear message on failure
+   */
+  async compareRefs(fullName: string, basehead: string): Promise<{
+    mergeBaseSha: string
+    files: ChangedFile[]
+    truncated: boolean
+  }> {
+    try {
+      const [base, head] = basehead.split('...')
+      const project = this.projectPath(fullName)
+
+      const [comparison, mergeBase] = await Promise.all([
+        this.getJson<{ diffs: any[]; compare_timeout: boolean }>(`${project}/repository/compare`, {
+          from: base,
+          to: head,
+          straight: false,
+        }),
+        this.getJson<{ id: string }>(`${project}/repository/merge_base`, { 'refs[]': [base, head] }),
+      ])
+
+      return {
+        mergeBaseSha: mergeBase.id,
+        files: comparison.diffs.map(this.mapChangedFile),
+        truncated: comparison.compare_timeout,
+      }
+    } catch (error) {
+      throw this.handleError(error, `Failed to compare ${fullName} ${basehead}`)
+    }
+  }
+
+  /**
+   * Count commits between two SHAs
+   * Used to show staleness ("3 commits behind")
+   */
+  async countCommitsBehind(fullName: string, oldSHA: string, newSHA: string): Promise<number> {
+    try {
+      const data = await this.getJson<{ commits: unknown[] }>(`${this.projectPath(fullName)}/repository/compare`, {
+        from: oldSHA,
+        to: newSHA,
+      })
+      return data.commits.length
+    } catch (error) {
+      // If comparison fails, return 0 (can't determine)
+      console.warn(`Failed to compare commits for ${fullName}:`, error)
+      return 0
+    }
+  }
+
+  /**
+   * Archive download request for a ref (gzipped tarball, read by lib/archive.ts)
+   * @param ref - Defaults to the project's default branch
+   */
+  archiveRequest(fullName: string, ref?: string): { url: string; headers: Record<string, string> } {
+    const query = ref ? `?sha=${encodeURIComponent(ref)}` : ''
+    return {
+      url: `${config.gitlab.apiUrl}${this.projectPath(fullName)}/repository/archive.tar.gz${query}`,
+      headers: this.authHeaders(),
+    }
+  }
+
+  /**
+   * API path of a project, from "gitlab:group/project"
+   */
+  private projectPath(fullName: string): string {
+    return `/projects/${encodeURIComponent(parseRepoSource(fullName).path)}`
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.token ? { 'Authorization': `Bearer ${this.token}` } : {}
+  }
+
+  /**
+   * GET an API path, throwing GitLabRequestError on a non-2xx response
+   * Array params repeat the key (refs[]=a&refs[]=b)
+   */
+  private async request(path: string, params: QueryParams = {}): Promise<Response> {
+    const url = new URL(`${config.gitlab.apiUrl}${path}`)
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue
+      for (const item of Array.isArray(value) ? value : [value]) url.searchParams.append(key, String(item))
+    }
+
+    const response = await fetch(url, {
+      headers: this.authHeaders(),
+      signal: AbortSignal.timeout(config.gitlab.timeout),
+    })
+    if (!response.ok) throw new GitLabRequestError(response)
+    return response
+  }
+
+  private async getJson<T>(path: string, params: QueryParams = {}): Promise<T> {
+    return (await this.request(path, params)).json() as Promise<T>
+  }
+
+  /**
+   * Fetch every page of a listing (offset pagination, x-next-page header)
+   */
+  private async paginate<T>(path: string, params: QueryParams = {}): Promise<T[]> {
+    const items: T[] = []
+    let page: string | null = '1'
+
+    while (page) {
+      const response = await this.request(path, { ...params, per_page: 100, page })
+      items.push(...(await response.json() as T[]))
+      page = response.headers.get('x-next-page') || null
+    }
+
+    return items
+  }
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${config.gitlab.apiUrl.replace(/\/v4\/?$/, '')}/graphql`, {
+      method: 'POST',
+      headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+      signal: AbortSignal.timeout(config.gitlab.timeout),
+    })
+    if (!response.ok) throw new GitLabRequestError(response)
+
+    const { data, errors } = await response.json() as { data?: T; errors?: Array<{ message: string }> }
+    if (errors?.length || !data) throw new Error(errors?.[0]?.message ?? 'Empty GraphQL response')
+    return data
+  }
+
+  /**
+   * Map GitLab API response to our GitHubRepo type
+   */
+  private mapRepo(data: any): GitHubRepo {
+    return {
+      name: data.path,
+      fullName: repoSourceName('gitlab', data.path_with_namespace),
+      defaultBranch: data.default_branch,
+      pushedAt: data.last_activity_at,
+      size: data.statistics ? Math.round(data.statistics.repository_size / 1024) : 0, // only with reporter access
+      private: data.visibility !== 'public',
+      description: data.description,
+      webUrl: data.web_url,
+    }
+  }
+
+  /**
+   * Map a GitLab diff entry (merge request or compare) to our ChangedFile type
+   * GitLab doesn't count lines, so additions/deletions come from the patch
+   */
+  private mapChangedFile(data: any): ChangedFile {
+    const lines: string[] = data.diff ? data.diff.split('\n') : []
+    return {
+      path: data.new_path,
+      previousPath: data.renamed_file ? data.old_path : undefined,
+      status: data.new_file ? 'added' : data.deleted_file ? 'removed' : data.renamed_file ? 'renamed' : 'modified',
+      additions: lines.filter(line => line.startsWith('+')).length,
+      deletions: lines.filter(line => line.startsWith('-')).length,
+      patch: data.diff || undefined,
+    }
+  }
+
+  /**
+   * Handle GitLab API errors with clear, actionable messages
+   */
+  private handleError(error: unknown, context: string): Error {
+    if (error instanceof GitLabRequestError) {
+      if (error.status === 401) {
+        return new Error(`${context}: Invalid or expired GitLab token`)
+      }
+
+      if (error.status === 429) {
+        const resetTime = error.headers.get('ratelimit-reset')
+        const resetDate = resetTime ? new Date(parseInt(resetTime) * 1000) : null
+        return new Error(
+          `${context}: GitLab rate limit exceeded. Resets at ${resetDate?.toLocaleTimeString()}`
+        )
+      }
+
+      if (error.status === 403) {
+        return new Error(`${context}: Forbidden. Check token permissions.`)
+      }
+
+      if (error.status === 404) {
+        return new Error(`${context}: Not found. Check group/project name and token access.`)
+      }
+    }
+
+    if (error instanceof Error) {
+      return new Error(`${context}: ${error.message}`)
+    }
+
+    return new Error(`${context}: Unknown error`)
+  }
+}
+
+/**
+ * Non-2xx API response, mapped to a message by handleError
+ */
+class GitLabRequestError extends Error {
+  readonly status: number
+  readonly headers: Headers
+
+  constructor(response: Response) {
+    super(`${response.status} ${response.statusText}`)
+    this.name = 'GitLabRequestError'
+    this.status = response.status
+    this.headers = response.headers
+  }
+}
+
+// Blob sizes for one batch of paths (the REST tree listing has none)
+const BLOB_SIZES_PER_QUERY = 100
+
+const BLOB_SIZES_QUERY = `
+  query($project: ID!, $ref: String!, $paths: [String!]!) {
+    project(fullPath: $project) {
+      repository {
+        blobs(ref: $ref, paths: $paths) {
+          nodes { path size }
+        }
+      }
+    }
+  }
+`
@@ -0,0 +1,171 @@
+/**
+ * Pack History (server-side)
+ *
+ * The GitHub API's stand-in for Repomix's git-based includeLogs and
+ * gitSortByChanges, which need a git binary we don't have: the branch's recent
+ * commits, each packed file's last change, and recently-changed-first ordering.
+ */
+
+import { GitHubClient } from './github'
+import { HISTORY_CONFIG } from './config'
+import { parseRepoSource } from './changeset'
+import { parsePackedFiles, reorderPackedFiles } from './packFormat'
+import { redactText } from './redaction'
+import type { CommitSummary, GitHubHost, OutputStyle, SliceConfig } from './types'
+
+export interface PackHistoryOptions extends SliceConfig {
+  repo: string // "owner/name"
+  ref?: string // commit SHA or branch; default branch when omitted
+  subPath?: string // packed paths are relative to it
+  token?: string
+  githubHost?: GitHubHost // defaults to the deployment's
+}
+
+interface PackHistory {
+  commits: CommitSummary[]
+  files?: Array<{ path: string; commit?: CommitSummary }> // only with fileHistory
+  error?: string
+}
+
+const LONG_SEPARATOR = '='.repeat(64)
+
+/**
+ * Whether a slice asks for any history
+ */
+export function wantsHistory(slice: SliceConfig): boolean {
+  return !!(slice.commitLog || slice.fileHistory || slice.sortByRecentChanges)
+}
+
+/**
+ * Validate a slice's commit log length
+ * @returns Error message, or null if valid
+ */
+export function validateCommitLog(commitLog: number | undefined): string | null {
+  if (commitLog === undefined) return null
+  if (!Number.isInteger(commitLog) || commitLog < 0 || commitLog > HISTORY_CONFIG.maxCommitLog) {
+    return `Invalid commit log length "${commitLog}". Expected an integer from 0 to ${HISTORY_CONFIG.maxCommitLog}.`
+  }
+  return null
+}
+
+/**
+ * Add the slice's history to packed output
+ * Appends a history section and, with sortByRecentChanges, moves the most
+ * recently changed files first. Never throws: API failures leave the files in
+ * place and put a note in the section instead.
+ */
+export async function addPackHistory(
+  output: string,
+  style: OutputStyle,
+  options: PackHistoryOptions
+): Promise<string> {
+  if (!wantsHistory(options)) return output
+
+  const history = await fetchPackHistory(output, style, options)
+
+  let result = output
+  if (options.sortByRecentChanges && !history.error) {
+    const order = history.files!
+      .filter(file => file.commit)
+      .sort((a, b) => b.commit!.date.localeCompare(a.commit!.date))
+      .map(file => file.path)
+    result = reorderPackedFiles(output, style, order)
+  }
+
+  if (!options.fileHistory) delete history.files
+  return appendHistorySection(result, style, history, options.redactSecrets !== false)
+}
+
+async function fetchPackHistory(output: string, style: OutputStyle, options: PackHistoryOptions): Promise<PackHistory> {
+  if (parseRepoSource(options.repo).provider !== 'github') {
+    return { commits: [], error: 'Git history is only available for GitHub repos' }
+  }
+
+  const github = new GitHubClient(options.token ?? '', options.githubHost)
+  const repoPath = (path: string) => (options.subPath ? `${options.subPath}/${path}` : path)
+
+  try {
+    const commits = options.commitLog
+      ? await github.listRecentCommits(options.repo, options.ref, options.commitLog, options.subPath)
+      : []
+
+    if (!options.fileHistory && !options.sortByRecentChanges) return { commits }
+
+    const paths = parsePackedFiles(output, style).map(file => file.path)
+    const lastCommits = await github.getLastCommits(options.repo, options.ref, paths.map(repoPath))
+    return { commits, files: paths.map(path => ({ path, commit: lastCommits[repoPath(path)] })) }
+  } catch (error) {
+    console.error(`[history] Failed to fetch history for ${options.repo}:`, error)
+    return { commits: [], error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+function describeCommit(commit: CommitSummary): string {
+  return `${commit.date.slice(0, 10)} ${commit.sha.slice(0, 7)} ${commit.author}: ${commit.message}`
+}
+
+/**
+ * Render the history section in the pack's style, after the files
+ * (plain output keeps its "End of Codebase" marker last)
+ */
+function appendHistorySection(output: string, style: OutputStyle, history: PackHistory, redact: boolean): string {
+  const clean = (text: string) => (redact ? redactText(text).text : text)
+  const commitLines = history.commits.map(commit => clean(describeCommit(commit)))
+  const fileLines = history.files?.map(({ path, commit }) =>
+    `${path}: ${commit ? clean(describeCommit(commit)) : '(no commit found)'}`
+  )
+
+  switch (style) {
+    case 'json': {
+      let parsed: Record<string, unknown>
+      try {
+        parsed = JSON.parse(output)
+      } catch {
+        return output
+      }
+      parsed.gitHistory = {
+        ...(history.error && { error: history.error }),
+        commits: history.commits.map(commit => ({ ...commit, message: clean(commit.message) })),
+        ...(history.files && {
+          files: Object.fromEntries(history.files.map(({ path, commit }) => [
+            path,
+            commit ? { ...commit, message: clean(commit.message) } : null,
+          ])),
+        }),
+      }
+      return JSON.stringify(parsed, null, 2) // Same formatting Repomix uses
+    }
+
+    case 'xml': {
+      const blocks = [
+        history.error && `History unavailable: ${history.error}`,
+        commitLines.length > 0 && `<git_commits>\n${commitLines.join('\n')}\n</git_commits>`,
+        fileLines && `<git_file_changes>\n${fileLines.join('\n')}\n</git_file_changes>`,
+      ].filter(Boolean)
+      return `${output.trimEnd()}\n\n<git_history>\n${blocks.join('\n')}\n</git_history>\n`
+    }
+
+    case 'markdown': {
+      const blocks = [
+        history.error && `History unavailable: ${history.error}`,
+        commitLines.length > 0 && `## Recent Commits\n${commitLines.map(line => `- ${line}`).join('\n')}`,
+        fileLines && `## Last Change per File\n${fileLines.map(line => `- ${line}`).join('\n')}`,
+      ].filter(Boolean)
+      return `${output.trimEnd()}\n\n# Git History\n\n${blocks.join('\n\n')}\n`
+    }
+
+    case 'plain': {
+      const blocks = [
+        history.error && `History unavailable: ${history.error}`,
+        commitLines.length > 0 && `Recent Commits:\n${commitLines.join('\n')}`,
+        fileLines && `Last Change per File:\n${fileLines.join('\n')}`,
+      ].filter(Boolean)
+      const section = `${LONG_SEPARATOR}\nGit History\n${LONG_SEPARATOR}\n\n${blocks.join('\n\n')}\n\n`
+
+      const endMarker = output.lastIndexOf(`${LONG_SEPARATOR}\nEnd of Codebase`)
+      return endMarker === -1
+        ? `${output.trimEnd()}\n\n${section}`
+        : output.slice(0, endMarker) + section + output.slice(endMarker)
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import { readFileSync, statSync } from 'node:fs'
+import { join, posix } from 'node:path'
+import { config } from './config'
+import type { ImportGraph, ImportGraphFile } from './types'
+
+/**
+ * Import-Graph Slicing
+ *
+ * Packs what a piece of code depends on instead of what a glob happens to match.
+ * Starting from entry files (or the files defining a symbol), follows
+ * TypeScript/JavaScript and Python imports breadth-first to a depth, and
+ * returns every reachable file in the repo.
+ *
+ * Imports are found with regexes, not a parser: dynamic paths and bare package
+ * imports are skipped, and a commented-out import still counts. Resolution
+ * mirrors the common cases of each toolchain - relative paths with extension
+ * and index fallbacks, tsconfig `paths` aliases, Python packages under the repo
+ * root or src/.
+ *
+ * Shared by packing and the slice preview (both read the extracted archive).
+ */
+
+export const DEFAULT_IMPORT_DEPTH = 3
+export const MAX_IMPORT_DEPTH = 10
+
+// Stop following imports past this many files (the graph is marked truncated)
+const MAX_GRAPH_FILES = 2000
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+const PYTHON_EXTENSIONS = ['.py', '.pyi']
+
+// ESM TypeScript imports name the compiled file ("./util.js" for util.ts)
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+}
+
+// Directories searched for absolute Python imports, relative to the target
+const PYTHON_SOURCE_ROOTS = ['', 'src']
+
+export interface ImportGraphOptions {
+  entryPoints: string[] // paths relative to the target, or symbol names
+  depth?: number // import hops to follow (default DEFAULT_IMPORT_DEPTH)
+  subPath?: string // sub-directory target: entries resolve inside it
+}
+
+// A module an import names; `fallback` is tried when `specifier` doesn't resolve
+// (Python "from pkg import name": name may be a submodule or just an attribute)
+interface ImportRef {
+  specifier: string
+  fallback?: string
+}
+
+interface PathAlias {
+  prefix: string // alias before its "*" ("@/")
+  targets: string[] // repo-relative replacements before their "*"
+}
+
+type ReadFile = (path: string) => string | null
+
+/**
+ * Resolve the files reachable from the entry points
+ * Pure function - the tree is given as a path list and a reader
+ *
+ * @param paths - Every file in the repo (repo-relative)
+ * @param readFile - Contents of a repo file, or null if unreadable
+ * @returns Repo-relative graph (scopeImportGraph makes it target-relative)
+ */
+export function buildImportGraph(
+  paths: string[],
+  readFile: ReadFile,
+  options: ImportGraphOptions
+): ImportGraph {
+  const fileSet = new Set(paths)
+  const prefix = options.subPath ? `${options.subPath}/` : ''
+  const depth = Math.min(Math.max(options.depth ?? DEFAULT_IMPORT_DEPTH, 0), MAX_IMPORT_DEPTH)
+  const aliases = readPathAliases(fileSet, readFile, options.subPath)
+
+  // Entry points: a file in the target, else a symbol defined somewhere in it
+  const entries: string[] = []
+  const unresolved: string[] = []
+  for (const entry of options.entryPoints.map(e => e.trim()).filter(Boolean)) {
+    const path = `${prefix}${entry.replace(/^\.?\//, '')}`
+    const found = fileSet.has(path)
+      ? [path]
+      : isSymbolName(entry) ? findSymbolDefinitions(entry, paths.filter(p => p.startsWith(prefix)), readFile) : []
+
+    if (found.length === 0) unresolved.push(entry)
+    for (const file of found) if (!entries.includes(file)) entries.push(file)
+  }
+
+  // Breadth-first, so each file is reported at its shortest distance
+  const files: ImportGraphFile[] = entries.map(path => ({ path, depth: 0 }))
+  const seen = new Set(entries)
+  let truncated = false
+
+  for (let i = 0; i < files.length && !truncated; i++) {
+    const file = files[i]
+    if (file.depth >= depth || !isSourceFile(file.path)) continue
+
+    const content = readFile(file.path)
+    if (content === null) continue
+
+    for (const ref of extractImports(file.path, content)) {
+      const target = resolveImport(file.path, ref, fileSet, aliases, options.subPath)
+      if (!target || seen.has(target)) continue
+
+      if (files.length >= MAX_GRAPH_FILES) {
+        truncated = true
+        break
+      }
+      seen.add(target)
+      files.push({ path: target, depth: file.depth + 1, importedBy: file.path })
+    }
+  }
+
+  return { entries, unresolved, depth, files, truncated: truncated || undefined }
+}
+
+/**
+ * buildImportGraph over an extracted tree on disk
+ * Files over config.repomix.maxFileSize aren't read (Repomix skips them anyway)
+ */
+export function buildTreeImportGraph(
+  root: string,
+  paths: string[],
+  options: ImportGraphOptions
+): ImportGraph {
+  return buildImportGraph(paths, path => {
+    try {
+      const file = join(root, path)
+      if (statSync(file).size > config.repomix.maxFileSize) return null
+      return readFileSync(file, 'utf-8')
+    } catch {
+      return null
+    }
+  }, options)
+}
+
+/**
+ * Graph relative to a sub-directory target: files outside it are dropped
+ * (they can't be packed with it)
+ */
+export function scopeImportGraph(graph: ImportGraph, subPath?: string): ImportGraph {
+  if (!subPath) return graph
+
+  const prefix = `${subPath}/`
+  const relative = (path: string) => (path.startsWith(prefix) ? path.slice(prefix.length) : undefined)
+
+  return {
+    ...graph,
+    entries: graph.entries.map(path => relative(path)!),
+    files: graph.files
+      .filter(file => file.path.startsWith(prefix))
+      .map(file => ({
+        ...file,
+        path: relative(file.path)!,
+        importedBy: file.importedBy && relative(file.importedBy),
+      })),
+  }
+}
+
+/**
+ * Import specifiers in a source file, in file order
+ */
+function extractImports(path: string, content: string): ImportRef[] {
+  if (hasExtension(path, PYTHON_EXTENSIONS)) return extractPythonImports(content)
+
+  const refs: ImportRef[] = []
+  const patterns = [
+    /\b(?:import|export)\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g, // static import/export
+    /\b(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g, // require() and dynamic import()
+  ]
+  for (const pattern of patterns) {
+    for (const match of content.matchAll(pattern)) refs.push({ specifier: match[1] })
+  }
+  return refs
+}
+
+function extractPythonImports(content: string): ImportRef[] {
+  const refs: ImportRef[] = []
+
+  // from .module import a, b  /  from pkg import (a, b)
+  for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm)) {
+    const module = match[1]
+    const names = match[2].replace(/[()\\]/g, ' ').split(',')
+      .map(name => name.trim().split(/\s+/)[0])
+      .filter(name => name && name !== '*')
+
+    if (names.length === 0) refs.push({ specifier: module })
+    for (const name of names) {
+      const joiner = module.endsWith('.') ? '' : '.'
+      refs.push({ specifier: `${module}${joiner}${name}`, fallback: module })
+    }
+  }
+
+  // import pkg.module, other as alias
+  for (const match of content.matchAll(/^[ \t]*import[ \t]+([^\n#]+)/gm)) {
+    for (const part of match[1].split(',')) {
+      const module = part.trim().split(/\s+/)[0]
+      if (/^[\w.]+$/.test(module)) refs.push({ specifier: module })
+    }
+  }
+
+  return refs
+}
+
+/**
+ * Repo path an import resolves to, or null for packages and anything not in the repo
+ */
+function resolveImport(
+  from: string,
+  ref: ImportRef,
+  fileSet: Set<string>,
+  aliases: PathAlias[],
+  subPath?: string
+): string | null {
+  const resolve = hasExtension(from, PYTHON_EXTENSIONS)
+    ? (specifier: string) => resolvePythonModule(from, specifier, fileSet, subPath)
+    : (specifier: string) => resolveScriptModule(from, specifier, fileSet, aliases)
+
+  return resolve(ref.specifier) ?? (ref.fallback !== undefined ? resolve(ref.fallback) : null)
+}
+
+function resolveScriptModule(
+  from: string,
+  specifier: string,
+  fileSet: Set<string>,
+  aliases: PathAlias[]
+): string | null {
+  if (specifier.startsWith('.')) {
+    return resolveScriptPath(posix.join(posix.dirname(from), specifier), fileSet)
+  }
+
+  for (const { prefix, targets } of aliases) {
+    if (!specifier.startsWith(prefix)) continue
+    for (const target of targets) {
+      const resolved = resolveScriptPath(posix.join(target, specifier.slice(prefix.length)), fileSet)
+      if (resolved) return resolved
+    }
+  }
+
+  return null // package import
+}
+
+/**
+ * File for a module path: as written, with a source extension, the TypeScript
+ * source of a compiled extension, or an index file
+ */
+function resolveScriptPath(base: string, fileSet: Set<string>): string | null {
+  if (base.startsWith('..')) return null // outside the repo
+
+  const extension = posix.extname(base)
+  const compiled = (COMPILED_EXTENSIONS[extension] ?? []).map(ext => base.slice(0, -extension.length) + ext)
+  const candidates = [
+    base,
+    ...compiled,
+    ...SCRIPT_EXTENSIONS.map(ext => `${base}${ext}`),
+    ...SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ]
+  return candidates.find(candidate => fileSet.has(candidate)) ?? null
+}
+
+function resolvePythonModule(
+  from: string,
+  specifier: string,
+  fileSet: Set<string>,
+  subPath?: string
+): string | null {
+  const dots = specifier.match(/^\.*/)![0].length
+  const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/')
+
+  let bases: string[]
+  if (dots > 0) {
+    // Relative: one dot is the importing file's package, each extra dot goes up one
+    let dir = posix.dirname(from)
+    for (let i = 1; i < dots; i++) dir = posix.dirname(dir)
+    bases = [dir === '.' ? '' : dir]
+  } else {
+    const scopes = subPath ? [subPath, ''] : ['']
+    bases = scopes.flatMap(scope => PYTHON_SOURCE_ROOTS.map(root => [scope, root].filter(Boolean).join('/')))
+  }
+
+  for (const base of new Set(bases)) {
+    const path = [base, modulePath].filter(Boolean).join('/')
+    const candidates = [
+      ...(modulePath ? PYTHON_EXTENSIONS.map(ext => `${path}${ext}`) : []),
+      `${path ? `${path}/` : ''}__init__.py`,
+    ]
+    const found = candidates.find(candidate => fileSet.has(candidate))
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * `compilerOptions.paths` aliases from the target's (or the repo's) tsconfig.json or jsconfig.json
+ * Only "prefix/*" style patterns are supported
+ */
+function readPathAliases(fileSet: Set<string>, readFile: ReadFile, subPath?: string): PathAlias[] {
+  const dirs = subPath ? [subPath, ''] : ['']
+  const configFile = dirs
+    .flatMap(dir => ['tsconfig.json', 'jsconfig.json'].map(name => (dir ? `${dir}/${name}` : name)))
+    .find(path => fileSet.has(path))
+  if (!configFile) return []
+
+  let compilerOptions: { baseUrl?: string; paths?: Record<string, string[]> } | undefined
+  try {
+    // tsconfig allows comments and trailing commas
+    const json = stripJsonComments(readFile(configFile) ?? '').replace(/,(\s*[}\]])/g, '$1')
+    compilerOptions = JSON.parse(json).compilerOptions
+  } catch {
+    return []
+  }
+
+  const configDir = posix.dirname(configFile) === '.' ? '' : posix.dirname(configFile)
+  const baseDir = posix.join(configDir || '.', compilerOptions?.baseUrl ?? '.')
+
+  return Object.entries(compilerOptions?.paths ?? {})
+    .filter(([pattern]) => pattern.endsWith('*'))
+    .map(([pattern, targets]) => ({
+      prefix: pattern.slice(0, -1),
+      targets: targets
+        .filter(target => target.endsWith('*'))
+        .map(target => posix.join(baseDir, target.slice(0, -1)).replace(/^\.\/?/, '')),
+    }))
+    .sort((a, b) => b.prefix.length - a.prefix.length) // most specific alias first
+}
+
+/**
+ * Drop // and /* comments outside strings ("@/*" in a paths key is not a comment)
+ */
+function stripJsonComments(text: string): string {
+  let result = ''
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      const end = text.slice(i + 1).search(/(?<!\\)"/)
+      const close = end === -1 ? text.length : i + 1 + end
+      result += text.slice(i, close + 1)
+      i = close
+    } else if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i)
+      i = end === -1 ? text.length : end - 1 // keep the newline
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + 1
+    } else {
+      result += char
+    }
+  }
+  return result
+}
+
+/**
+ * Source files that define a symbol (function, class, type, interface, enum or top-level variable)
+ */
+function findSymbolDefinitions(symbol: string, paths: string[], readFile: ReadFile): string[] {
+  const name = symbol.replace(/\$/g, '\\$')
+  const scriptDefinition = new RegExp(
+    `^[ \\t]*(?:export[ \\t]+)?(?:default[ \\t]+)?(?:declare[ \\t]+)?(?:abstract[ \\t]+)?(?:async[ \\t]+)?` +
+    `(?:function\\*?|class|interface|type|enum|const|let|var)[ \\t]+${name}(?![\\w$])`,
+    'm'
+  )
+  const pythonDefinition = new RegExp(`^(?:(?:async[ \\t]+)?def|class)[ \\t]+${name}\\b|^${name}[ \\t]*[:=]`, 'm')
+
+  return paths.filter(path => {
+    if (!isSourceFile(path)) return false
+    const content = readFile(path)
+    if (content === null) return false
+    return (hasExtension(path, PYTHON_EXTENSIONS) ? pythonDefinition : scriptDefinition).test(content)
+  })
+}
+
+function isSymbolName(entry: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(entry)
+}
+
+function isSourceFile(path: string): boolean {
+  return hasExtension(path, [...SCRIPT_EXTENSIONS, ...PYTHON_EXTENSIONS])
+}
+
+function hasExtension(path: string, extensions: string[]): boolean {
+  return extensions.includes(posix.extname(path))
+}
@@ -0,0 +1,521 @@
+/**
+ * Symbol Outline Reducer
+ *
+ * Shrinks a source file to its shape: exports, type declarations, class and
+ * function signatures, and the doc comments on them. Function bodies, imports,
+ * private members and plain comments are dropped, so a whole repo's
+ * architecture fits where its code wouldn't.
+ *
+ * Line-based scanners rather than parsers (TypeScript/JavaScript and Python):
+ * strings, comments and bracket depth are tracked, so bodies are cut at the
+ * right brace, but unusual syntax may be outlined loosely. Other languages
+ * return null and keep their content.
+ * Works in both client and server environments (no Node.js dependencies).
+ */
+
+const SCRIPT_EXTENSIONS = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i
+const PYTHON_EXTENSIONS = /\.pyi?$/i
+
+// Placeholders for dropped bodies, in each language's own idiom
+const SCRIPT_BODY = '{ … }'
+const PYTHON_BODY = '...'
+
+// Single-line values longer than this are cut
+const MAX_VALUE_CHARS = 200
+
+/**
+ * Outline of a source file, or null if the language isn't supported
+ */
+export function outlineSource(path: string, content: string): string | null {
+  if (SCRIPT_EXTENSIONS.test(path)) return outlineScript(content)
+  if (PYTHON_EXTENSIONS.test(path)) return outlinePython(content)
+  return null
+}
+
+// ============================================================================
+// TypeScript / JavaScript
+// ============================================================================
+
+interface ScriptLine {
+  text: string
+  code: string // text with strings and comments blanked out (same length)
+  depth: number // bracket depth ({ [ ( combined) at the start of the line
+  braces: Array<{ col: number; depth: number }> // "{" in code, with the depth before it
+}
+
+type ScriptKind = 'whole' | 'function' | 'class' | 'value' | 'skip'
+
+function outlineScript(content: string): string {
+  const lines = scanScript(content)
+  const out: string[] = []
+  outlineScriptBlock(lines, 0, lines.length, 0, false, out)
+  return out.join('\n')
+}
+
+/**
+ * Outline the statements at `depth` in lines[from, to)
+ * @param inClass - Class body: members instead of top-level statements
+ */
+function outlineScriptBlock(
+  lines: ScriptLine[],
+  from: number,
+  to: number,
+  depth: number,
+  inClass: boolean,
+  out: string[]
+): void {
+  let pending: string[] = [] // doc comments and decorators waiting for their declaration
+  let blankBefore = false
+  let seenCode = false
+
+  const emit = (emitted: string[]) => {
+    if (blankBefore && out.length > 0 && out[out.length - 1] !== '' && !inClass) out.push('')
+    out.push(...pending, ...emitted)
+    pending = []
+    blankBefore = false
+  }
+
+  let i = from
+  while (i < to) {
+    const line = lines[i]
+    const code = line.code.trim()
+    const text = line.text.trim()
+
+    if (line.depth !== depth) {
+      i++
+      continue
+    }
+
+    // Comments: doc comments are kept for the declaration that follows
+    if (!code) {
+      if (text.startsWith('/**')) {
+        const end = findLine(lines, i, to, l => l.text.includes('*/'))
+        const doc = lines.slice(i, end + 1).map(l => l.text.trimEnd())
+        if (!seenCode && !inClass) emit(doc) // module header
+        else pending = [...pending, ...doc]
+        i = end + 1
+      } else {
+        if (!text) blankBefore = true
+        else if (text.startsWith('/*')) i = findLine(lines, i, to, l => l.text.includes('*/'))
+        i++
+      }
+      continue
+    }
+
+    seenCode = true
+    const end = statementEnd(lines, i, to, depth)
+    const statement = lines.slice(i, end + 1)
+
+    if (code.startsWith('@')) {
+      pending = [...pending, ...statement.map(l => l.text.trimEnd())]
+      i = end + 1
+      continue
+    }
+
+    const kind = inClass ? memberKind(code) : statementKind(code, statement)
+    if (kind === 'skip') {
+      pending = []
+    } else if (kind === 'class') {
+      const open = statement[0].braces.find(brace => brace.depth === depth)
+      if (!open || end === i) {
+        emit(statement.map(l => l.text.trimEnd()))
+      } else {
+        emit([statement[0].text.slice(0, open.col + 1).trimEnd()])
+        outlineScriptBlock(lines, i + 1, end, depth + 1, true, out)
+        out.push(`${indentOf(statement[0].text)}}`)
+      }
+    } else if (kind === 'function') {
+      emit(cutAtBody(statement, depth))
+    } else if (kind === 'value') {
+      emit(cutValue(statement, inClass))
+    } else {
+      emit(statement.map(l => l.text.trimEnd()))
+    }
+
+    i = end + 1
+  }
+}
+
+/**
+ * What to keep of a top-level statement
+ */
+function statementKind(code: string, statement: ScriptLine[]): ScriptKind {
+  if (/^import\b(?!\s*\()/.test(code)) return 'skip'
+  if (/^export\s+(?:type\s+)?(?:\{|\*)|^export\s*=/.test(code)) return 'whole' // export lists and re-exports
+
+  const match = code.match(
+    /^(export\s+(?:default\s+)?)?(declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\b|class\b|interface\b|type\s+[\w$]+|(?:const\s+)?enum\b|namespace\b|module\b|const\b|let\b|var\b)?/
+  )!
+  const [, exported, declared, keyword] = match
+
+  if (declared) return 'whole'
+  if (!keyword) {
+    // export default <expression>, module.exports = ..., exports.name = ...
+    return exported || /^(module\.)?exports\b/.test(code) ? 'value' : 'skip'
+  }
+  if (keyword === 'function') return 'function'
+  if (keyword === 'class') return 'class'
+  if (!/^(const|let|var)$/.test(keyword)) return 'whole' // types, interfaces, enums, namespaces
+
+  if (isFunctionInitializer(statement[0].code)) return 'function'
+  return exported ? 'value' : 'skip'
+}
+
+/**
+ * What to keep of a class member: public methods and properties
+ */
+function memberKind(code: string): ScriptKind {
+  if (/^(private\b|#)/.test(code) || /^(?:(?:static|readonly|override)\s+)*private\b/.test(code)) return 'skip'
+
+  const modifiers = '(?:(?:public|protected|static|async|abstract|override|readonly|declare|accessor|get|set)\\s+)*'
+  if (new RegExp(`^${modifiers}\\*?\\s*(?:constructor|\\[[^\\]]+\\]|[\\w$]+)\\s*\\??\\s*[<(]`).test(code)) return 'function'
+  if (new RegExp(`^${modifiers}[\\w$]+[?!]?\\s*(?:[:=;]|$)`).test(code)) {
+    return isFunctionInitializer(code) ? 'function' : 'value'
+  }
+  return 'skip'
+}
+
+function isFunctionInitializer(code: string): boolean {
+  const eq = assignmentIndex(code)
+  return eq !== -1 && /^\s*(?:async\s+)?(?:function\b|\(|<|[\w$]+\s*=>)/.test(code.slice(eq + 1))
+}
+
+/**
+ * A function's header, with its body replaced by a placeholder
+ * The body is the last "{" opened at the statement's depth (after params and return type);
+ * arrow functions without one (`=> (<div />)`) are cut after the arrow
+ */
+function cutAtBody(statement: ScriptLine[], depth: number): string[] {
+  const header = (n: number, col: number) => [
+    ...statement.slice(0, n).map(l => l.text.trimEnd()),
+    `${statement[n].text.slice(0, col).trimEnd()} ${SCRIPT_BODY}`,
+  ]
+
+  for (let n = statement.length - 1; n >= 0; n--) {
+    const body = [...statement[n].braces].reverse().find(brace => brace.depth === depth)
+    if (body) return header(n, body.col)
+  }
+
+  const arrow = statement.length > 1 ? statement.findIndex(l => l.code.includes('=>')) : -1
+  if (arrow !== -1) return header(arrow, statement[arrow].code.indexOf('=>') + 2)
+
+  return statement.map(l => l.text.trimEnd()) // overloads and one-line arrows have no body to cut
+}
+
+/**
+ * An exported value or property: its declaration without a long initializer
+ * Class properties keep only their name and type
+ */
+function cutValue(statement: ScriptLine[], inClass: boolean): string[] {
+  const first = statement[0]
+
+  if (inClass) {
+    const eq = assignmentIndex(first.code)
+    return [eq === -1 ? first.text.trimEnd() : first.text.slice(0, eq).trimEnd()]
+  }
+
+  const text = first.text.trimEnd()
+  if (statement.length > 1 || text.length > MAX_VALUE_CHARS) {
+    return [`${text.slice(0, MAX_VALUE_CHARS).trimEnd()} …`]
+  }
+  return [text]
+}
+
+/**
+ * Index of a declaration's "=" (not "==" or "=>"), at the line's own depth
+ */
+function assignmentIndex(code: string): number {
+  let depth = 0
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]
+    if ('{[(<'.includes(char)) depth++
+    else if ('}])>'.includes(char) && code[i - 1] !== '=') depth = Math.max(0, depth - 1)
+    else if (char === '=' && depth === 0 && code[i + 1] !== '=' && code[i + 1] !== '>' && !'!<>='.includes(code[i - 1])) return i
+  }
+  return -1
+}
+
+/**
+ * Last line of the statement starting at `start`: deeper lines belong to it,
+ * as do lines continuing an expression (trailing operator or leading one)
+ */
+function statementEnd(lines: ScriptLine[], start: number, to: number, depth: number): number {
+  let end = start
+  while (end + 1 < to) {
+    const next = lines[end + 1]
+    const current = lines[end].code.trim()
+    const nextCode = next.code.trim()
+
+    const continues = next.depth > depth
+      || (nextCode !== '' && (
+        /(?:[=|&,.+\-*?:<]|=>|\bextends|\bimplements)$/.test(current)
+        || /^(?:[|&.?:>)\]}]|=>|extends\b|implements\b)/.test(nextCode)
+      ))
+    if (!continues) break
+    end++
+  }
+  return end
+}
+
+function findLine(lines: ScriptLine[], from: number, to: number, test: (line: ScriptLine) => boolean): number {
+  for (let i = from; i < to; i++) if (test(lines[i])) return i
+  return to - 1
+}
+
+/**
+ * Split source into lines with strings, comments and template literals blanked out,
+ * tracking bracket depth (template `${}` expressions included)
+ */
+function scanScript(content: string): ScriptLine[] {
+  const lines: ScriptLine[] = []
+  let mode: 'code' | 'line' | 'block' | "'" | '"' | '`' = 'code'
+  const templates: number[] = [] // depth at each open `${`, to return to the template
+  let depth = 0
+  let line: ScriptLine = { text: '', code: '', depth: 0, braces: [] }
+
+  const push = (text: string, code: string) => {
+    line.text += text
+    line.code += code
+  }
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    const next = content[i + 1]
+
+    if (char === '\n') {
+      lines.push(line)
+      line = { text: '', code: '', depth, braces: [] }
+      if (mode === 'line' || mode === "'" || mode === '"') mode = 'code'
+      continue
+    }
+    if (char === '\r') continue
+
+    if (mode === 'code') {
+      if (char === '/' && next === '/') {
+        mode = 'line'
+        push(char, ' ')
+      } else if (char === '/' && next === '*') {
+        mode = 'block'
+        push('/*', '  ')
+        i++
+      } else if (char === "'" || char === '"' || char === '`') {
+        mode = char
+        push(char, ' ')
+      } else if (char === '{' || char === '(' || char === '[') {
+        if (char === '{') line.braces.push({ col: line.text.length, depth })
+        depth++
+        push(char, char)
+      } else if (char === '}' || char === ')' || char === ']') {
+        depth = Math.max(0, depth - 1)
+        if (char === '}' && templates.length > 0 && templates[templates.length - 1] === depth) {
+          templates.pop()
+          mode = '`'
+          push(char, ' ')
+        } else {
+          push(char, char)
+        }
+      } else {
+        push(char, char)
+      }
+    } else if (mode === 'line') {
+      push(char, ' ')
+    } else if (mode === 'block') {
+      if (char === '*' && next === '/') {
+        mode = 'code'
+        push('*/', '  ')
+        i++
+      } else {
+        push(char, ' ')
+      }
+    } else {
+      // Inside a string or template literal
+      if (char === '\\' && next !== undefined && next !== '\n') {
+        push(char + next, '  ')
+        i++
+      } else if (mode === '`' && char === '$' && next === '{') {
+        templates.push(depth)
+        depth++
+        mode = 'code'
+        push('${', '  ')
+        i++
+      } else {
+        if (char === mode) mode = 'code'
+        push(char, ' ')
+      }
+    }
+  }
+
+  lines.push(line)
+  return lines
+}
+
+// ============================================================================
+// Python
+// ============================================================================
+
+interface PythonStatement {
+  start: number // first physical line
+  end: number // last physical line (bracketed or backslash-continued statements span several)
+  indent: number
+  code: string // first line with strings and comments blanked out
+  raw: string // first line, trimmed
+}
+
+function outlinePython(content: string): string {
+  const physical = content.split(/\r?\n/)
+  const statements = scanPython(physical)
+  const out: string[] = []
+  outlinePythonBlock(physical, statements, 0, statements.length, false, out)
+  return out.join('\n').trimEnd()
+}
+
+/**
+ * Outline the statements of one block (statements[from, to), all at the block's indent or deeper)
+ */
+function outlinePythonBlock(
+  physical: string[],
+  statements: PythonStatement[],
+  from: number,
+  to: number,
+  inClass: boolean,
+  out: string[]
+): void {
+  if (from >= to) return
+  const indent = statements[from].indent
+  const lines = (s: PythonStatement) => physical.slice(s.start, s.end + 1).map(l => l.trimEnd())
+
+  let pending: string[] = [] // decorators
+  let first = true
+
+  for (let k = from; k < to; k++) {
+    const statement = statements[k]
+    if (statement.indent !== indent) continue // inside a skipped block
+
+    const isFirst = first
+    first = false
+    const code = statement.code.trim()
+
+    // Module and class docstrings
+    if (isFirst && isDocstring(statement.raw)) {
+      out.push(...lines(statement))
+      continue
+    }
+
+    if (code.startsWith('@')) {
+      pending.push(...lines(statement))
+      continue
+    }
+
+    // The statement's block: following statements indented deeper
+    let blockEnd = k + 1
+    while (blockEnd < to && statements[blockEnd].indent > indent) blockEnd++
+
+    const def = code.match(/^(?:async\s+)?(def|class)\s+(\w+)/)
+    if (def && isPrivatePythonName(def[2])) {
+      pending = []
+    } else if (def) {
+      if (!inClass && out.length > 0 && out[out.length - 1] !== '') out.push('')
+      out.push(...pending, ...lines(statement))
+      pending = []
+
+      // One-line bodies ("def f(): return 1") are already in the header
+      const hasBlock = physical[statement.end].replace(/#.*$/, '').trimEnd().endsWith(':')
+      const body = hasBlock ? statements.slice(k + 1, blockEnd) : []
+      const bodyIndent = ' '.repeat(body[0]?.indent ?? indent + 4)
+      const docstring = body[0] && isDocstring(body[0].raw) ? lines(body[0]) : []
+      out.push(...docstring)
+
+      if (def[1] === 'class') {
+        const before = out.length
+        outlinePythonBlock(physical, statements, k + 1 + (docstring.length > 0 ? 1 : 0), blockEnd, true, out)
+        if (hasBlock && out.length === before && docstring.length === 0) out.push(`${bodyIndent}${PYTHON_BODY}`)
+      } else if (hasBlock) {
+        out.push(`${bodyIndent}${PYTHON_BODY}`)
+      }
+
+      k = blockEnd - 1
+      continue
+    }
+
+    pending = []
+
+    // Public names: module-level assignments and class attributes (annotated or not)
+    const assignment = code.match(/^([A-Za-z_]\w*)\s*(?::\s*[^=\s][^=]*)?=(?!=)|^([A-Za-z_]\w*)\s*:\s*[^=\s][^=]*$/)
+    const name = assignment?.[1] ?? assignment?.[2]
+    if (name && !isPrivatePythonName(name)) {
+      const value = lines(statement)
+      out.push(value.length > 1 ? `${value[0]} ...` : value[0].slice(0, MAX_VALUE_CHARS))
+    }
+
+    k = blockEnd - 1
+  }
+}
+
+// _name is private by convention; __dunder__ names are not
+function isPrivatePythonName(name: string): boolean {
+  return name.startsWith('_') && !/^__\w+__$/.test(name)
+}
+
+function isDocstring(raw: string): boolean {
+  return /^[rRuUbBfF]{0,2}("""|'''|"|')/.test(raw)
+}
+
+/**
+ * Group physical lines into statements: open brackets, triple-quoted strings
+ * and backslash continuations keep a statement going. Blank and comment-only
+ * lines are left out.
+ */
+function scanPython(physical: string[]): PythonStatement[] {
+  const statements: PythonStatement[] = []
+  let depth = 0
+  let quote: string | null = null // open string delimiter
+  let current: PythonStatement | null = null
+
+  physical.forEach((text, n) => {
+    let code = ''
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (quote) {
+        if (char === '\\') {
+          code += '  '
+          i++
+        } else if (text.startsWith(quote, i)) {
+          code += ' '.repeat(quote.length)
+          i += quote.length - 1
+          quote = null
+        } else {
+          code += ' '
+        }
+      } else if (char === '#') {
+        break
+      } else if (char === '"' || char === "'") {
+        quote = text.startsWith(char.repeat(3), i) ? char.repeat(3) : char
+        code += ' '.repeat(quote.length)
+        i += quote.length - 1
+      } else {
+        if ('([{'.includes(char)) depth++
+        else if (')]}'.includes(char)) depth = Math.max(0, depth - 1)
+        code += char
+      }
+    }
+    if (quote && quote.length === 1) quote = null // unterminated single-line string
+
+    if (!current) {
+      if (!text.trim() || text.trim().startsWith('#')) return // blank or comment-only
+      current = { start: n, end: n, indent: text.length - text.trimStart().length, code, raw: text.trim() }
+    }
+    current.end = n
+
+    if (depth === 0 && !quote && !code.trimEnd().endsWith('\\')) {
+      statements.push(current)
+      current = null
+    }
+  })
+
+  if (current) statements.push(current)
+  return statements
+}
+
+function indentOf(text: string): string {
+  return text.slice(0, text.length - text.trimStart().length)
+}
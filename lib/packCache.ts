@@ -4,7 +4,7 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb'
-import type { CachedPack, CacheLookupResult, CacheStats, SliceConfig } from './types'
+import type { CachedPack, CacheLookupResult, CacheStats, FileManifestEntry, SliceConfig } from './types'
 import { CACHE_CONFIG } from './config'
 
 let dbInstance: IDBPDatabase | null = null
@@ -63,6 +63,7 @@ export function buildCacheKey(
 /**
  * Hash slice config for cache key
  * Uses FNV-1a hash (deterministic, browser-safe)
+ * Pass the repo's effective config (selectionSliceConfig) so per-repo overrides get their own entries
  */
 export function hashSliceConfig(config: SliceConfig): string {
   // Normalize config for deterministic hashing
@@ -72,12 +73,21 @@ export function hashSliceConfig(config: SliceConfig): string {
     respectGitignore: config.respectGitignore ?? true,
     respectAiIgnore: config.respectAiIgnore ?? true,
     useDefaultPatterns: config.useDefaultPatterns ?? true,
+    outputStyle: config.outputStyle ?? 'xml',
+    redactSecrets: config.redactSecrets ?? true,
+    entryPoints: (config.entryPoints || []).filter(Boolean).sort(),
+    importDepth: config.entryPoints?.some(Boolean) ? config.importDepth ?? 3 : undefined,
     reducers: {
       compress: config.reducers?.compress ?? false,
       removeComments: config.reducers?.removeComments ?? false,
       removeEmptyLines: config.reducers?.removeEmptyLines ?? false,
       truncateBase64: config.reducers?.truncateBase64 ?? false,
+      outline: config.reducers?.outline ?? false,
     },
+    fullContentGlobs: config.reducers?.outline ? [...(config.fullContentGlobs || [])].sort() : [],
+    commitLog: config.commitLog ?? 0,
+    fileHistory: config.fileHistory ?? false,
+    sortByRecentChanges: config.sortByRecentChanges ?? false,
   }
 
   const json = JSON.stringify(normalized)
@@ -164,6 +174,7 @@ export async function storeInCache(
   sliceConfig: SliceConfig,
   packedOutput: string,
   stats: { fileCount: number; approxChars: number; approxTokens: number },
+  files?: FileManifestEntry[],
   geminiTokens?: number
 ): Promise<void> {
   try {
@@ -191,6 +202,7 @@ export async function storeInCache(
       sliceConfigHash: hashSliceConfig(sliceConfig),
       packedOutput,
       stats,
+      files,
       geminiTokens,
       cachedAt: Date.now(),
       lastAccessedAt: Date.now(),
@@ -11,14 +11,18 @@ import {
   getCacheStats,
   clearCache as clearCacheDB,
 } from './packCache'
-import type { SliceConfig, PackResult, PackedRepo, CacheStats, CacheLookupResult } from './types'
+import { buildFileManifest } from './packFormat'
+import { summarizeRedactions } from './redaction'
+import { isChangesetSelection, selectionSliceConfig } from './changeset'
+import type { SliceConfig, PackResult, PackedRepo, CacheStats, CacheLookupResult, RepoSelection } from './types'
 
 /**
  * Fetch current commit SHAs for repos from GitHub API
  */
 export async function fetchRepoSHAs(
-  repos: Array<{ fullName: string; branch: string }>,
-  githubToken?: string
+  repos: RepoSelection[], // pinned selections come back keyed by their "branch@ref" label
+  githubToken?: string,
+  githubHost?: string // Web URL of a GitHub Enterprise host the server lists; omit for the deployment's
 ): Promise<Record<string, { sha: string; branch: string }>> {
   if (typeof window === 'undefined') return {}
 
@@ -28,6 +32,7 @@ export async function fetchRepoSHAs(
       headers: {
         'Content-Type': 'application/json',
         ...(githubToken && { 'x-github-token': githubToken }),
+        ...(githubHost && { 'x-github-host': githubHost }),
       },
       body: JSON.stringify({ repos }),
     })
@@ -51,7 +56,7 @@ export async function fetchRepoSHAs(
  * Otherwise returns partial info about cache status
  */
 export async function checkPackCache(
-  repos: Array<{ fullName: string; branch: string }>,
+  repos: RepoSelection[],
   sliceConfig: SliceConfig,
   currentSHAs: Record<string, { sha: string; branch: string }>
 ): Promise<{
@@ -74,16 +79,19 @@ export async function checkPackCache(
     // Check cache for each repo
     for (const repo of repos) {
       const shaInfo = currentSHAs[repo.fullName]
-      if (!shaInfo) {
+      // PR/compare packs aren't cached - the key only knows branch + SHA
+      // Nor are threads here; they're cached server-side on their own freshness key
+      if (!shaInfo || isChangesetSelection(repo) || repo.threads) {
         missCount++
         continue
       }
 
+      const repoConfig = selectionSliceConfig(repo, sliceConfig) // Per-repo override, if any
       const lookupResult = await lookupCache(
         repo.fullName,
         shaInfo.branch, // Use resolved branch from SHA fetch, not original (might be undefined)
         shaInfo.sha,
-        sliceConfig
+        repoConfig
       )
 
       lookupResults[repo.fullName] = lookupResult
@@ -95,7 +103,14 @@ export async function checkPackCache(
           repo: lookupResult.cached.repoFullName,
           branch: lookupResult.cached.branch,
           output: lookupResult.cached.packedOutput,
+          outputStyle: sliceConfig.outputStyle ?? 'xml',
+          commitSha: shaInfo.sha,
           stats: lookupResult.cached.stats,
+          files: lookupResult.cached.files
+            ?? buildFileManifest(lookupResult.cached.packedOutput, sliceConfig.outputStyle),
+          redactions: repoConfig.redactSecrets === false
+            ? undefined
+            : summarizeRedactions(lookupResult.cached.packedOutput, sliceConfig.outputStyle),
         })
       } else if (lookupResult.status === 'stale') {
         staleCount++
@@ -152,7 +167,7 @@ export async function checkPackCache(
  * Store pack result in cache after successful pack
  */
 export async function storePackResult(
-  repos: Array<{ fullName: string; branch: string }>,
+  repos: RepoSelection[],
   sliceConfig: SliceConfig,
   packResult: PackResult,
   currentSHAs: Record<string, { sha: string; branch: string }>
@@ -163,6 +178,8 @@ export async function storePackResult(
     // Store each successful repo in cache
     for (const packedRepo of packResult.repos) {
       if (packedRepo.error) continue // Skip failed repos
+      if (packedRepo.changes) continue // PR/compare packs aren't cached
+      if (packedRepo.threads) continue // Nor packs with threads (their stats count the threads)
 
       const shaInfo = currentSHAs[packedRepo.repo]
       if (!shaInfo) {
@@ -170,13 +187,15 @@ export async function storePackResult(
         continue
       }
 
+      const selection = repos.find(r => r.fullName === packedRepo.repo)
       await storeInCache(
         packedRepo.repo,
         packedRepo.branch,
         shaInfo.sha,
-        sliceConfig,
+        selection ? selectionSliceConfig(selection, sliceConfig) : sliceConfig,
         packedRepo.output,
-        packedRepo.stats
+        packedRepo.stats,
+        packedRepo.files
       )
     }
 
@@ -0,0 +1,393 @@
+/**
+ * Packed Output Format Utilities
+ *
+ * Pure functions for reading Repomix output in any supported style.
+ * Works in both client and server environments (no Node.js dependencies).
+ */
+
+import { FileManifestEntry, OutputStyle } from './types'
+
+export interface PackedFile {
+  path: string
+  content: string
+}
+
+/**
+ * File extension and MIME type per output style
+ * Used for downloads and for Repomix's temp output file
+ */
+export const OUTPUT_STYLE_FILES: Record<OutputStyle, { label: string; extension: string; mimeType: string }> = {
+  xml: { label: 'XML', extension: 'xml', mimeType: 'application/xml' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  plain: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+}
+
+// Repomix plain style separators (see repomix plainStyle template)
+const PLAIN_SEPARATOR = '='.repeat(16)
+const PLAIN_LONG_SEPARATOR = '='.repeat(64)
+
+/**
+ * Split packed output into its individual files
+ * Returns files in the order Repomix emitted them
+ */
+export function parsePackedFiles(output: string, style: OutputStyle = 'xml'): PackedFile[] {
+  switch (style) {
+    case 'xml':
+      return [...output.matchAll(/<file path="([^"]+)">\n([\s\S]*?)\n?<\/file>/g)].map(match => ({
+        path: match[1],
+        content: match[2],
+      }))
+
+    case 'markdown':
+      // Repomix widens the fence when file content contains backticks, so match the same fence on close
+      return [...output.matchAll(/^## File: (.+)\n(`{3,})[^\n]*\n([\s\S]*?)\n?\2$/gm)].map(match => ({
+        path: match[1],
+        content: match[3],
+      }))
+
+    case 'plain': {
+      const headerPattern = new RegExp(`^${PLAIN_SEPARATOR}\\nFile: (.+)\\n${PLAIN_SEPARATOR}\\n`, 'gm')
+      const headers = selectPlainHeaders(
+        [...output.matchAll(headerPattern)],
+        parseTreePaths(extractDirectoryStructure(output, 'plain') ?? '')
+      )
+
+      return headers.map((match, i) => {
+        const start = match.index! + match[0].length
+        const next = headers[i + 1]
+        let end = next ? next.index! : output.length
+
+        // Last file runs until the next top-level section (git logs, instruction, end marker)
+        if (!next) {
+          const sectionStart = output.indexOf(`\n${PLAIN_LONG_SEPARATOR}\n`, start)
+          if (sectionStart !== -1) end = sectionStart
+        }
+
+        return {
+          path: match[1],
+          content: output.slice(start, end).replace(/\n+$/, ''),
+        }
+      })
+    }
+
+    case 'json': {
+      const parsed = parseJsonOutput(output)
+      const files = parsed?.files && typeof parsed.files === 'object' ? parsed.files : {}
+      return Object.entries(files as Record<string, unknown>).map(([path, content]) => ({
+        path,
+        content: typeof content === 'string' ? content : '',
+      }))
+    }
+  }
+}
+
+/**
+ * Rewrite each file's content in packed output, leaving everything else as-is
+ * File contents are verbatim substrings of the output (in order), except JSON which is re-serialized
+ */
+export function mapPackedFileContents(
+  output: string,
+  style: OutputStyle,
+  transform: (file: PackedFile) => string
+): string {
+  if (style === 'json') {
+    const parsed = parseJsonOutput(output)
+    if (!parsed?.files || typeof parsed.files !== 'object') return output
+
+    for (const [path, content] of Object.entries(parsed.files as Record<string, unknown>)) {
+      if (typeof content === 'string') parsed.files[path] = transform({ path, content })
+    }
+    return JSON.stringify(parsed, null, 2) // Same formatting Repomix uses
+  }
+
+  let result = ''
+  let cursor = 0
+
+  for (const file of parsePackedFiles(output, style)) {
+    const start = output.indexOf(file.content, cursor)
+    if (start === -1 || !file.content) continue
+
+    result += output.slice(cursor, start) + transform(file)
+    cursor = start + file.content.length
+  }
+
+  return result + output.slice(cursor)
+}
+
+/**
+ * Put packed files in a new order, leaving everything around them as-is
+ * The separators between file entries stay where they were; JSON is re-serialized
+ *
+ * @param order - Paths in the wanted order; files not listed keep their relative order after them
+ */
+export function reorderPackedFiles(output: string, style: OutputStyle, order: string[]): string {
+  const rank = new Map(order.map((path, i) => [path, i]))
+  const byRank = <T>(entries: T[], pathOf: (entry: T) => string) =>
+    entries
+      .map((entry, i) => ({ entry, i }))
+      .sort((a, b) =>
+        (rank.get(pathOf(a.entry)) ?? order.length + a.i) - (rank.get(pathOf(b.entry)) ?? order.length + b.i)
+      )
+      .map(({ entry }) => entry)
+
+  if (style === 'json') {
+    const parsed = parseJsonOutput(output)
+    if (!parsed?.files || typeof parsed.files !== 'object') return output
+
+    parsed.files = Object.fromEntries(byRank(Object.entries(parsed.files as Record<string, unknown>), ([path]) => path))
+    return JSON.stringify(parsed, null, 2) // Same formatting Repomix uses
+  }
+
+  // Each entry runs from its header to the end of its content (plus the closing tag or fence)
+  const closers: Record<Exclude<OutputStyle, 'json'>, RegExp> = {
+    xml: /^\n?<\/file>/,
+    markdown: /^\n?`{3,}/,
+    plain: /^/,
+  }
+  const headers: Record<Exclude<OutputStyle, 'json'>, (path: string) => string> = {
+    xml: path => `<file path="${path}">`,
+    markdown: path => `## File: ${path}`,
+    plain: path => `${PLAIN_SEPARATOR}\nFile: ${path}`,
+  }
+
+  const entries: Array<{ path: string; start: number; end: number }> = []
+  let cursor = 0
+  for (const file of parsePackedFiles(output, style)) {
+    const header = headers[style](file.path)
+    const start = output.indexOf(header, cursor)
+    if (start === -1) return output
+    const contentStart = file.content ? output.indexOf(file.content, start + header.length) : start + header.length
+    const contentEnd = contentStart + file.content.length
+    const end = contentEnd + (output.slice(contentEnd).match(closers[style])?.[0].length ?? 0)
+    entries.push({ path: file.path, start, end })
+    cursor = end
+  }
+  if (entries.length < 2) return output
+
+  const sorted = byRank(entries, entry => entry.path)
+  let result = output.slice(0, entries[0].start)
+  sorted.forEach((entry, i) => {
+    result += output.slice(entry.start, entry.end)
+    if (i < entries.length - 1) result += output.slice(entries[i].end, entries[i + 1].start)
+  })
+  return result + output.slice(entries[entries.length - 1].end)
+}
+
+/**
+ * Make file paths relative to a sub-directory the pack was scoped to
+ * Rewrites file headers and the directory tree; every packed file must live under subPath
+ */
+export function relativizePackedPaths(output: string, style: OutputStyle, subPath: string): string {
+  const prefix = `${subPath.replace(/\/+$/, '')}/`
+  const depth = prefix.split('/').length - 1
+  const strip = (path: string) => (path.startsWith(prefix) ? path.slice(prefix.length) : path)
+
+  // Tree lines are indented two spaces per level; drop the prefix directories and dedent the rest
+  const relativizeTree = (tree: string) =>
+    tree
+      .split('\n')
+      .filter(line => line.length - line.trimStart().length >= depth * 2)
+      .map(line => line.slice(depth * 2))
+      .join('\n')
+
+  if (style === 'json') {
+    const parsed = parseJsonOutput(output)
+    if (!parsed) return output
+
+    if (parsed.files && typeof parsed.files === 'object') {
+      parsed.files = Object.fromEntries(
+        Object.entries(parsed.files as Record<string, unknown>).map(([path, content]) => [strip(path), content])
+      )
+    }
+    if (typeof parsed.directoryStructure === 'string') {
+      parsed.directoryStructure = relativizeTree(parsed.directoryStructure.replace(/^\n+/, ''))
+    }
+    return JSON.stringify(parsed, null, 2) // Same formatting Repomix uses
+  }
+
+  // File headers live between file contents; contents are left untouched
+  const headerPatterns: Record<Exclude<OutputStyle, 'json'>, RegExp> = {
+    xml: /(<file path=")([^"]+)(")/g,
+    markdown: /^(## File: )(.+)()$/gm,
+    plain: new RegExp(`^(${PLAIN_SEPARATOR}\\nFile: )(.+)()$`, 'gm'),
+  }
+  const rewriteHeaders = (text: string) =>
+    text.replace(headerPatterns[style], (_match, open: string, path: string, close: string) => `${open}${strip(path)}${close}`)
+
+  let result = ''
+  let cursor = 0
+  for (const file of parsePackedFiles(output, style)) {
+    const start = output.indexOf(file.content, cursor)
+    if (start === -1 || !file.content) continue // Empty files' headers are rewritten with the next chunk
+
+    result += rewriteHeaders(output.slice(cursor, start)) + file.content
+    cursor = start + file.content.length
+  }
+  result += rewriteHeaders(output.slice(cursor))
+
+  const tree = extractDirectoryStructure(result, style)
+  return tree ? result.replace(tree, () => relativizeTree(tree)) : result
+}
+
+/**
+ * Build a per-file size breakdown from packed output
+ * Token counts are estimates (chars / 4), same as the repo totals
+ */
+export function buildFileManifest(output: string, style: OutputStyle = 'xml'): FileManifestEntry[] {
+  return parsePackedFiles(output, style).map(file => ({
+    path: file.path,
+    chars: file.content.length,
+    approxTokens: Math.ceil(file.content.length / 4),
+    language: detectLanguage(file.path),
+  }))
+}
+
+// Extension -> display language, for grouping in the file breakdown
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  rs: 'Rust',
+  go: 'Go',
+  sol: 'Solidity',
+  java: 'Java',
+  kt: 'Kotlin',
+  swift: 'Swift',
+  rb: 'Ruby',
+  php: 'PHP',
+  c: 'C',
+  h: 'C',
+  cpp: 'C++',
+  cs: 'C#',
+  css: 'CSS',
+  scss: 'SCSS',
+  html: 'HTML',
+  md: 'Markdown',
+  mdx: 'Markdown',
+  json: 'JSON',
+  yaml: 'YAML',
+  yml: 'YAML',
+  toml: 'TOML',
+  sql: 'SQL',
+  sh: 'Shell',
+  prisma: 'Prisma',
+  graphql: 'GraphQL',
+  proto: 'Protobuf',
+  svg: 'SVG',
+}
+
+/**
+ * Guess a file's language from its name
+ * @returns Display name, or "Other" for unknown extensions
+ */
+export function detectLanguage(path: string): string {
+  const name = path.split('/').pop() || path
+  if (name === 'Dockerfile') return 'Dockerfile'
+  if (name === 'Makefile') return 'Makefile'
+
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+  return LANGUAGES_BY_EXTENSION[extension] || 'Other'
+}
+
+/**
+ * Pick the real file headers out of plain output
+ *
+ * Plain style has no escaping, so a file that itself contains a packed repo
+ * (e.g. a committed repomix-output.txt) repeats the header syntax. Repomix
+ * emits files in directory-tree order, so walk the tree backwards and take the
+ * latest header for each path that still precedes the next file's header.
+ * Falls back to every header when the output doesn't follow tree order.
+ */
+function selectPlainHeaders(headers: RegExpMatchArray[], treePaths: string[]): RegExpMatchArray[] {
+  if (treePaths.length === 0) return headers
+
+  const selected: RegExpMatchArray[] = []
+  let before = Infinity
+
+  for (let i = treePaths.length - 1; i >= 0; i--) {
+    const candidate = headers.findLast(match => match[1] === treePaths[i] && match.index! < before)
+    if (!candidate) return headers
+
+    selected.unshift(candidate)
+    before = candidate.index!
+  }
+
+  return selected
+}
+
+/**
+ * Convert a Repomix directory tree into file paths (directories omitted)
+ * Tree lines are indented two spaces per level, directories end with "/"
+ */
+export function parseTreePaths(tree: string): string[] {
+  const paths: string[] = []
+  const dirs: string[] = []
+
+  for (const line of tree.split('\n')) {
+    if (!line.trim()) continue
+
+    const depth = Math.floor((line.length - line.trimStart().length) / 2)
+    const name = line.trim()
+    dirs.length = depth
+
+    if (name.endsWith('/')) {
+      dirs.push(name.slice(0, -1))
+    } else {
+      paths.push([...dirs, name].join('/'))
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Extract the directory tree Repomix renders at the top of the output
+ * @returns Tree as plain text, or null if the section is missing
+ */
+export function extractDirectoryStructure(output: string, style: OutputStyle = 'xml'): string | null {
+  switch (style) {
+    case 'xml': {
+      const match = output.match(/<directory_structure>\s*([\s\S]*?)\s*<\/directory_structure>/)
+      return match ? match[1].trim() : null
+    }
+
+    case 'markdown': {
+      const match = output.match(/^# Directory Structure\n```\n([\s\S]*?)\n```/m)
+      return match ? match[1].trim() : null
+    }
+
+    case 'plain': {
+      const header = `${PLAIN_LONG_SEPARATOR}\nDirectory Structure\n${PLAIN_LONG_SEPARATOR}\n`
+      const start = output.indexOf(header)
+      if (start === -1) return null
+
+      const contentStart = start + header.length
+      const end = output.indexOf(`\n${PLAIN_LONG_SEPARATOR}\n`, contentStart)
+      return output.slice(contentStart, end === -1 ? undefined : end).trim()
+    }
+
+    case 'json': {
+      const parsed = parseJsonOutput(output)
+      return typeof parsed?.directoryStructure === 'string' ? parsed.directoryStructure.trim() : null
+    }
+  }
+}
+
+/**
+ * Parse Repomix JSON output, tolerating truncated or invalid documents
+ */
+export function parseJsonOutput(output: string): Record<string, any> | null {
+  try {
+    const parsed = JSON.parse(output)
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
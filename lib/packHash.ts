@@ -21,6 +21,11 @@ export function generatePackHash(
     respectGitignore: sliceConfig.respectGitignore ?? true,
     respectAiIgnore: sliceConfig.respectAiIgnore ?? true,
     useDefaultPatterns: sliceConfig.useDefaultPatterns ?? true,
+    // Import-graph slices only, so existing hashes (and their conversations) stay put
+    ...(sliceConfig.entryPoints?.some(Boolean) && {
+      entryPoints: sliceConfig.entryPoints.filter(Boolean).sort(),
+      importDepth: sliceConfig.importDepth ?? 3,
+    }),
     // Reducers excluded intentionally - they don't change the context structure
   })
 
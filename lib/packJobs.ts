@@ -0,0 +1,166 @@
+/**
+ * Background Pack Jobs (server-side)
+ *
+ * Runs pack requests in-process after the response is sent, with a shared
+ * limit on concurrent repo packs. State lives in Postgres (or memory in local
+ * mode) so the client can poll, close the tab and pick the job up later.
+ * Finished repos land in the shared pack cache the same way /api/pack does.
+ */
+
+import { packRequest, PackRequestBody } from './packRunner'
+import { buildPackResult, repoProgress, type RepoStage } from './packResult'
+import { GitHubClient } from './github'
+import { PACK_JOB_CONFIG } from './config'
+import * as packJobsDb from './db/packJobs.server'
+import type { GitHubHost, PackedRepo, PackJob } from './types'
+
+/**
+ * Limit how many tasks run at once; the rest wait in FIFO order
+ */
+function createLimiter(maxConcurrent: number) {
+  let active = 0
+  const waiting: Array<() => void> = []
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= maxConcurrent) {
+      await new Promise<void>(resolve => waiting.push(resolve))
+    }
+    active++
+    try {
+      return await task()
+    } finally {
+      active--
+      waiting.shift()?.()
+    }
+  }
+}
+
+// Shared by every job in this process
+const limitPack = createLimiter(PACK_JOB_CONFIG.maxConcurrentPacks)
+
+/**
+ * Queue a pack job for a requester
+ * Call runPackJob with the returned ID to do the work (after the response is sent)
+ *
+ * @param ownerKey - See getRequesterKey; only this requester can poll the job
+ */
+export async function createPackJob(body: PackRequestBody, ownerKey: string | null): Promise<PackJob> {
+  const job = await packJobsDb.createJob(body, ownerKey)
+  console.log(`[packJobs] Queued ${job.id} (${body.repos.length} repos)`)
+  return job
+}
+
+/**
+ * The request's credentials, held in memory for the job's run only
+ */
+export interface PackJobCredentials {
+  githubToken: string
+  githubHost?: GitHubHost
+  githubAppLogin?: string | null // see PackRunContext
+  gitlabToken?: string
+}
+
+/**
+ * Run a queued job to completion, saving progress as repos finish
+ * Never throws: failures are recorded on the job. Once the job is finished
+ * (including failed by getPackJob's stale check) later writes are ignored
+ */
+export async function runPackJob(
+  id: string,
+  body: PackRequestBody,
+  { githubToken, githubHost, githubAppLogin, gitlabToken }: PackJobCredentials
+): Promise<void> {
+  // Tracked per selection (the same repo can be selected twice, e.g. at two refs)
+  const stages: RepoStage[] = body.repos.map(() => 'queued')
+  const finished: Array<PackedRepo | undefined> = []
+  const progress = () => repoProgress(body.repos.map(r => r.fullName), stages)
+  const partialResult = () => buildPackResult(body.repos.flatMap((_, index) => finished[index] ?? []))
+
+  // Stage changes are frequent; batch them into one write per flush interval
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  let writes = Promise.resolve()
+  const save = (update: packJobsDb.PackJobUpdate) => {
+    writes = writes
+      .then(async () => { await packJobsDb.updateJob(id, update) })
+      .catch(error => console.error(`[packJobs] Failed to save ${id}:`, error))
+    return writes
+  }
+  const scheduleFlush = () => {
+    if (flushTimer) return
+    flushTimer = setTimeout(() => {
+      flushTimer = null
+      save({ progress: progress() })
+    }, PACK_JOB_CONFIG.progressFlushMs)
+  }
+  const cancelFlush = () => {
+    if (flushTimer) clearTimeout(flushTimer)
+    flushTimer = null
+  }
+
+  // Keep updatedAt fresh while repos wait in limitPack's queue or pack slowly,
+  // so polls don't mistake a live job for a stale one
+  const heartbeat = setInterval(() => save({}), PACK_JOB_CONFIG.heartbeatMs)
+
+  try {
+    await save({ status: 'running' })
+    console.log(`[packJobs] Running ${id}`)
+
+    const result = await packRequest(
+      body,
+      {
+        github: new GitHubClient(githubToken, githubHost),
+        githubToken,
+        githubAppLogin,
+        gitlabToken,
+        limit: limitPack,
+        onProgress: (_repo, stage, _commitSha, index) => {
+          stages[index!] = stage
+          scheduleFlush()
+        },
+      },
+      (packed, index) => {
+        stages[index] = packed.error ? 'error' : 'done'
+        finished[index] = packed
+        cancelFlush()
+        save({ progress: progress(), result: partialResult() })
+      }
+    )
+
+    cancelFlush()
+    await save({ status: 'done', progress: progress(), result })
+    console.log(`[packJobs] ✓ ${id} (${result.repos.length - result.errors.length}/${result.repos.length} repos)`)
+  } catch (error) {
+    cancelFlush()
+    console.error(`[packJobs] ✗ ${id} failed:`, error)
+    await save({
+      status: 'failed',
+      progress: progress(),
+      result: partialResult(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+/**
+ * Get a job for polling by the requester who started it
+ * Unfinished jobs that stopped updating are reported as failed: the process
+ * running them is gone (restart, or the platform's time limit)
+ */
+export async function getPackJob(id: string, ownerKey: string | null): Promise<PackJob | null> {
+  const job = await packJobsDb.getJob(id, ownerKey)
+  if (!job) return null
+
+  const isActive = job.status === 'queued' || job.status === 'running'
+  if (isActive && Date.now() - job.updatedAt > PACK_JOB_CONFIG.staleAfterMs) {
+    const error = 'Job stopped before finishing (server restarted or timed out). Start a new pack.'
+    if (await packJobsDb.updateJob(id, { status: 'failed', error })) {
+      return { ...job, status: 'failed', error }
+    }
+    // Finished between the read and the update
+    return packJobsDb.getJob(id, ownerKey)
+  }
+
+  return job
+}
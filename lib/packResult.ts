@@ -0,0 +1,161 @@
+/**
+ * Pack Result Assembly
+ *
+ * Builds a PackResult from packed repos, on the server (POST /api/pack) and in
+ * the browser while reading POST /api/pack/stream or polling a background job.
+ * Works in both client and server environments (no Node.js dependencies).
+ */
+
+import type { PackedRepo, PackJob, PackResult, PackStreamEvent } from './types'
+
+/**
+ * Collect errors and aggregate stats from successful repos
+ */
+export function buildPackResult(repos: PackedRepo[], budget?: PackResult['budget']): PackResult {
+  const errors = repos
+    .filter(r => r.error)
+    .map(r => `${r.repo}: ${r.error}`)
+
+  const totalStats = repos
+    .filter(r => !r.error)
+    .reduce(
+      (acc, repo) => ({
+        fileCount: acc.fileCount + repo.stats.fileCount,
+        approxChars: acc.approxChars + repo.stats.approxChars,
+        approxTokens: acc.approxTokens + repo.stats.approxTokens,
+      }),
+      { fileCount: 0, approxChars: 0, approxTokens: 0 }
+    )
+
+  return { repos, totalStats, budget, errors }
+}
+
+export type RepoStage = PackJob['progress'][string]
+
+const isFinished = (stage: RepoStage) => stage === 'done' || stage === 'error'
+
+/**
+ * Per-repo progress from per-selection stages (the same repo can be selected twice, e.g. at two refs)
+ * A repo selected more than once shows its first unfinished selection, then
+ * 'error' if any of them failed
+ *
+ * @param repoOrder - Selection fullNames, in request order (the stages' indexes)
+ */
+export function repoProgress(repoOrder: string[], stages: RepoStage[]): PackJob['progress'] {
+  const progress: PackJob['progress'] = {}
+  repoOrder.forEach((fullName, index) => {
+    const current = progress[fullName]
+    const stage = stages[index]
+    if (!current || (isFinished(current) && (!isFinished(stage) || stage === 'error'))) {
+      progress[fullName] = stage
+    }
+  })
+  return progress
+}
+
+/**
+ * Read a POST /api/pack/stream response to the end
+ *
+ * @param repoOrder - Selection fullNames; results keep this order whatever order repos finish in
+ * @param onEvent - Called per event with the result so far (finished repos only) and per-repo progress
+ * @returns The final result
+ * @throws Error on an error event, or if the stream ends without completing
+ */
+export async function readPackStream(
+  response: Response,
+  repoOrder: string[],
+  onEvent?: (event: PackStreamEvent, partial: PackResult, progress: PackJob['progress']) => void
+): Promise<PackResult> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new Error('No response body')
+  }
+
+  // Tracked per selection index: two selections of one repo are separate results
+  const finished: Array<PackedRepo | undefined> = []
+  const stages: RepoStage[] = repoOrder.map(() => 'queued')
+  const current = () =>
+    buildPackResult(repoOrder.flatMap((_, index) => finished[index] ?? []))
+  const progress = () => repoProgress(repoOrder, stages)
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue
+      const eventData = line.slice(6).trim()
+      if (!eventData) continue
+
+      const event: PackStreamEvent = JSON.parse(eventData)
+
+      if (event.type === 'progress' && event.index !== undefined && event.stage) {
+        stages[event.index] = event.stage
+      } else if (event.type === 'repo' && event.index !== undefined && event.packed) {
+        finished[event.index] = event.packed
+        stages[event.index] = event.packed.error ? 'error' : 'done'
+      } else if (event.type === 'error') {
+        throw new Error(event.error || 'Pack failed')
+      }
+
+      if (event.type === 'complete' && event.result) {
+        const result = { ...current(), ...event.result }
+        onEvent?.(event, result, progress())
+        return result
+      }
+
+      onEvent?.(event, current(), progress())
+    }
+  }
+
+  throw new Error('Pack stream ended before completing')
+}
+
+/**
+ * Poll a background pack job (GET /api/pack/jobs/:id) until it finishes
+ * Aborting stops polling only; the job keeps running on the server
+ *
+ * @param onUpdate - Called with every poll's job (progress and finished repos so far)
+ * @param githubHost - The account's GitHub host, sent as X-GitHub-Host (see getGitHubHost)
+ * @returns The finished job: its result, and the selections and slice config it ran with
+ * @throws Error if the job failed or can't be found, AbortError if aborted
+ */
+export async function waitForPackJob(
+  id: string,
+  options: { signal?: AbortSignal; intervalMs?: number; onUpdate?: (job: PackJob) => void; githubHost?: string } = {}
+): Promise<PackJob> {
+  const { signal, intervalMs = 2000, onUpdate, githubHost } = options
+
+  while (true) {
+    const res = await fetch(`/api/pack/jobs/${encodeURIComponent(id)}`, {
+      signal,
+      headers: githubHost ? { 'X-GitHub-Host': githubHost } : {},
+    })
+    const json = await res.json()
+
+    if (!json.success) {
+      throw new Error(json.error)
+    }
+
+    const job: PackJob = json.data.job
+    onUpdate?.(job)
+
+    if (job.status === 'done') return job
+    if (job.status === 'failed') throw new Error(job.error || 'Pack job failed')
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, intervalMs)
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(new DOMException('Polling aborted', 'AbortError'))
+      }, { once: true })
+    })
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Pack Runner (server-side)
+ *
+ * Packs one repo selection with the shared cache: resolve the commit SHA,
+ * check Postgres, pack via Repomix, store, then fetch the selection's issues,
+ * pull requests and discussions if it asked for them. Shared by POST /api/pack
+ * (one JSON response) and POST /api/pack/stream (per-repo progress events).
+ */
+
+import { packRemoteRepo, packChangeset } from './repomix'
+import { isChangesetSelection, parseRepoSource, parseRepoTarget, selectionBranchLabel, selectionSliceConfig } from './changeset'
+import { buildFileManifest } from './packFormat'
+import { redactThreads, summarizeRedactions } from './redaction'
+import { fitToBudget, totalTokens } from './budget'
+import { MAX_IMPORT_DEPTH } from './importGraph'
+import { fetchRepoThreads, validateThreadFilter } from './threads'
+import { validateCommitLog } from './history'
+import { buildPackResult } from './packResult'
+import { GitHubClient } from './github'
+import { getMemberInstallationToken } from './githubApp'
+import { createSourceClient, isDeploymentGitHubHost } from './source'
+import { isServerMode } from './prisma'
+import { CACHE_CONFIG } from './config'
+import * as serverCache from './db/packCache.server'
+import { OUTPUT_STYLES, type PackedRepo, type PackRepoStage, type PackResult, type RepoSelection, type SliceConfig } from './types'
+
+export interface PackRunContext {
+  github: GitHubClient // on the account's GitHub host (github.host)
+  githubToken: string
+  githubAppLogin?: string | null // signed-in login: GitHub repos on owners they belong to use the app's installation (lib/githubApp.ts)
+  gitlabToken?: string // for "gitlab:" selections; public projects need none
+  signal?: AbortSignal
+  onProgress?: (repo: string, stage: PackRepoStage, commitSha?: string, index?: number) => void // index: the selection's position in the request (set by packRequest)
+  limit?: <T>(task: () => Promise<T>) => Promise<T> // bounds concurrent packs (background jobs)
+}
+
+export interface PackRequestBody {
+  repos: RepoSelection[]
+  sliceConfig: SliceConfig
+  tokenBudget?: number // fit-to-budget mode: shrink the pack to this many tokens
+}
+
+/**
+ * Validate a pack request body (shared by the JSON and streaming routes)
+ * @returns Error message and code, or null if valid
+ */
+export function validatePackRequest(body: PackRequestBody): { message: string; code: string } | null {
+  const { repos, sliceConfig, tokenBudget } = body
+
+  if (!repos || !Array.isArray(repos) || repos.length === 0) {
+    return { message: 'At least one repo required', code: 'MISSING_REPOS' }
+  }
+
+  if (sliceConfig?.outputStyle && !OUTPUT_STYLES.includes(sliceConfig.outputStyle)) {
+    return {
+      message: `Invalid output style "${sliceConfig.outputStyle}". Expected one of: ${OUTPUT_STYLES.join(', ')}`,
+      code: 'INVALID_OUTPUT_STYLE',
+    }
+  }
+
+  const { importDepth } = sliceConfig ?? {}
+  if (importDepth !== undefined && !(Number.isInteger(importDepth) && importDepth >= 0 && importDepth <= MAX_IMPORT_DEPTH)) {
+    return {
+      message: `Invalid import depth "${importDepth}". Expected an integer from 0 to ${MAX_IMPORT_DEPTH}.`,
+      code: 'INVALID_IMPORT_DEPTH',
+    }
+  }
+
+  const commitLogError = validateCommitLog(sliceConfig?.commitLog)
+  if (commitLogError) {
+    return { message: commitLogError, code: 'INVALID_COMMIT_LOG' }
+  }
+
+  if (tokenBudget !== undefined && !(Number.isInteger(tokenBudget) && tokenBudget > 0)) {
+    return { message: `Invalid token budget "${tokenBudget}". Expected a positive integer.`, code: 'INVALID_TOKEN_BUDGET' }
+  }
+
+  for (const repo of repos) {
+    const repoCommitLogError = validateCommitLog(repo.sliceConfig?.commitLog)
+    if (repoCommitLogError) {
+      return { message: `${repo.fullName}: ${repoCommitLogError}`, code: 'INVALID_COMMIT_LOG' }
+    }
+
+    if (repo.threads && parseRepoSource(repo.fullName).provider !== 'github') {
+      return { message: `${repo.fullName}: Issues, pull requests and discussions can only be packed for GitHub repos`, code: 'INVALID_THREAD_FILTER' }
+    }
+
+    const threadError = repo.threads && validateThreadFilter(repo.threads)
+    if (threadError) {
+      return { message: `${repo.fullName}: ${threadError}`, code: 'INVALID_THREAD_FILTER' }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Pack one repo selection, using the shared cache for whitelisted orgs
+ * Never throws: failures come back as a PackedRepo with `error`
+ * Thread failures don't fail the pack; they land in `threads.error`
+ *
+ * @param requestConfig - The request's slice config; the selection's override is merged in
+ */
+export async function packSelection(
+  repo: RepoSelection,
+  requestConfig: SliceConfig,
+  context: PackRunContext
+): Promise<PackedRepo> {
+  try {
+    context = await installationContext(repo, context)
+  } catch (error) {
+    return {
+      repo: repo.fullName,
+      branch: selectionBranchLabel(repo),
+      output: '',
+      stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+      error: error instanceof Error ? error.message : 'Unknown error',
+      cached: false,
+    }
+  }
+
+  const packed = await packSelectionCode(repo, requestConfig, context)
+  if (!repo.threads || packed.error || context.signal?.aborted) return packed
+
+  // Threads belong to the repo, so a sub-path target gets the whole repo's
+  context.onProgress?.(repo.fullName, 'threads')
+  const fetched = await fetchRepoThreads(
+    context.github,
+    parseRepoTarget(repo.fullName).repo,
+    repo.threads,
+    isSharedCacheRepo(repo.fullName, context)
+  )
+  // Cached unredacted, like packs' sources; redacted per selection
+  const threads = selectionSliceConfig(repo, requestConfig).redactSecrets === false ? fetched : redactThreads(fetched)
+
+  // Counted in the repo's stats, so the budget and totals see them
+  const threadChars = JSON.stringify(threads.threads).length
+  return {
+    ...packed,
+    stats: {
+      ...packed.stats,
+      approxChars: packed.stats.approxChars + threadChars,
+      approxTokens: packed.stats.approxTokens + Math.ceil(threadChars / 4),
+    },
+    threads,
+  }
+}
+
+/**
+ * In GitHub App mode, swap in the repo owner's installation token for a GitHub selection
+ * when the signed-in user belongs to the owner; otherwise the user's own token stays
+ * @throws Error when the membership or token lookup fails
+ */
+async function installationContext(repo: RepoSelection, context: PackRunContext): Promise<PackRunContext> {
+  const { provider, path } = parseRepoSource(parseRepoTarget(repo.fullName).repo)
+  if (!context.githubAppLogin || provider !== 'github') return context
+
+  const token = await getMemberInstallationToken(path.split('/')[0], context.githubAppLogin)
+  if (!token) return context
+  return { ...context, github: new GitHubClient(token, context.github.host), githubToken: token }
+}
+
+/**
+ * Check if a repo belongs to a whitelisted org for the shared Postgres caches
+ * Only the deployment's GitHub host counts: an org of the same name elsewhere is someone else's.
+ * GitHub App mode is no exception: other installed orgs' private packs stay out of the shared cache.
+ */
+function isSharedCacheRepo(fullName: string, context: PackRunContext): boolean {
+  if (!isDeploymentGitHubHost(context.github.host)) return false
+  const repoOwner = fullName.split('/')[0].toLowerCase()
+  return CACHE_CONFIG.sharedCacheOrgs.some(org => org.toLowerCase() === repoOwner)
+}
+
+/**
+ * Pack a selection's code (packSelection without threads)
+ */
+async function packSelectionCode(
+  repo: RepoSelection,
+  requestConfig: SliceConfig,
+  context: PackRunContext
+): Promise<PackedRepo> {
+  const { signal } = context
+  const progress = (stage: PackRepoStage, commitSha?: string) => context.onProgress?.(repo.fullName, stage, commitSha)
+
+  // Per-repo overrides are merged in before packing, so caches key on the effective config
+  const sliceConfig = selectionSliceConfig(repo, requestConfig)
+  // "owner/repo//packages/foo" packs one directory; caches key on the full target
+  const target = parseRepoTarget(repo.fullName)
+  const { provider } = parseRepoSource(target.repo)
+  const token = provider === 'gitlab' ? context.gitlabToken ?? '' : context.githubToken
+  const source = provider === 'gitlab' ? createSourceClient(provider, token) : context.github
+  const githubHost = context.github.host
+
+  // Pull requests and compare ranges are always packed fresh (cache keys are per branch)
+  if (isChangesetSelection(repo)) {
+    progress('resolving')
+    const packed = await packChangeset({
+      ...target,
+      pullRequest: repo.pullRequest,
+      compare: repo.compare,
+      includeUnchanged: repo.includeUnchanged,
+      token,
+      githubHost,
+      ...sliceConfig,
+      onProgress: progress,
+    }, signal)
+    return { ...packed, cached: false }
+  }
+
+  const branch = selectionBranchLabel(repo) // "branch@ref" when pinned, so caches key on the pin
+  try {
+    // Get current SHA for cache lookup
+    // Pinned selections resolve (and so validate) the tag/SHA instead of the branch head
+    progress('resolving')
+    const currentSHA = repo.ref
+      ? await source.resolveCommitSHA(target.repo, repo.ref)
+      : await source.fetchCurrentCommitSHA(target.repo, branch)
+    progress('resolved', currentSHA)
+
+    // Check if repo belongs to a whitelisted org for shared cache
+    // Personal repos still use browser IndexedDB, just not shared Postgres
+    const useSharedCache = isSharedCacheRepo(repo.fullName, context)
+
+    // Check shared cache (Postgres) for whitelisted org repos only
+    if (isServerMode && useSharedCache) {
+      const cacheResult = await serverCache.lookupCache(
+        repo.fullName,
+        branch,
+        currentSHA,
+        sliceConfig
+      )
+
+      if (cacheResult.status === 'fresh' && cacheResult.cached) {
+        console.log(`[packRunner] Cache HIT for ${repo.fullName}:${branch}`)
+        progress('cache-hit', currentSHA)
+        return {
+          repo: repo.fullName,
+          branch,
+          output: cacheResult.cached.packedOutput,
+          outputStyle: sliceConfig.outputStyle ?? 'xml',
+          commitSha: currentSHA,
+          stats: cacheResult.cached.stats,
+          files: cacheResult.cached.files
+            ?? buildFileManifest(cacheResult.cached.packedOutput, sliceConfig.outputStyle),
+          redactions: sliceConfig.redactSecrets === false
+            ? undefined
+            : summarizeRedactions(cacheResult.cached.packedOutput, sliceConfig.outputStyle),
+          cached: true,
+        }
+      }
+
+      // Stale cache - could use but we'll refresh
+      if (cacheResult.status === 'stale' && cacheResult.cached) {
+        console.log(`[packRunner] Cache STALE for ${repo.fullName}:${branch} (${cacheResult.daysBehind} days)`)
+        // Continue to pack fresh version
+      }
+    }
+    progress('cache-miss', currentSHA)
+
+    // Pack via Repomix at the resolved commit, so the pack matches its cache key
+    const packed = await packRemoteRepo({
+      ...target,
+      branch: repo.ref ? currentSHA : branch,
+      commitSha: currentSHA,
+      token,
+      githubHost,
+      ...sliceConfig,
+      onProgress: progress,
+    }, signal)
+
+    // Store in shared cache for whitelisted org repos only
+    if (isServerMode && useSharedCache && !packed.error) {
+      await serverCache.storeInCache(
+        repo.fullName,
+        branch,
+        currentSHA,
+        sliceConfig,
+        packed.output,
+        packed.stats,
+        packed.files
+      )
+      console.log(`[packRunner] Cached ${repo.fullName}:${branch} in Postgres`)
+    } else if (!useSharedCache) {
+      console.log(`[packRunner] ${repo.fullName} not in shared cache orgs, using browser cache only`)
+    }
+
+    return {
+      ...packed,
+      branch,
+      commitSha: currentSHA,
+      cached: false,
+    }
+  } catch (error) {
+    console.error(`[packRunner] Error packing ${repo.fullName}:`, error)
+    return {
+      repo: repo.fullName,
+      branch,
+      output: '',
+      stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+      error: error instanceof Error ? error.message : 'Unknown error',
+      cached: false,
+    }
+  }
+}
+
+/**
+ * Pack every selection in a request, then fit the token budget if one is set
+ *
+ * @param onRepo - Called as each repo finishes (first pass), and again with each fitted repo,
+ *   with the selection's index (the same repo can be selected twice, e.g. at two refs)
+ */
+export async function packRequest(
+  body: PackRequestBody,
+  context: PackRunContext,
+  onRepo?: (packed: PackedRepo, index: number) => void
+): Promise<PackResult> {
+  const limit = context.limit ?? (task => task())
+  const { onProgress } = context
+  const pack = (repo: RepoSelection, index: number, config: SliceConfig) => limit(() => packSelection(repo, config, {
+    ...context,
+    onProgress: onProgress && ((name, stage, commitSha) => onProgress(name, stage, commitSha, index)),
+  }))
+  const packAll = (config: SliceConfig) => Promise.all(body.repos.map((repo, index) => pack(repo, index, config)))
+
+  let packedRepos = await Promise.all(
+    body.repos.map(async (repo, index) => {
+      const packed = await pack(repo, index, body.sliceConfig)
+      onRepo?.(packed, index)
+      return packed
+    })
+  )
+  let budget: PackResult['budget']
+
+  if (body.tokenBudget && !context.signal?.aborted) {
+    const fitted = await fitToBudget(packedRepos, {
+      targetTokens: body.tokenBudget,
+      sliceConfig: body.sliceConfig,
+      repack: packAll,
+    })
+    packedRepos = fitted.repos
+    budget = fitted.budget
+    packedRepos.forEach((packed, index) => onRepo?.(packed, index))
+    console.log(`[packRunner] Budget ${body.tokenBudget}: ${fitted.budget.initialTokens} -> ${totalTokens(packedRepos)} tokens`)
+  }
+
+  return buildPackResult(packedRepos, budget)
+}
@@ -0,0 +1,108 @@
+/**
+ * Secret Redaction
+ *
+ * Fast regex pass over packed file contents that swaps likely credentials for
+ * "[REDACTED:<rule>]" placeholders before output leaves the server.
+ * Repomix's own security check (secretlint) is too slow to run per pack.
+ *
+ * Works in both client and server environments (no Node.js dependencies):
+ * reports are rebuilt from the placeholders, so cached packs need no extra storage.
+ */
+
+import { OutputStyle, RedactionEntry, RepoThreads } from './types'
+import { mapPackedFileContents, parsePackedFiles } from './packFormat'
+
+interface SecretRule {
+  id: string
+  pattern: RegExp // Must be global
+  keepPrefix?: boolean // Keep capture group 1 (e.g. the variable name) in front of the placeholder
+}
+
+// Uppercase env-style names that usually hold credentials
+const SECRET_NAME = '[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|PRIVATE_KEY|ACCESS_KEY|CREDENTIALS?)[A-Z0-9_]*'
+
+// Values that are obviously not real secrets
+const PLACEHOLDER_VALUE = '(?![Yy]our|[Ee]xample|[Cc]hangeme|[Pp]laceholder|x{4,}|\\*{4,}|\\[REDACTED)'
+
+const SECRET_RULES: SecretRule[] = [
+  { id: 'private-key', pattern: /-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END \1PRIVATE KEY\2-----/g },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: 'azure-storage-key', pattern: /(AccountKey=)[A-Za-z0-9+/]{40,}={0,2}/g, keepPrefix: true },
+  { id: 'gcp-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { id: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { id: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { id: 'openai-key', pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{32,}/g },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    // API_KEY=abc123..., export DB_PASSWORD="...", keeps the name and quotes
+    id: 'env-secret',
+    pattern: new RegExp(`^(\\s*(?:export\\s+)?${SECRET_NAME}\\s*=\\s*["']?)${PLACEHOLDER_VALUE}[^\\s"'#(){}$<>]{8,}`, 'gm'),
+    keepPrefix: true,
+  },
+]
+
+const PLACEHOLDER_PATTERN = /\[REDACTED:([a-z0-9-]+)\]/g
+
+/**
+ * Redact secrets in a single text
+ * @returns Redacted text and match counts per rule
+ */
+export function redactText(text: string): { text: string; counts: Record<string, number> } {
+  const counts: Record<string, number> = {}
+
+  const redacted = SECRET_RULES.reduce((current, rule) =>
+    current.replace(rule.pattern, (_match, prefix: unknown) => {
+      counts[rule.id] = (counts[rule.id] ?? 0) + 1
+      return `${rule.keepPrefix ? prefix : ''}[REDACTED:${rule.id}]`
+    }),
+    text
+  )
+
+  return { text: redacted, counts }
+}
+
+/**
+ * Redact secrets in every file of a packed output
+ * Only file contents are touched; headers and the directory tree are left as-is
+ */
+export function redactPackedOutput(output: string, style: OutputStyle = 'xml'): string {
+  return mapPackedFileContents(output, style, file => redactText(file.content).text)
+}
+
+/**
+ * Redact secrets in threads' titles, bodies and comments
+ */
+export function redactThreads(threads: RepoThreads): RepoThreads {
+  const clean = (text: string) => redactText(text).text
+  return {
+    ...threads,
+    threads: threads.threads.map(thread => ({
+      ...thread,
+      title: clean(thread.title),
+      body: clean(thread.body),
+      comments: thread.comments.map(comment => ({ ...comment, body: clean(comment.body) })),
+    })),
+  }
+}
+
+/**
+ * Per-file report of the placeholders in a (redacted) packed output
+ */
+export function summarizeRedactions(output: string, style: OutputStyle = 'xml'): RedactionEntry[] {
+  if (!output.includes('[REDACTED:')) return []
+
+  const entries: RedactionEntry[] = []
+
+  for (const file of parsePackedFiles(output, style)) {
+    const counts: Record<string, number> = {}
+    for (const match of file.content.matchAll(PLACEHOLDER_PATTERN)) {
+      counts[match[1]] = (counts[match[1]] ?? 0) + 1
+    }
+    for (const [rule, count] of Object.entries(counts)) {
+      entries.push({ path: file.path, rule, count })
+    }
+  }
+
+  return entries
+}
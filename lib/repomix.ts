@@ -1,154 +1,26 @@
-import { runRemoteAction, runDefaultAction, type CliOptions } from 'repomix'
-import { readFileSync, unlinkSync, mkdtempSync } from 'node:fs'
+import { runDefaultAction, type CliOptions } from 'repomix'
+import { readFileSync, writeFileSync, statSync, rmSync, mkdtempSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { SliceConfig, PackedRepo } from './types'
+import { minimatch } from 'minimatch'
+import { SliceConfig, PackedRepo, OutputStyle, ChangedFile, Changeset, RedactionEntry, PackRepoStage, AiIgnoreExclusion, GitHubHost } from './types'
 import { config } from './config'
-
-/**
- * Monkey-patch fetch to add GitHub authentication
- *
- * Repomix's archive download doesn't pass GITHUB_TOKEN in Authorization header,
- * causing 404 for private repos. This patch injects the token for all GitHub requests.
- *
- * See: https://github.com/vana-com/vana-source-query/issues/XXX
- */
-const originalFetch = global.fetch
-global.fetch = async function patchedFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
-  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
-
-  // Add Authorization header for GitHub API/archive requests if GITHUB_TOKEN exists
-  if (url.includes('github.com') && process.env.GITHUB_TOKEN) {
-    const headers = new Headers(init?.headers || {})
-
-    // Only add if not already present
-    if (!headers.has('authorization') && !headers.has('Authorization')) {
-      headers.set('Authorization', `Bearer ${process.env.GITHUB_TOKEN}`)
-    }
-
-    return originalFetch(input, { ...init, headers })
-  }
-
-  return originalFetch(input, init)
-} as typeof fetch
-
-/**
- * AI Ignore File Support
- *
- * Fetches and parses .aiignore files from GitHub repos.
- * Respects repo owner's intent about what should be excluded from LLM context.
- */
-
-/**
- * Fetch a single file from GitHub repository
- * @returns File contents as string, or null if file doesn't exist
- */
-async function fetchFileFromGitHub(
-  repo: string,
-  branch: string,
-  filename: string,
-  token?: string
-): Promise<string | null> {
-  try {
-    const url = `https://api.github.com/repos/${repo}/contents/${filename}?ref=${branch}`
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github.v3.raw',
-    }
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`
-    }
-
-    const response = await fetch(url, { headers })
-
-    if (response.status === 404) {
-      return null // File doesn't exist
-    }
-
-    if (!response.ok) {
-      console.warn(`[aiignore] Failed to fetch ${filename}: ${response.status}`)
-      return null
-    }
-
-    return await response.text()
-  } catch (error) {
-    console.warn(`[aiignore] Error fetching ${filename}:`, error)
-    return null
-  }
-}
-
-/**
- * Parse .aiignore content into patterns array
- * Uses gitignore syntax: lines starting with # are comments, empty lines ignored
- */
-function parseAiIgnorePatterns(content: string): string[] {
-  return content
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line && !line.startsWith('#'))
-}
-
-/**
- * Get AI ignore patterns from multiple AI ignore files in repo root
- *
- * Checks for multiple ignore file formats used by different AI tools:
- * - .aiignore (emerging industry standard - JetBrains, Cursor proposal)
- * - .aiexclude (Google Gemini Code Assist)
- * - .cursorignore (Cursor IDE)
- * - .codeiumignore (Codeium)
- * - .agentignore (generic)
- * - .geminiignore (Google Gemini)
- *
- * All use gitignore syntax. Patterns are merged if multiple files exist.
- *
- * @returns Array of ignore patterns, empty if no files exist
- */
-async function getAiIgnorePatterns(
-  repo: string,
-  branch: string,
-  token?: string
-): Promise<string[]> {
-  const filenames = [
-    '.aiignore',      // Industry standard (JetBrains, proposed standard)
-    '.aiexclude',     // Google Gemini Code Assist
-    '.cursorignore',  // Cursor IDE
-    '.codeiumignore', // Codeium
-    '.agentignore',   // Generic
-    '.geminiignore',  // Google Gemini
-  ]
-
-  // Fetch all files in parallel instead of sequentially
-  const results = await Promise.all(
-    filenames.map(async (filename) => {
-      const content = await fetchFileFromGitHub(repo, branch, filename, token)
-      return content ? { filename, patterns: parseAiIgnorePatterns(content) } : null
-    })
-  )
-
-  // Collect patterns from successful fetches
-  const allPatterns: string[] = []
-  const foundFiles: string[] = []
-
-  for (const result of results) {
-    if (result) {
-      allPatterns.push(...result.patterns)
-      foundFiles.push(result.filename)
-    }
-  }
-
-  if (foundFiles.length > 0) {
-    console.log(`[aiignore] Found ${allPatterns.length} patterns from: ${foundFiles.join(', ')}`)
-  }
-
-  // Deduplicate patterns
-  return [...new Set(allPatterns)]
-}
+import { OUTPUT_STYLE_FILES, parsePackedFiles, buildFileManifest, relativizePackedPaths, mapPackedFileContents } from './packFormat'
+import { buildUnifiedDiff, parseRepoSource, repoTargetName } from './changeset'
+import { redactPackedOutput, redactText, summarizeRedactions } from './redaction'
+import { createSourceClient } from './source'
+import { ArchiveError, checkoutRepoTree, listTreeFiles, untilAborted } from './archive'
+import { buildAiIgnoreRules, groupAiIgnoreExclusions, readAiIgnoreFiles, reportAiIgnoreExclusions } from './aiignore'
+import { buildTreeImportGraph } from './importGraph'
+import { outlineSource } from './outline'
+import { addPackHistory } from './history'
 
 /**
  * Repomix Integration
  *
- * Two distinct paths (Simple Made Easy - Rich Hickey):
- * - packRemoteRepo: GitHub repos via archive download (no git binary needed)
+ * Three distinct paths (Simple Made Easy - Rich Hickey):
+ * - packRemoteRepo: GitHub and GitLab repos via our own archive download (no git binary needed)
+ * - packChangeset: Pull requests and compare ranges (diff + packRemoteRepo at head)
  * - packLocalRepo: Local directories (for tests only)
  *
  * Each function has single responsibility, clear contract.
@@ -160,172 +32,395 @@ interface BasePackOptions extends SliceConfig {
 
 export interface RemotePackOptions extends BasePackOptions {
   repo: string // "owner/name"
+  subPath?: string // pack only this directory; globs and reported paths are relative to it
   branch?: string
-  githubToken?: string
+  commitSha?: string // download this exact commit (branch is then just a label); reuses a recent extraction
+  token?: string // for the repo's provider (GitHub or GitLab)
+  githubHost?: GitHubHost // GitHub repos only; defaults to the deployment's
+  onProgress?: (stage: PackRepoStage) => void // 'downloading', then 'packing'
+}
+
+export interface ChangesetPackOptions extends BasePackOptions {
+  repo: string // "owner/name"
+  subPath?: string // only changes under this directory
+  pullRequest?: number // one of pullRequest / compare is required
+  compare?: string // "base...head"
+  includeUnchanged?: boolean
+  token: string // for the repo's provider (GitHub or GitLab)
+  githubHost?: GitHubHost // GitHub repos only; defaults to the deployment's
+  onProgress?: (stage: PackRepoStage) => void // passed on to packRemoteRepo
 }
 
 export interface LocalPackOptions extends BasePackOptions {
   directory: string
+  maxFileSize?: number // bytes; defaults to config.repomix.maxFileSize
 }
 
 /**
- * Pack a GitHub repository (production path)
+ * Pack a GitHub or GitLab repository (production path)
  *
- * Uses runRemoteAction which downloads via GitHub archive API.
+ * Downloads the repo archive with this request's token (lib/archive.ts), then
+ * packs the extracted tree with runDefaultAction. Trees extracted at a commitSha
+ * are reused across slice configs.
  * No git binary required - works in Vercel serverless.
  *
- * Guarantees (Carmack): Archive download always tried first for GitHub repos
+ * Import-graph slices (entryPoints) pack only the files reachable from the entry
+ * points, resolved on the extracted tree (lib/importGraph.ts).
+ *
+ * Commit log, per-file last changes and recently-changed-first ordering come
+ * from the GitHub API instead of git (lib/history.ts).
+ *
+ * Limits (config.repomix): the pack gives up after `timeout` ms, files over
+ * `maxFileSize` are skipped and listed, and output over `maxTotalSize` is refused.
+ * Aborting `signal` stops the downloads and abandons the Repomix run.
  */
 export async function packRemoteRepo(
   options: RemotePackOptions,
   signal?: AbortSignal
 ): Promise<PackedRepo> {
   const startTime = Date.now()
+  const target = repoTargetName(options.repo, options.subPath)
 
   console.log(`[repomix] Packing ${options.repo} (remote)`)
 
+  const outputStyle = options.outputStyle ?? 'xml'
+  const packSignal = withPackTimeout(signal)
+
+  const ref = options.commitSha ?? options.branch
+
   // Create temp file for output
   const tempDir = mkdtempSync(join(tmpdir(), 'repomix-'))
-  const outputFile = join(tempDir, 'output.xml')
+  const outputFile = join(tempDir, `output.${OUTPUT_STYLE_FILES[outputStyle].extension}`)
 
   try {
-    // Set GITHUB_TOKEN for private repos
-    if (options.githubToken) {
-      process.env.GITHUB_TOKEN = options.githubToken
-    }
+    packSignal.throwIfAborted()
 
-    // Log configuration for debugging intermittent git errors
+    // Log configuration for debugging
     console.log(`[repomix] Config for ${options.repo}:`, {
       branch: options.branch || 'main',
-      hasToken: !!options.githubToken,
+      commitSha: options.commitSha,
+      hasToken: !!options.token,
+      outputStyle,
       includeGlobs: options.includeGlobs?.length || 0,
       ignoreGlobs: options.ignoreGlobs?.length || 0,
+      entryPoints: options.entryPoints?.length || 0,
     })
 
-    // Fetch .aiignore patterns from repo root (if enabled)
-    const aiIgnorePatterns = options.respectAiIgnore !== false
-      ? await getAiIgnorePatterns(
-          options.repo,
-          options.branch || 'main',
-          options.githubToken
-        )
-      : []
-
-    // Merge ignore patterns: user globs > .aiignore > repomix defaults
-    const allIgnorePatterns = [
-      ...(options.ignoreGlobs || []),
-      ...aiIgnorePatterns,
-    ]
-
-    // Build CLI options
-    const cliOptions: CliOptions = {
-      output: outputFile,
-      style: 'xml',
-      remoteBranch: options.branch,
-      include: options.includeGlobs?.join(','),
-      ignore: allIgnorePatterns.length > 0 ? allIgnorePatterns.join(',') : undefined,
-      removeComments: options.reducers?.removeComments,
-      removeEmptyLines: options.reducers?.removeEmptyLines,
-      // Explicitly disable git-dependent features (no git in Vercel)
-      gitSortByChanges: false,
-      includeDiffs: false,
-      includeLogs: false,
-      // Performance: disable security checks and reduce logging
-      securityCheck: false,
-      quiet: true,
-    }
+    // Download with this request's token, then pack the local tree - no git!
+    options.onProgress?.('downloading')
+    const tree = await checkoutRepoTree(options.repo, ref, {
+      token: options.token,
+      githubHost: options.githubHost,
+      signal: packSignal,
+    })
+    console.log(`[repomix] Extracted ${tree.fileCount} files for ${options.repo}@${tree.commitSha ?? ref ?? 'default branch'}`)
+    options.onProgress?.('packing')
+
+    // Sub-directory targets: user globs are relative to the sub-directory, so anchor them there
+    const scopeGlobs = (globs: string[]) =>
+      options.subPath ? globs.map(glob => `${options.subPath}/${glob}`) : globs
+    const includeGlobs = options.subPath
+      ? scopeGlobs(options.includeGlobs?.length ? options.includeGlobs : ['**'])
+      : options.includeGlobs
 
-    // Use runRemoteAction directly - GitHub archive download, no git!
-    console.log(`[repomix] Calling runRemoteAction for ${options.repo}`)
-    await runRemoteAction(options.repo, cliOptions)
-    console.log(`[repomix] runRemoteAction completed for ${options.repo}`)
+    const ignoreGlobs = scopeGlobs(options.ignoreGlobs || [])
+
+    // Pack the tree, then hand it back for reuse
+    let aiIgnore: AiIgnoreStage | undefined
+    let packResult: PackRunResult
+    try {
+      // Import-graph slices: the reachable files replace the include globs
+      const importSlice = resolveImportSlice(tree.dir, options, target, includeGlobs, options.subPath)
+
+      // Ignore patterns: user globs > AI ignore files (anywhere in the tree) > repomix defaults
+      aiIgnore = options.respectAiIgnore !== false
+        ? resolveAiIgnore(tree.dir, importSlice ?? includeGlobs, options.subPath)
+        : undefined
+
+      // Build CLI options
+      const cliOptions: CliOptions = {
+        output: outputFile,
+        config: writePackConfig(tempDir, { includePatterns: importSlice, ignorePatterns: aiIgnore?.ignorePatterns }),
+        style: outputStyle,
+        include: importSlice ? undefined : includeGlobs?.join(','),
+        ignore: ignoreGlobs.length > 0 ? ignoreGlobs.join(',') : undefined,
+        // Repomix only reads these when explicitly false
+        gitignore: options.respectGitignore,
+        defaultPatterns: options.useDefaultPatterns,
+        compress: options.reducers?.compress,
+        removeComments: options.reducers?.removeComments,
+        removeEmptyLines: options.reducers?.removeEmptyLines,
+        truncateBase64: options.reducers?.truncateBase64,
+        // Explicitly disable git-dependent features (no git in Vercel)
+        gitSortByChanges: false,
+        includeDiffs: false,
+        includeLogs: false,
+        // Performance: disable security checks and reduce logging
+        securityCheck: false,
+        quiet: true,
+      }
+
+      packResult = (await runRepomix([tree.dir], tree.dir, cliOptions, packSignal)).packResult
+    } finally {
+      tree.release()
+    }
+    console.log(`[repomix] runDefaultAction completed for ${options.repo}`)
 
     const duration = Date.now() - startTime
+    const skippedFiles = oversizedFiles(packResult.skippedFiles, options.subPath)
 
     // Read output from temp file
-    const output = readFileSync(outputFile, 'utf-8')
-    const stats = extractRepomixStats(output)
+    const rawOutput = readPackOutput(outputFile, target)
+    const { output: redactedOutput, redactions } = redactSecrets(
+      outlineFiles(options.subPath ? relativizePackedPaths(rawOutput, outputStyle, options.subPath) : rawOutput, options),
+      options
+    )
+    const output = await addPackHistory(redactedOutput, outputStyle, {
+      ...options,
+      ref: tree.commitSha ?? ref,
+    })
+    const stats = extractRepomixStats(output, outputStyle)
 
-    console.log(`[repomix] ✓ ${options.repo} (${duration}ms, ${stats.fileCount} files)`)
+    console.log(`[repomix] ✓ ${options.repo} (${duration}ms, ${stats.fileCount} files, ${skippedFiles.length} skipped)`)
 
     return {
-      repo: options.repo,
+      repo: target,
       branch: options.branch || 'main',
       output,
+      outputStyle,
+      commitSha: tree.commitSha ?? options.commitSha,
       stats,
+      files: buildFileManifest(output, outputStyle),
+      redactions,
+      skippedFiles: skippedFiles.length > 0 ? skippedFiles : undefined,
+      aiIgnoreExclusions: aiIgnore?.exclusions.length ? aiIgnore.exclusions : undefined,
     }
   } catch (error) {
     const rawMessage = error instanceof Error ? error.message : 'Unknown error'
     const errorStack = error instanceof Error ? error.stack : undefined
 
-    // Translate common Repomix errors into user-friendly messages
-    let errorMessage = rawMessage
-
-    // GitHub archive download failures often manifest as "Git not installed" errors
-    // but we're not using git binary - it's actually a GitHub API/network issue
-    if (rawMessage.includes('Git') || rawMessage.includes('git')) {
-      if (rawMessage.includes('404') || rawMessage.includes('not found')) {
-        errorMessage = `Repository not found or invalid branch "${options.branch || 'main'}". Check that the repo exists and the branch name is correct.`
-      } else if (rawMessage.includes('401') || rawMessage.includes('403') || rawMessage.includes('Unauthorized')) {
-        errorMessage = `Authentication failed. Check that your GitHub token has access to ${options.repo}.`
-      } else {
-        errorMessage = `Failed to download repository archive: ${rawMessage}. This may be a network issue or GitHub API error.`
-      }
-    }
-    // Handle explicit 404 errors from GitHub API
-    else if (rawMessage.includes('404') || rawMessage.includes('not found')) {
-      errorMessage = `Repository or branch not found: ${options.repo}@${options.branch || 'main'}. Verify the repository exists and the branch name is correct.`
-    }
-    // Handle auth errors
-    else if (rawMessage.includes('401') || rawMessage.includes('403') || rawMessage.includes('Unauthorized')) {
-      errorMessage = `Access denied to ${options.repo}. Ensure your GitHub token has the required permissions.`
-    }
+    // Timeouts and cancellation first: an aborted download can look like any other failure
+    // (ArchiveError messages are already user-facing; Repomix errors pass through)
+    const errorMessage = packSignal.aborted ? abortMessage(packSignal, target, startTime) : rawMessage
 
     console.error(`[repomix] ✗ ${options.repo} failed:`, {
       rawMessage,
       translatedMessage: errorMessage,
+      code: error instanceof ArchiveError ? error.code : undefined,
       branch: options.branch || 'main',
-      hasToken: !!options.githubToken,
+      hasToken: !!options.token,
       stack: errorStack,
     })
 
     return {
-      repo: options.repo,
+      repo: target,
       branch: options.branch || 'main',
       output: '',
+      outputStyle,
       stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
       error: errorMessage,
     }
   } finally {
-    // Cleanup temp file
+    // Cleanup temp dir (output file and limits config)
     try {
-      unlinkSync(outputFile)
+      rmSync(tempDir, { recursive: true, force: true })
     } catch {
       // Ignore cleanup errors
     }
   }
 }
 
+/**
+ * Pack a pull request or compare range
+ *
+ * Resolves the changed files through the provider's API, then packs the head commit
+ * with packRemoteRepo: only the changed files by default, or the whole slice
+ * when includeUnchanged is set. The diff travels alongside in PackedRepo.changes.
+ */
+export async function packChangeset(
+  options: ChangesetPackOptions,
+  signal?: AbortSignal
+): Promise<PackedRepo> {
+  const { pullRequest, compare, includeUnchanged, ...sliceOptions } = options
+  const label = pullRequest !== undefined ? `#${pullRequest}` : compare || ''
+  const target = repoTargetName(options.repo, options.subPath)
+  const outputStyle = options.outputStyle ?? 'xml'
+
+  console.log(`[repomix] Packing ${options.repo} ${label} (changeset)`)
+
+  try {
+    const source = createSourceClient(parseRepoSource(options.repo).provider, options.token, options.githubHost)
+    let changedFiles: ChangedFile[]
+    let changeset: Omit<Changeset, 'files' | 'diff'>
+
+    if (pullRequest !== undefined) {
+      const [pull, files] = await Promise.all([
+        source.getPullRequest(options.repo, pullRequest),
+        source.listPullRequestFiles(options.repo, pullRequest),
+      ])
+
+      changedFiles = files
+      changeset = {
+        kind: 'pull',
+        label,
+        title: pull.title,
+        baseSha: pull.baseSha,
+        headSha: pull.headSha,
+        headRepo: pull.headRepo ?? options.repo, // Deleted fork: PR commits still live in the base repo
+        truncated: files.length >= 3000 || undefined,
+      }
+    } else if (compare?.includes('...')) {
+      const [owner, name] = options.repo.split('/')
+      const head = compare.split('...')[1]
+
+      // "owner:branch" heads live in a fork with the same repo name (GitHub only)
+      const fork = parseRepoSource(options.repo).provider === 'github' && head.includes(':')
+      const [headOwner, headRef] = fork ? head.split(':') : [owner, head]
+      const headRepo = fork ? `${headOwner}/${name}` : options.repo
+
+      const [comparison, headSha] = await Promise.all([
+        source.compareRefs(options.repo, compare),
+        source.resolveCommitSHA(headRepo, headRef),
+      ])
+
+      changedFiles = comparison.files
+      changeset = {
+        kind: 'compare',
+        label,
+        baseSha: comparison.mergeBaseSha,
+        headSha,
+        headRepo,
+        truncated: comparison.truncated || undefined,
+      }
+    } else {
+      throw new Error(`Invalid compare range "${compare}". Expected: base...head`)
+    }
+
+    // Sub-directory targets only see changes inside the directory
+    if (options.subPath) {
+      const prefix = `${options.subPath}/`
+      changedFiles = changedFiles.filter(file =>
+        file.path.startsWith(prefix) || file.previousPath?.startsWith(prefix)
+      )
+    }
+
+    // Changed files that still exist at head, narrowed by the slice's include globs
+    // (paths relative to the sub-directory, like the globs)
+    const includeGlobs = options.includeGlobs?.filter(Boolean) ?? []
+    const changedPaths = changedFiles
+      .filter(file => file.status !== 'removed')
+      .map(file => (options.subPath ? file.path.slice(options.subPath.length + 1) : file.path))
+      .filter(path => path && (includeGlobs.length === 0 || includeGlobs.some(glob => minimatch(path, glob, { dot: true }))))
+
+    // Nothing to pack (e.g. a PR that only deletes files) - the diff is the whole context
+    const packed = includeUnchanged || changedPaths.length > 0
+      ? await packRemoteRepo({
+          ...sliceOptions,
+          repo: changeset.headRepo,
+          branch: changeset.headSha,
+          commitSha: changeset.headSha,
+          includeGlobs: includeUnchanged ? options.includeGlobs : changedPaths,
+        }, signal)
+      : null
+
+    if (packed?.error) {
+      return { ...packed, repo: target, branch: label }
+    }
+
+    // Patches carry file contents too, so they get the same redaction pass
+    const diffRedactions: RedactionEntry[] = []
+    const redactedFiles = options.redactSecrets === false
+      ? changedFiles
+      : changedFiles.map(file => {
+          if (!file.patch) return file
+          const { text, counts } = redactText(file.patch)
+          for (const [rule, count] of Object.entries(counts)) {
+            diffRedactions.push({ path: `${file.path} (diff)`, rule, count })
+          }
+          return { ...file, patch: text }
+        })
+
+    const diff = buildUnifiedDiff(redactedFiles)
+    const stats = packed?.stats ?? { fileCount: 0, approxChars: 0, approxTokens: 0 }
+
+    console.log(`[repomix] ✓ ${options.repo} ${label} (${changedFiles.length} changed, ${stats.fileCount} packed)`)
+
+    return {
+      repo: target,
+      branch: label,
+      output: packed?.output ?? '',
+      outputStyle,
+      stats: {
+        fileCount: stats.fileCount,
+        approxChars: stats.approxChars + diff.length,
+        approxTokens: stats.approxTokens + Math.ceil(diff.length / 4),
+      },
+      files: packed?.files ?? [],
+      redactions: options.redactSecrets === false ? undefined : [...diffRedactions, ...(packed?.redactions ?? [])],
+      skippedFiles: packed?.skippedFiles,
+      aiIgnoreExclusions: packed?.aiIgnoreExclusions,
+      changes: {
+        ...changeset,
+        files: changedFiles.map(({ patch, ...file }) => file),
+        diff,
+      },
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[repomix] ✗ ${options.repo} ${label} failed:`, errorMessage)
+
+    return {
+      repo: target,
+      branch: label,
+      output: '',
+      outputStyle,
+      stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+      error: errorMessage,
+    }
+  }
+}
+
 /**
  * Pack a local directory (test path only)
  *
  * Uses runDefaultAction for direct file access.
- * Not used in production.
+ * Not used in production. Same limits as packRemoteRepo; history options
+ * (commitLog, fileHistory, sortByRecentChanges) are ignored - they need the GitHub API.
  */
 export async function packLocalRepo(
-  options: LocalPackOptions
+  options: LocalPackOptions,
+  signal?: AbortSignal
 ): Promise<PackedRepo> {
+  const startTime = Date.now()
+  const outputStyle = options.outputStyle ?? 'xml'
+  const packSignal = withPackTimeout(signal)
   const tempDir = mkdtempSync(join(tmpdir(), 'repomix-'))
-  const outputFile = join(tempDir, 'output.xml')
+  const outputFile = join(tempDir, `output.${OUTPUT_STYLE_FILES[outputStyle].extension}`)
 
   try {
+    packSignal.throwIfAborted()
+
+    const importSlice = resolveImportSlice(options.directory, options, options.directory, options.includeGlobs)
+    const aiIgnore = options.respectAiIgnore !== false
+      ? resolveAiIgnore(options.directory, importSlice ?? options.includeGlobs)
+      : undefined
+
     const cliOptions: CliOptions = {
       output: outputFile,
-      style: 'xml',
-      include: options.includeGlobs?.join(','),
+      config: writePackConfig(tempDir, {
+        maxFileSize: options.maxFileSize,
+        includePatterns: importSlice,
+        ignorePatterns: aiIgnore?.ignorePatterns,
+      }),
+      style: outputStyle,
+      include: importSlice ? undefined : options.includeGlobs?.join(','),
       ignore: options.ignoreGlobs?.join(','),
+      gitignore: options.respectGitignore,
+      defaultPatterns: options.useDefaultPatterns,
+      compress: options.reducers?.compress,
       removeComments: options.reducers?.removeComments,
       removeEmptyLines: options.reducers?.removeEmptyLines,
+      truncateBase64: options.reducers?.truncateBase64,
       // Disable git features for local tests too
       gitSortByChanges: false,
       includeDiffs: false,
@@ -335,28 +430,37 @@ export async function packLocalRepo(
       quiet: true,
     }
 
-    await runDefaultAction([options.directory], process.cwd(), cliOptions)
+    const { packResult } = await runRepomix([options.directory], process.cwd(), cliOptions, packSignal)
+    const skippedFiles = oversizedFiles(packResult.skippedFiles)
 
-    const output = readFileSync(outputFile, 'utf-8')
-    const stats = extractRepomixStats(output)
+    const { output, redactions } = redactSecrets(outlineFiles(readPackOutput(outputFile, options.directory), options), options)
+    const stats = extractRepomixStats(output, outputStyle)
 
     return {
       repo: options.directory,
       branch: 'local',
       output,
+      outputStyle,
       stats,
+      files: buildFileManifest(output, outputStyle),
+      redactions,
+      skippedFiles: skippedFiles.length > 0 ? skippedFiles : undefined,
+      aiIgnoreExclusions: aiIgnore?.exclusions.length ? aiIgnore.exclusions : undefined,
     }
   } catch (error) {
     return {
       repo: options.directory,
       branch: 'local',
       output: '',
+      outputStyle,
       stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
-      error: error instanceof Error ? error.message : 'Unknown error',
+      error: packSignal.aborted
+        ? abortMessage(packSignal, options.directory, startTime)
+        : error instanceof Error ? error.message : 'Unknown error',
     }
   } finally {
     try {
-      unlinkSync(outputFile)
+      rmSync(tempDir, { recursive: true, force: true })
     } catch {
       // Ignore cleanup errors
     }
@@ -364,12 +468,277 @@ export async function packLocalRepo(
 }
 
 /**
- * Extract statistics from Repomix XML output
- * Repomix 1.6+ includes <statistics> section with token counts
+ * Pack limits (config.repomix)
+ *
+ * Repomix runs in worker processes and can't be interrupted, so an aborted pack
+ * stops waiting and lets the abandoned run finish into a temp dir that's gone.
+ * Abandoned runs still use CPU, so new packs are refused while
+ * config.repomix.maxAbandonedRuns of them are finishing.
+ */
+
+// Abandoned Repomix runs still finishing in this process
+let abandonedRuns = 0
+
+/**
+ * Run Repomix until it finishes or the signal aborts, counting the run as
+ * abandoned until it settles if the signal wins
+ * @throws Error when too many abandoned runs are still finishing
+ */
+async function runRepomix(
+  directories: string[],
+  cwd: string,
+  cliOptions: CliOptions,
+  signal: AbortSignal
+): ReturnType<typeof runDefaultAction> {
+  if (abandonedRuns >= config.repomix.maxAbandonedRuns) {
+    throw new Error('The server is still finishing packs that timed out. Try again in a minute.')
+  }
+  signal.throwIfAborted() // Don't start a run nobody is waiting for
+
+  const run = runDefaultAction(directories, cwd, cliOptions)
+  try {
+    return await untilAborted(run, signal)
+  } catch (error) {
+    if (signal.aborted) {
+      abandonedRuns++
+      const settled = () => { abandonedRuns-- }
+      run.then(settled, settled)
+    }
+    throw error
+  }
+}
+
+/**
+ * Combine the caller's signal with the per-repo pack timeout
+ */
+function withPackTimeout(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(config.repomix.timeout)
+  return signal ? AbortSignal.any([signal, timeout]) : timeout
+}
+
+/**
+ * User-facing message for a timed-out or cancelled pack
+ */
+function abortMessage(signal: AbortSignal, target: string, startTime: number): string {
+  const reason = signal.reason as Error | undefined
+  if (reason?.name === 'TimeoutError') {
+    const seconds = Math.round((Date.now() - startTime) / 1000)
+    return `Packing ${target} timed out after ${seconds}s. Narrow the slice with include/ignore globs, or pack a sub-directory.`
+  }
+  return `Packing ${target} was cancelled.`
+}
+
+/**
+ * Write a Repomix config file for options the CLI flags can't carry: the per-file
+ * size limit, and include/ignore patterns that may contain commas (the CLI splits on them)
+ * Also keeps a repo's own repomix.config.json from changing the slice.
+ * @returns Path for CliOptions.config
+ */
+function writePackConfig(
+  tempDir: string,
+  options: { maxFileSize?: number; includePatterns?: string[]; ignorePatterns?: string[] } = {}
+): string {
+  const configFile = join(tempDir, 'repomix.config.json')
+  writeFileSync(configFile, JSON.stringify({
+    input: { maxFileSize: options.maxFileSize ?? config.repomix.maxFileSize },
+    include: options.includePatterns ?? [],
+    ignore: { customPatterns: options.ignorePatterns ?? [] },
+  }))
+  return configFile
+}
+
+/**
+ * AI ignore stage
+ */
+
+type PackRunResult = Awaited<ReturnType<typeof runDefaultAction>>['packResult']
+
+interface AiIgnoreStage {
+  ignorePatterns: string[] // for Repomix: exact paths, or "dir/**" when a whole directory is excluded
+  exclusions: AiIgnoreExclusion[] // report, limited to files the slice would otherwise pack
+}
+
+/**
+ * Resolve AI ignore files anywhere in a tree (lib/aiignore.ts) into excluded files
+ * Repomix's ignore globs can't express per-directory scope or `!` negation, so the
+ * exclusions are decided here and handed to Repomix as literal paths.
+ *
+ * @param includeGlobs - The slice's include globs (root-relative), for the report
+ * @param subPath - Sub-directory target: report paths relative to it
+ */
+function resolveAiIgnore(root: string, includeGlobs?: string[], subPath?: string): AiIgnoreStage {
+  const paths = listTreeFiles(root)
+  const rules = buildAiIgnoreRules(readAiIgnoreFiles(root, paths))
+  if (rules.length === 0) return { ignorePatterns: [], exclusions: [] }
+
+  const byFile = groupAiIgnoreExclusions(paths, rules)
+  const excluded = new Set([...byFile.values()].flat())
+
+  // Report only what the slice would have packed, relative to the target
+  const globs = includeGlobs?.filter(Boolean) ?? []
+  const inSlice = (path: string) => globs.length === 0 || globs.some(glob => minimatch(path, glob, { dot: true }))
+  const relative = (path: string) => (subPath ? path.slice(subPath.length + 1) : path)
+  for (const [file, filePaths] of byFile) {
+    const reported = filePaths.filter(inSlice).map(relative)
+    if (reported.length > 0) byFile.set(file, reported)
+    else byFile.delete(file)
+  }
+
+  return {
+    ignorePatterns: collapseExcludedPaths(paths, excluded),
+    exclusions: reportAiIgnoreExclusions(byFile),
+  }
+}
+
+/**
+ * Import-graph stage
+ */
+
+/**
+ * Resolve a slice's entry points into literal include patterns for Repomix
+ * Reachable files must still match the slice's include globs, so globs can narrow the graph.
+ *
+ * @param includeGlobs - The slice's include globs (root-relative)
+ * @param subPath - Sub-directory target: entries resolve inside it, and files outside it are dropped
+ * @returns Root-relative patterns, or undefined when the slice has no entry points
+ */
+function resolveImportSlice(
+  root: string,
+  options: BasePackOptions,
+  target: string,
+  includeGlobs?: string[],
+  subPath?: string
+): string[] | undefined {
+  const entryPoints = options.entryPoints?.filter(Boolean) ?? []
+  if (entryPoints.length === 0) return undefined
+
+  const graph = buildTreeImportGraph(root, listTreeFiles(root), {
+    entryPoints,
+    depth: options.importDepth,
+    subPath,
+  })
+  if (graph.entries.length === 0) {
+    throw new Error(`No file or symbol in ${target} matches the entry points: ${graph.unresolved.join(', ')}`)
+  }
+
+  const prefix = subPath ? `${subPath}/` : ''
+  const globs = includeGlobs?.filter(Boolean) ?? []
+  const paths = graph.files
+    .map(file => file.path)
+    .filter(path => path.startsWith(prefix))
+    .filter(path => globs.length === 0 || globs.some(glob => minimatch(path, glob, { dot: true })))
+
+  // An empty include list would mean "everything" to Repomix
+  if (paths.length === 0) {
+    throw new Error(`None of the files reachable from the entry points match the include globs for ${target}`)
+  }
+
+  console.log(`[repomix] Import graph for ${target}: ${paths.length} files within ${graph.depth} hops of ${graph.entries.join(', ')}`)
+  return paths.map(escapeGlob)
+}
+
+/**
+ * Literal ignore globs for excluded files; a directory whose files are all excluded becomes one "dir/**"
+ */
+function collapseExcludedPaths(paths: string[], excluded: Set<string>): string[] {
+  const ancestors = (path: string) => {
+    const parts = path.split('/').slice(0, -1)
+    return parts.map((_, i) => parts.slice(0, i + 1).join('/'))
+  }
+
+  // Files per directory, and how many of them are excluded
+  const total = new Map<string, number>()
+  const hit = new Map<string, number>()
+  for (const path of paths) {
+    for (const dir of ancestors(path)) {
+      total.set(dir, (total.get(dir) ?? 0) + 1)
+      if (excluded.has(path)) hit.set(dir, (hit.get(dir) ?? 0) + 1)
+    }
+  }
+
+  const patterns = new Set<string>()
+  for (const path of excluded) {
+    const fullyExcluded = ancestors(path).find(dir => hit.get(dir) === total.get(dir))
+    patterns.add(fullyExcluded ? `${escapeGlob(fullyExcluded)}/**` : escapeGlob(path))
+  }
+  return [...patterns]
+}
+
+function escapeGlob(path: string): string {
+  return path.replace(/[*?[\]{}()!+@\\]/g, '\\$&')
+}
+
+/**
+ * Paths Repomix skipped for exceeding maxFileSize (relative to the sub-directory, if any)
  */
-function extractRepomixStats(output: string): { fileCount: number; approxChars: number; approxTokens: number } {
+function oversizedFiles(
+  skipped: Array<{ path: string; reason: string }>,
+  subPath?: string
+): string[] {
+  return skipped
+    .filter(file => file.reason === 'size-limit')
+    .map(file => (subPath && file.path.startsWith(`${subPath}/`) ? file.path.slice(subPath.length + 1) : file.path))
+}
+
+/**
+ * Read a pack's output file, refusing output over maxTotalSize before it's loaded into memory
+ */
+function readPackOutput(outputFile: string, target: string): string {
+  const { size } = statSync(outputFile)
+  const limitBytes = config.repomix.maxTotalSize * 1024
+
+  if (size > limitBytes) {
+    const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024))
+    throw new Error(
+      `Packed output for ${target} is ${toMB(size)}MB, over the ${toMB(limitBytes)}MB limit. Narrow the slice with include/ignore globs, or pack a sub-directory.`
+    )
+  }
+
+  return readFileSync(outputFile, 'utf-8')
+}
+
+/**
+ * Outline reducer stage: code files are cut down to their outline (lib/outline.ts)
+ * Files matching fullContentGlobs (target-relative) keep their content, and so do
+ * languages the outliner doesn't know.
+ */
+function outlineFiles(output: string, options: BasePackOptions): string {
+  if (!options.reducers?.outline) return output
+
+  const fullGlobs = options.fullContentGlobs?.filter(Boolean) ?? []
+  return mapPackedFileContents(output, options.outputStyle ?? 'xml', file =>
+    fullGlobs.some(glob => minimatch(file.path, glob, { dot: true }))
+      ? file.content
+      : outlineSource(file.path, file.content) ?? file.content
+  )
+}
+
+/**
+ * Redaction stage, run on every pack before the output leaves the server
+ * Skipped when the slice sets redactSecrets: false
+ */
+function redactSecrets(
+  output: string,
+  options: BasePackOptions
+): { output: string; redactions?: RedactionEntry[] } {
+  if (options.redactSecrets === false) return { output }
+
+  const style = options.outputStyle ?? 'xml'
+  const redacted = redactPackedOutput(output, style)
+  return { output: redacted, redactions: summarizeRedactions(redacted, style) }
+}
+
+/**
+ * Extract statistics from Repomix output
+ * Repomix 1.6+ includes <statistics> section with token counts (XML only);
+ * other styles fall back to counting file entries for that style
+ */
+function extractRepomixStats(
+  output: string,
+  style: OutputStyle = 'xml'
+): { fileCount: number; approxChars: number; approxTokens: number } {
   // Try to extract from <statistics> section
-  const statsMatch = output.match(/<statistics>[\s\S]*?<\/statistics>/)
+  const statsMatch = style === 'xml' ? output.match(/<statistics>[\s\S]*?<\/statistics>/) : null
 
   if (statsMatch) {
     const statsSection = statsMatch[0]
@@ -386,11 +755,8 @@ function extractRepomixStats(output: string): { fileCount: number; approxChars:
   }
 
   // Fallback: count files manually and estimate tokens
-  const fileHeaderPattern = /<file path="([^"]+)">/g
-  const matches = output.match(fileHeaderPattern)
-
   return {
-    fileCount: matches ? matches.length : 0,
+    fileCount: parsePackedFiles(output, style).length,
     approxChars: output.length,
     approxTokens: Math.ceil(output.length / 4),
   }
@@ -0,0 +1,302 @@
+import { defaultIgnoreList } from 'repomix'
+import { minimatch } from 'minimatch'
+import ignore, { type Ignore } from 'ignore'
+import isBinaryPath from 'is-binary-path'
+import type { SourceClient } from './source'
+import { aiIgnoreSource, buildAiIgnoreRules, isAiIgnoreFile, type AiIgnoreRule } from './aiignore'
+import { checkoutRepoTree, listTreeFiles } from './archive'
+import { buildTreeImportGraph, scopeImportGraph } from './importGraph'
+import { repoTargetName } from './changeset'
+import { detectLanguage } from './packFormat'
+import { FileManifestEntry, GitHubHost, ImportGraph, PreviewExclusionReason, RepoPreview, SliceConfig } from './types'
+
+/**
+ * Slice Preview
+ *
+ * Dry run of a pack: lists the files a slice config would pack, without
+ * downloading the archive. Reads the repo tree from the provider's API and applies
+ * the same rules Repomix does (include globs, default patterns, ignore globs,
+ * AI ignore files, .gitignore/.repomixignore, binary files).
+ *
+ * Sizes come from blob bytes, so token counts are estimates (bytes / 4).
+ *
+ * Import-graph slices are the exception: following imports needs file contents,
+ * so the archive is downloaded and the graph resolved the way packing does it.
+ * The extracted tree is reused by the pack that usually follows.
+ */
+
+export interface TreeFile {
+  path: string
+  size: number // bytes
+}
+
+export interface SliceRules {
+  sliceConfig: SliceConfig
+  aiIgnoreFiles: Record<string, string> // path of .aiignore and friends -> contents (any depth)
+  ignoreFiles: Record<string, string> // path of .gitignore/.repomixignore -> contents
+  importGraph?: string[] // import-graph mode: files reachable from the entry points
+}
+
+// Ignore files Repomix reads at any depth (.gitignore only when respectGitignore is on)
+const IGNORE_FILE_NAMES = ['.gitignore', '.repomixignore']
+
+// Bound API calls for repos with many nested ignore files
+const MAX_IGNORE_FILES = 100
+
+/**
+ * Preview a GitHub or GitLab repository slice (production path)
+ */
+export async function previewRemoteRepo(
+  source: SourceClient,
+  options: { repo: string; subPath?: string; branch?: string; ref?: string; token?: string; githubHost?: GitHubHost } & SliceConfig
+): Promise<RepoPreview> {
+  const branch = options.branch || 'main'
+  const target = repoTargetName(options.repo, options.subPath)
+
+  try {
+    const sha = options.ref
+      ? await source.resolveCommitSHA(options.repo, options.ref)
+      : await source.fetchCurrentCommitSHA(options.repo, branch)
+    const tree = await source.getRepoTree(options.repo, sha)
+    const importGraph = options.entryPoints?.some(Boolean)
+      ? await resolvePreviewImportGraph(options.repo, sha, options)
+      : undefined
+
+    const ignoreFilePaths = tree.files
+      .map(file => file.path)
+      .filter(path => isIgnoreFile(path, options) || (options.respectAiIgnore !== false && isAiIgnoreFile(path)))
+      .slice(0, MAX_IGNORE_FILES)
+
+    const ignoreFileContents = await Promise.all(
+      ignoreFilePaths.map(path => source.fetchFileContent(options.repo, sha, path))
+    )
+
+    const ignoreFiles: Record<string, string> = {}
+    const aiIgnoreFiles: Record<string, string> = {}
+    ignoreFilePaths.forEach((path, i) => {
+      if (!ignoreFileContents[i]) return
+      if (isAiIgnoreFile(path)) aiIgnoreFiles[path] = ignoreFileContents[i]!
+      else ignoreFiles[path] = ignoreFileContents[i]!
+    })
+
+    // Sub-directory targets: only files inside it, with globs anchored there (as packRemoteRepo does)
+    const prefix = options.subPath ? `${options.subPath}/` : ''
+    const scopeGlobs = (globs: string[]) => globs.map(glob => `${prefix}${glob}`)
+    const treeFiles = tree.files.filter(file => file.path.startsWith(prefix))
+    const sliceConfig = options.subPath
+      ? {
+          ...options,
+          includeGlobs: scopeGlobs(options.includeGlobs?.filter(Boolean).length ? options.includeGlobs! : ['**']),
+          ignoreGlobs: scopeGlobs(options.ignoreGlobs ?? []),
+        }
+      : options
+
+    const matched = matchSliceFiles(treeFiles, {
+      sliceConfig,
+      aiIgnoreFiles,
+      ignoreFiles,
+      importGraph: importGraph?.files.map(file => file.path),
+    })
+    const files = matched.files.map(file => ({ ...file, path: file.path.slice(prefix.length) }))
+    const { excluded } = matched
+
+    console.log(`[preview] ${target}@${branch}: ${files.length}/${treeFiles.length} files match`)
+
+    return {
+      repo: target,
+      branch,
+      sha,
+      files,
+      stats: summarize(files),
+      excluded,
+      importGraph: importGraph && scopeImportGraph(importGraph, options.subPath),
+      truncated: tree.truncated || undefined,
+    }
+  } catch (error) {
+    console.error(`[preview] ✗ ${target} failed:`, error)
+    return {
+      repo: target,
+      branch,
+      files: [],
+      stats: { fileCount: 0, approxChars: 0, approxTokens: 0 },
+      excluded: {},
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Resolve the import graph on the downloaded archive (repo-relative)
+ * Downloading at the resolved SHA lets the pack reuse the extracted tree.
+ */
+async function resolvePreviewImportGraph(
+  repo: string,
+  sha: string,
+  options: { subPath?: string; token?: string; githubHost?: GitHubHost } & SliceConfig
+): Promise<ImportGraph> {
+  const tree = await checkoutRepoTree(repo, sha, { token: options.token, githubHost: options.githubHost })
+  try {
+    return buildTreeImportGraph(tree.dir, listTreeFiles(tree.dir), {
+      entryPoints: options.entryPoints ?? [],
+      depth: options.importDepth,
+      subPath: options.subPath,
+    })
+  } finally {
+    tree.release()
+  }
+}
+
+/**
+ * Apply slice rules to a file list
+ * Pure function - shared by the remote preview and the local tests
+ *
+ * @returns Matched files (Repomix path order) and per-rule exclusion counts
+ */
+export function matchSliceFiles(
+  treeFiles: TreeFile[],
+  rules: SliceRules
+): { files: FileManifestEntry[]; excluded: Partial<Record<PreviewExclusionReason, number>> } {
+  const { sliceConfig } = rules
+  const includeGlobs = sliceConfig.includeGlobs?.filter(Boolean) ?? []
+  const defaultPatterns = sliceConfig.useDefaultPatterns !== false ? defaultIgnoreList : []
+  const ignoreFileRules = buildIgnoreFileRules(rules.ignoreFiles, sliceConfig)
+  const aiIgnoreRules = sliceConfig.respectAiIgnore !== false ? buildAiIgnoreRules(rules.aiIgnoreFiles) : []
+  const importGraph = rules.importGraph && new Set(rules.importGraph)
+
+  const files: FileManifestEntry[] = []
+  const excluded: Partial<Record<PreviewExclusionReason, number>> = {}
+
+  for (const file of treeFiles) {
+    const reason = exclusionReason(file.path, {
+      includeGlobs,
+      importGraph,
+      defaultPatterns,
+      ignoreGlobs: sliceConfig.ignoreGlobs ?? [],
+      aiIgnoreRules,
+      ignoreFileRules,
+    })
+
+    if (reason) {
+      excluded[reason] = (excluded[reason] ?? 0) + 1
+      continue
+    }
+
+    files.push({
+      path: file.path,
+      chars: file.size,
+      approxTokens: Math.ceil(file.size / 4),
+      language: detectLanguage(file.path),
+    })
+  }
+
+  return { files: sortRepomixPaths(files), excluded }
+}
+
+/**
+ * First rule that excludes a path, or null if it would be packed
+ * Checked in the order Repomix applies them
+ */
+function exclusionReason(
+  path: string,
+  rules: {
+    includeGlobs: string[]
+    importGraph?: Set<string>
+    defaultPatterns: string[]
+    ignoreGlobs: string[]
+    aiIgnoreRules: AiIgnoreRule[]
+    ignoreFileRules: Array<{ dir: string; matcher: Ignore }>
+  }
+): PreviewExclusionReason | null {
+  if (rules.includeGlobs.length > 0 && !rules.includeGlobs.some(glob => minimatch(path, glob, { dot: true }))) {
+    return 'include'
+  }
+  if (rules.importGraph && !rules.importGraph.has(path)) return 'importGraph'
+  if (matchesIgnoreGlob(path, rules.defaultPatterns)) return 'defaultPatterns'
+  if (matchesIgnoreGlob(path, rules.ignoreGlobs)) return 'ignoreGlobs'
+  if (aiIgnoreSource(path, rules.aiIgnoreRules)) return 'aiignore'
+
+  for (const { dir, matcher } of rules.ignoreFileRules) {
+    if (dir && !path.startsWith(`${dir}/`)) continue
+    if (matcher.ignores(dir ? path.slice(dir.length + 1) : path)) return 'gitignore'
+  }
+
+  if (isBinaryPath(path)) return 'binary'
+  return null
+}
+
+/**
+ * Match a path against ignore globs the way globby does: a pattern that
+ * matches any ancestor directory excludes everything below it
+ */
+function matchesIgnoreGlob(path: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return false
+
+  const segments = path.split('/')
+  const candidates = segments.map((_, i) => segments.slice(0, i + 1).join('/'))
+
+  return patterns.some(raw => {
+    const pattern = normalizeIgnorePattern(raw)
+    return candidates.some(candidate => minimatch(candidate, pattern, { dot: true }))
+  })
+}
+
+/**
+ * Same normalization Repomix applies to ignore patterns
+ * "dir/" -> "dir", "**\/dir" -> "**\/dir/**"
+ */
+function normalizeIgnorePattern(pattern: string): string {
+  if (pattern.endsWith('/') && !pattern.endsWith('**/')) return pattern.slice(0, -1)
+  if (pattern.startsWith('**/') && !pattern.includes('/**')) return `${pattern}/**`
+  return pattern
+}
+
+/**
+ * One gitignore matcher per ignore file, scoped to its directory
+ */
+function buildIgnoreFileRules(
+  ignoreFiles: Record<string, string>,
+  sliceConfig: SliceConfig
+): Array<{ dir: string; matcher: Ignore }> {
+  return Object.entries(ignoreFiles)
+    .filter(([path]) => isIgnoreFile(path, sliceConfig))
+    .map(([path, content]) => ({
+      dir: path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '',
+      matcher: ignore().add(content),
+    }))
+}
+
+function isIgnoreFile(path: string, sliceConfig: SliceConfig): boolean {
+  const name = path.split('/').pop() || path
+  if (name === '.gitignore') return sliceConfig.respectGitignore !== false
+  return IGNORE_FILE_NAMES.includes(name)
+}
+
+/**
+ * Order paths like Repomix's directory tree: directories first, then names
+ */
+function sortRepomixPaths(files: FileManifestEntry[]): FileManifestEntry[] {
+  return [...files].sort((a, b) => {
+    const aParts = a.path.split('/')
+    const bParts = b.path.split('/')
+
+    for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+      if (aParts[i] === bParts[i]) continue
+
+      const aIsDir = i < aParts.length - 1
+      const bIsDir = i < bParts.length - 1
+      if (aIsDir !== bIsDir) return aIsDir ? -1 : 1
+      return aParts[i].localeCompare(bParts[i])
+    }
+
+    return aParts.length - bParts.length
+  })
+}
+
+function summarize(files: FileManifestEntry[]): RepoPreview['stats'] {
+  const approxChars = files.reduce((sum, file) => sum + file.chars, 0)
+  return {
+    fileCount: files.length,
+    approxChars,
+    approxTokens: Math.ceil(approxChars / 4),
+  }
+}
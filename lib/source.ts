@@ -0,0 +1,99 @@
+/**
+ * Source Providers (server-side)
+ *
+ * Repos live on GitHub or on GitLab ("gitlab:group/project", see parseRepoSource).
+ * Both clients implement SourceClient, so packing, previews and the repo routes
+ * work the same for either. Issues, discussions and commit history stay
+ * GitHub-only (GitHubClient).
+ */
+
+import { GitHubClient } from './github'
+import { GitLabClient } from './gitlab'
+import { parseRepoSource } from './changeset'
+import { NextResponse } from 'next/server'
+import { config } from './config'
+import { createApiError } from './types'
+import type { GitHubHost, RepoSelection, SourceProvider } from './types'
+
+// What packing, previews and the repo routes need from a provider; GitHubClient is the reference
+export type SourceClient = Pick<
+  GitHubClient,
+  | 'listOrgRepos'
+  | 'listUserRepos'
+  | 'getRepoMetadata'
+  | 'listUserOrgs'
+  | 'listAuthenticatedUserRepos'
+  | 'validateToken'
+  | 'listBranches'
+  | 'listDirectories'
+  | 'fetchCurrentCommitSHA'
+  | 'getRepoTree'
+  | 'fetchFileContent'
+  | 'resolveCommitSHA'
+  | 'getPullRequest'
+  | 'listPullRequestFiles'
+  | 'compareRefs'
+  | 'countCommitsBehind'
+  | 'archiveRequest'
+>
+
+export const SOURCE_PROVIDERS: SourceProvider[] = ['github', 'gitlab']
+
+/**
+ * Client for a provider, authenticated with that provider's token
+ * An empty token works for public repos only
+ *
+ * @param githubHost - The GitHub account's host (see getGitHubHost); ignored for GitLab
+ */
+export function createSourceClient(provider: SourceProvider, token: string, githubHost?: GitHubHost): SourceClient {
+  return provider === 'gitlab' ? new GitLabClient(token) : new GitHubClient(token, githubHost)
+}
+
+/**
+ * Get the GitHub host for a request's account
+ * X-GitHub-Host picks one of config.github.enterpriseHosts by web URL (e.g. https://github.example.com);
+ * without it, the deployment's host. Tokens are only ever sent to hosts the deployment lists.
+ * @returns null when the header names a host the deployment doesn't list
+ */
+export function getGitHubHost(headers: Headers): GitHubHost | null {
+  const requested = headers.get('x-github-host')?.trim().replace(/\/+$/, '')
+  if (!requested || requested === config.github.webUrl) return config.github
+  if (!config.github.enterpriseHosts.includes(requested)) return null
+  return { apiUrl: `${requested}/api/v3`, webUrl: requested }
+}
+
+/**
+ * Get the GitHub host for a request's account, or the 400 response for a host
+ * the deployment doesn't list (routes return it as is)
+ * @param toResponse - Builds the error response; defaults to an API error (the stream route sends an SSE event)
+ */
+export function resolveGitHubHost(
+  headers: Headers,
+  toResponse: (message: string) => Response = message =>
+    NextResponse.json(createApiError(message, 'INVALID_GITHUB_HOST'), { status: 400 })
+): GitHubHost | Response {
+  return getGitHubHost(headers)
+    ?? toResponse('Unknown GitHub host. Use the default host or one listed in GITHUB_ENTERPRISE_HOSTS.')
+}
+
+/**
+ * Whether a host is the deployment's own (shared caches are only for its repos)
+ */
+export function isDeploymentGitHubHost(host: GitHubHost): boolean {
+  return host.apiUrl === config.github.apiUrl
+}
+
+/**
+ * Get GitLab token from header, then env
+ * (GitHub sign-in doesn't cover GitLab, so there is no session token)
+ */
+export function getGitLabToken(headers: Headers): string | undefined {
+  return headers.get('x-gitlab-token') || process.env.GITLAB_TOKEN || undefined
+}
+
+/**
+ * Whether any selection is a GitHub repo (GitLab-only requests don't need a GitHub token)
+ */
+export function needsGitHubToken(repos: RepoSelection[]): boolean {
+  return repos.some(repo => parseRepoSource(repo.fullName).provider === 'github')
+}
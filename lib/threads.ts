@@ -0,0 +1,106 @@
+/**
+ * Repo Threads (server-side)
+ *
+ * Issues, pull requests and discussions packed alongside a repo's code, for
+ * the "why was it built this way" questions code alone can't answer. Cached on
+ * their own freshness key: the repo's latest thread update, not its commit.
+ */
+
+import { GitHubClient } from './github'
+import { THREAD_CONFIG } from './config'
+import { lookupThreadCache, storeThreadCache } from './db/threadCache.server'
+import type { RepoThread, RepoThreads, ThreadFilter, ThreadKind } from './types'
+
+export const THREAD_KINDS: ThreadKind[] = ['issue', 'pull', 'discussion']
+
+const DEFAULT_THREAD_KINDS: ThreadKind[] = ['issue', 'pull']
+
+/**
+ * Fill in defaults and sort lists, so equal filters share a cache entry
+ */
+export function normalizeThreadFilter(filter: ThreadFilter): ThreadFilter {
+  const kinds = filter.kinds?.length ? filter.kinds : DEFAULT_THREAD_KINDS
+  const labels = (filter.labels ?? []).map(label => label.trim()).filter(Boolean)
+
+  return {
+    kinds: THREAD_KINDS.filter(kind => kinds.includes(kind)),
+    ...(labels.length > 0 && { labels: [...new Set(labels)].sort() }),
+    state: filter.state ?? 'all',
+    ...(filter.since && { since: new Date(filter.since).toISOString() }),
+    limit: filter.limit ?? THREAD_CONFIG.defaultLimit,
+  }
+}
+
+/**
+ * Validate a selection's thread filter
+ * @returns Error message, or null if valid
+ */
+export function validateThreadFilter(filter: ThreadFilter): string | null {
+  const unknownKind = filter.kinds?.find(kind => !THREAD_KINDS.includes(kind))
+  if (unknownKind) {
+    return `Unknown thread kind "${unknownKind}". Expected one of: ${THREAD_KINDS.join(', ')}`
+  }
+
+  if (filter.state && !['open', 'closed', 'all'].includes(filter.state)) {
+    return `Invalid thread state "${filter.state}". Expected open, closed or all.`
+  }
+
+  if (filter.since && Number.isNaN(new Date(filter.since).getTime())) {
+    return `Invalid thread date "${filter.since}". Expected an ISO date, e.g. 2026-01-31.`
+  }
+
+  const { limit } = filter
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= THREAD_CONFIG.maxLimit)) {
+    return `Invalid thread limit "${limit}". Expected an integer from 1 to ${THREAD_CONFIG.maxLimit}.`
+  }
+
+  return null
+}
+
+/**
+ * Fetch a repo's threads, from the cache while its freshness key holds
+ * Never throws: failures come back as RepoThreads with `error`
+ *
+ * @param repo - "owner/repo" (threads belong to the repo, not a sub-path target)
+ * @param shared - Whether the repo may use the shared Postgres cache
+ */
+export async function fetchRepoThreads(
+  github: GitHubClient,
+  repo: string,
+  filter: ThreadFilter,
+  shared: boolean
+): Promise<RepoThreads> {
+  const normalized = normalizeThreadFilter(filter)
+  const kinds = normalized.kinds!
+
+  try {
+    const freshness = await github.fetchThreadsFreshness(repo, kinds)
+
+    const cached = await lookupThreadCache(repo, normalized, freshness, shared)
+    if (cached) {
+      console.log(`[threads] Cache HIT for ${repo} (${cached.length} threads)`)
+      return { filter: normalized, threads: cached, freshness, cached: true }
+    }
+
+    const fetchers: Record<ThreadKind, () => Promise<RepoThread[]>> = {
+      issue: () => github.listIssueThreads(repo, normalized),
+      pull: () => github.listPullRequestThreads(repo, normalized),
+      discussion: () => github.listDiscussionThreads(repo, normalized),
+    }
+    const threads: RepoThread[] = []
+    for (const kind of kinds) {
+      threads.push(...await fetchers[kind]())
+    }
+
+    await storeThreadCache(repo, normalized, freshness, threads, shared)
+    return { filter: normalized, threads, freshness, cached: false }
+  } catch (error) {
+    console.error(`[threads] Failed to fetch threads for ${repo}:`, error)
+    return {
+      filter: normalized,
+      threads: [],
+      freshness: '',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
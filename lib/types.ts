@@ -7,52 +7,246 @@
 // GitHub Types
 // ============================================================================
 
+// Where a repo is hosted; GitLab repo names carry a "gitlab:" prefix
+export type SourceProvider = 'github' | 'gitlab'
+
+// A repo as listed by its provider (GitLab projects too, despite the name)
 export interface GitHubRepo {
   name: string
-  fullName: string
+  fullName: string // "owner/repo", or "gitlab:group/subgroup/project"
   defaultBranch: string
   pushedAt: string
   size: number // in KB
   private: boolean
   description?: string | null
+  webUrl?: string // repo page on its host (GitHub Enterprise, GitLab); absent on older saved repos
+}
+
+// How a token authenticates (from its prefix); GitLab tokens are 'unknown'
+export type TokenType = 'classic' | 'fine-grained' | 'oauth' | 'app' | 'unknown'
+
+// What a token is and what it can reach
+export interface TokenInfo {
+  user: string
+  tokenType: TokenType
+  scopes: string[] // classic PAT / OAuth scopes; fine-grained tokens have per-repo permissions instead
+  orgs: string[] // orgs (GitLab: groups) the token can see
+  ssoRequiredOrgIds: number[] // GitHub orgs hidden until the token is SSO-authorized for them
+}
+
+// Why a repo is or isn't visible to a token (GET /api/repos/validate)
+export type RepoAccessReason =
+  | 'missing-scope'   // classic/OAuth token without the repo scope
+  | 'sso-required'    // the org enforces SAML SSO and the token isn't authorized for it
+  | 'not-granted'     // fine-grained token or app installation doesn't include the repo
+  | 'no-access'       // the token's user isn't a member or collaborator
+  | 'not-found'       // the owner doesn't exist
+
+export interface RepoAccess {
+  visible: boolean
+  repo?: GitHubRepo
+  permission?: 'admin' | 'maintain' | 'push' | 'triage' | 'pull' // highest the token's user has
+  reason?: RepoAccessReason
+  message?: string // explains the reason, for the UI
+  ssoUrl?: string // where to authorize the token for the org
+  tokenType?: TokenType
+  scopes?: string[]
+}
+
+// GitHub's core rate limit for a token, from the latest response headers (GET /api/rate-limit)
+export interface RateLimitStatus {
+  limit: number
+  remaining: number
+  used: number
+  resetAt: string // ISO time the window resets
 }
 
 export interface RepoSelection {
-  fullName: string
+  fullName: string // "gitlab:" prefix for GitLab projects; "//path" suffix for a sub-directory
   branch?: string // optional override; defaults to defaultBranch
+  ref?: string // pin to a tag or commit SHA instead of the branch head
+  resolvedSha?: string // commit the selection was packed at (saved with conversations)
+  pullRequest?: number // pack a pull request instead of a branch
+  compare?: string // pack a "base...head" range instead of a branch
+  includeUnchanged?: boolean // PR/compare packs: also pack unchanged files (default: changed files only)
+  sliceConfig?: RepoSliceConfig // per-repo override of the request's slice config
+  threads?: ThreadFilter // also pack the repo's issues, pull requests and discussions
+}
+
+export type ThreadKind = 'issue' | 'pull' | 'discussion'
+
+// Which issues, pull requests and discussions to pack alongside a repo's code
+export interface ThreadFilter {
+  kinds?: ThreadKind[] // default: issues and pull requests
+  labels?: string[] // only threads carrying all of these labels
+  state?: 'open' | 'closed' | 'all' // default: 'all'
+  since?: string // ISO date: only threads updated since
+  limit?: number // most recently updated threads per kind (default 30)
+}
+
+export interface RepoThread {
+  kind: ThreadKind
+  number: number
+  title: string
+  url: string
+  state: 'open' | 'closed' | 'merged'
+  author: string
+  labels: string[]
+  createdAt: string
+  updatedAt: string
+  body: string
+  comments: ThreadComment[] // oldest first
+  omittedComments?: number // comments past the per-thread limit
+}
+
+export interface ThreadComment {
+  author: string
+  createdAt: string
+  body: string
+  path?: string // pull request review comment: file it's on
+  line?: number
+  review?: string // pull request review verdict, e.g. "APPROVED"
+}
+
+export interface RepoThreads {
+  filter: ThreadFilter // as applied, defaults filled in
+  threads: RepoThread[] // per kind, most recently updated first
+  freshness: string // latest update across the requested kinds; the cache key's freshness part
+  cached?: boolean // true if served from the thread cache
+  error?: string // threads couldn't be fetched; the code pack is still usable
 }
 
 // ============================================================================
 // Repomix/Packing Types
 // ============================================================================
 
+export const OUTPUT_STYLES = ['xml', 'markdown', 'plain', 'json'] as const
+
+export type OutputStyle = typeof OUTPUT_STYLES[number]
+
 export interface SliceConfig {
   includeGlobs?: string[]
   ignoreGlobs?: string[]
   respectGitignore?: boolean
   respectAiIgnore?: boolean
   useDefaultPatterns?: boolean
+  outputStyle?: OutputStyle // defaults to 'xml'
+  redactSecrets?: boolean // replace likely credentials with placeholders (default: true)
+  entryPoints?: string[] // import-graph mode: pack only files reachable from these paths or symbols
+  importDepth?: number // import-graph mode: import hops to follow from the entry points (default: 3)
+  commitLog?: number // history: recent commits on the branch to list (default 0: none)
+  fileHistory?: boolean // history: each packed file's last change (commit, date, author)
+  sortByRecentChanges?: boolean // history: most recently changed files first (default: path order)
   reducers?: {
     compress?: boolean
     removeComments?: boolean
     removeEmptyLines?: boolean
     truncateBase64?: boolean
+    outline?: boolean // keep only exports, types, signatures and doc comments (TS/JS, Python)
   }
+  fullContentGlobs?: string[] // outline reducer: files matching these keep their full content
+}
+
+// Output style is shared by every repo in a pack, so it can't be overridden per repo
+export type RepoSliceConfig = Omit<SliceConfig, 'outputStyle'>
+
+export type ReducerName = keyof NonNullable<SliceConfig['reducers']>
+
+export interface FileManifestEntry {
+  path: string
+  chars: number
+  approxTokens: number // rough estimate: chars / 4
+  language: string
 }
 
 export interface PackedRepo {
   repo: string
   branch: string
   output: string
+  outputStyle?: OutputStyle // style the output was packed in (defaults to 'xml')
+  commitSha?: string // commit the pack was built from
   stats: {
     fileCount: number
     approxChars: number
     approxTokens: number // rough estimate: chars / 4
   }
+  files?: FileManifestEntry[] // per-file breakdown, in pack order
+  changes?: Changeset // set when a pull request or compare range was packed
+  redactions?: RedactionEntry[] // secrets replaced with placeholders, per file
+  skippedFiles?: string[] // over config.repomix.maxFileSize, left out of the pack
+  aiIgnoreExclusions?: AiIgnoreExclusion[] // which AI ignore files excluded which files
+  budget?: BudgetReport // what was cut to fit the token budget (fit-to-budget mode only)
+  threads?: RepoThreads // issues, pull requests and discussions (selections with `threads` only)
   error?: string
   cached?: boolean // true if served from Postgres cache
 }
 
+// Files reachable from a slice's entry points (import-graph mode)
+// Paths are relative to the packed target, like FileManifestEntry paths
+export interface ImportGraph {
+  entries: string[] // entry files (symbols resolved to the files defining them)
+  unresolved: string[] // entry points that matched no file or symbol
+  depth: number // import hops followed
+  files: ImportGraphFile[] // entries first, then breadth-first
+  truncated?: boolean // stopped following imports at the file limit
+}
+
+export interface ImportGraphFile {
+  path: string
+  depth: number // 0 for entries
+  importedBy?: string // first file found importing it
+}
+
+// A commit as listed in a pack's history section
+export interface CommitSummary {
+  sha: string
+  date: string // ISO committer date
+  author: string // GitHub login, else the commit author's name
+  message: string // first line
+}
+
+export interface RedactionEntry {
+  path: string
+  rule: string // secret rule that matched, e.g. "aws-access-key"
+  count: number
+}
+
+export interface AiIgnoreExclusion {
+  file: string // ignore file, repo-relative (e.g. "packages/api/.aiignore")
+  count: number // files it excluded from the slice
+  paths: string[] // the excluded files (first 200), relative to the packed target
+}
+
+// Low-priority files, dropped in this order when fitting a token budget
+export type BudgetFileCategory = 'generated' | 'data' | 'tests' | 'docs'
+
+export interface BudgetReport {
+  reducers: ReducerName[] // reducers turned on to fit, in the order applied
+  droppedFiles: Array<{ path: string; category: BudgetFileCategory; approxTokens: number }>
+  truncatedFiles: Array<{ path: string; removedTokens: number }>
+}
+
+export interface ChangedFile {
+  path: string
+  previousPath?: string // set for renames
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged'
+  additions: number
+  deletions: number
+  patch?: string // unified diff hunk; missing for binary or very large files
+}
+
+export interface Changeset {
+  kind: 'pull' | 'compare'
+  label: string // "#123" or "base...head"
+  title?: string // pull request title
+  baseSha: string
+  headSha: string
+  headRepo: string // repo the head commit was packed from (differs for forks)
+  files: Omit<ChangedFile, 'patch'>[]
+  diff: string // unified diff of all changed files
+  truncated?: boolean // GitHub returned a partial file list
+}
+
 export interface PackResult {
   repos: PackedRepo[]
   totalStats: {
@@ -60,6 +254,84 @@ export interface PackResult {
     approxChars: number
     approxTokens: number // rough estimate: sum of all repo estimates
   }
+  budget?: {
+    targetTokens: number
+    initialTokens: number // before fitting
+    fits: boolean // false if the pack is still over after truncating
+  }
+  errors: string[]
+}
+
+// Per-repo stages of a streamed pack, in order (cache hits skip downloading/packing)
+export type PackRepoStage =
+  | 'resolving'    // resolving the commit SHA (or a PR/compare range's changes)
+  | 'resolved'     // commitSha known
+  | 'cache-hit'    // served from the shared cache
+  | 'cache-miss'
+  | 'downloading'  // archive download + Repomix run
+  | 'packing'      // post-processing: paths, redaction, file manifest
+  | 'threads'      // fetching issues, pull requests and discussions
+
+// Server-sent event from POST /api/pack/stream
+export interface PackStreamEvent {
+  type: 'progress' | 'repo' | 'complete' | 'error'
+  repo?: string // selection fullName (progress, repo)
+  index?: number // selection's position in the request (progress, repo); one repo can be selected twice
+  stage?: PackRepoStage // progress
+  commitSha?: string // progress: 'resolved'
+  packed?: PackedRepo // repo: finished or failed, usable right away
+  result?: Omit<PackResult, 'repos'> // complete: totals, budget and errors
+  error?: string
+}
+
+// Background pack job (POST /api/pack/jobs)
+export type PackJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface PackJob {
+  id: string
+  status: PackJobStatus
+  repos: RepoSelection[] // as requested
+  sliceConfig: SliceConfig // as requested (the key finished repos are cached under)
+  progress: Record<string, PackRepoStage | 'queued' | 'done' | 'error'> // selection fullName -> stage
+  result: PackResult // repos finished so far (request order); totals final once done
+  error?: string // failed: why the whole job stopped
+  createdAt: number
+  updatedAt: number
+}
+
+// Which rule dropped a file from a slice preview
+export type PreviewExclusionReason =
+  | 'include'          // didn't match any include glob
+  | 'importGraph'      // not reachable from the entry points
+  | 'defaultPatterns'  // Repomix default ignore list
+  | 'ignoreGlobs'      // user ignore globs
+  | 'aiignore'         // .aiignore and friends
+  | 'gitignore'        // .gitignore / .repomixignore
+  | 'binary'           // binary by extension, Repomix skips these
+
+export interface RepoPreview {
+  repo: string
+  branch: string
+  sha?: string // commit the tree was read at
+  files: FileManifestEntry[] // matched files; sizes estimated from blob bytes
+  stats: {
+    fileCount: number
+    approxChars: number
+    approxTokens: number // rough estimate: bytes / 4
+  }
+  excluded: Partial<Record<PreviewExclusionReason, number>> // file counts per rule
+  importGraph?: ImportGraph // import-graph mode: the resolved dependency set
+  truncated?: boolean // GitHub truncated the tree, so the list is incomplete
+  error?: string
+}
+
+export interface PreviewResult {
+  repos: RepoPreview[]
+  totalStats: {
+    fileCount: number
+    approxChars: number
+    approxTokens: number
+  }
   errors: string[]
 }
 
@@ -99,16 +371,37 @@ export type ApiResponse<T> =
 // Config Types
 // ============================================================================
 
+/**
+ * Where a GitHub account lives: github.com or a GitHub Enterprise Server
+ */
+export interface GitHubHost {
+  apiUrl: string // REST base; GraphQL is derived from it ("/api/v3" -> "/api/graphql")
+  webUrl: string // repo pages and "open on GitHub" links
+  archiveUrl?: string // base for "/repos/:owner/:repo/tarball/:ref"; defaults to apiUrl
+}
+
 export interface AppConfig {
-  github: {
+  github: GitHubHost & {
+    enterpriseHosts: string[] // web URLs requests may pick with X-GitHub-Host
+    timeout: number
+  }
+  gitlab: {
     apiUrl: string
+    webUrl: string
     timeout: number
   }
   repomix: {
     timeout: number
+    maxAbandonedRuns: number
     maxFileSize: number
     maxTotalSize: number
   }
+  archive: {
+    maxSize: number
+    maxEntries: number
+    reuseTrees: number
+    reuseTtlMs: number
+  }
   gemini: {
     defaultModel: string
   }
@@ -134,6 +427,7 @@ export interface CachedPack {
     approxChars: number
     approxTokens: number // Repomix estimate
   }
+  files?: FileManifestEntry[] // Per-file breakdown (absent in entries cached before it existed)
   geminiTokens?: number // Authoritative count (if available)
 
   // Housekeeping
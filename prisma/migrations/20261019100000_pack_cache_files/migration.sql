@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "pack_cache" ADD COLUMN     "files" JSONB;
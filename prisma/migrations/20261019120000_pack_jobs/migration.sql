@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "pack_jobs" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "request" JSONB NOT NULL,
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "result" JSONB NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pack_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pack_jobs_status_updatedAt_idx" ON "pack_jobs"("status", "updatedAt");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "thread_cache" (
+    "key" TEXT NOT NULL,
+    "repoFullName" TEXT NOT NULL,
+    "filterHash" TEXT NOT NULL,
+    "freshness" TEXT NOT NULL,
+    "threads" JSONB NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "cachedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastAccessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "thread_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "thread_cache_repoFullName_idx" ON "thread_cache"("repoFullName");
+
+-- CreateIndex
+CREATE INDEX "thread_cache_lastAccessedAt_idx" ON "thread_cache"("lastAccessedAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "http_cache" (
+    "key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "headers" JSONB NOT NULL,
+    "data" JSONB NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "cachedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastAccessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "http_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "http_cache_lastAccessedAt_idx" ON "http_cache"("lastAccessedAt");
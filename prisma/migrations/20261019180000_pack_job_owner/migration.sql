@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "pack_jobs" ADD COLUMN "ownerKey" TEXT;
+
+-- CreateIndex
+CREATE INDEX "pack_jobs_updatedAt_idx" ON "pack_jobs"("updatedAt");
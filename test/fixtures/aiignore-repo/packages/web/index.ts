@@ -0,0 +1 @@
+export const web = true
@@ -0,0 +1,10 @@
+import app.services.billing as billing
+from . import utils
+from .models import (
+    User,
+    Invoice,
+)
+
+
+def run(user: User) -> Invoice:
+    return billing.charge(user, utils.cents(10))
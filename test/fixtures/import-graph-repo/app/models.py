@@ -0,0 +1,6 @@
+class User:
+    pass
+
+
+class Invoice:
+    pass
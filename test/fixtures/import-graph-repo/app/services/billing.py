@@ -0,0 +1,5 @@
+from ..models import Invoice
+
+
+def charge(user, amount):
+    return Invoice()
@@ -0,0 +1,2 @@
+def cents(amount):
+    return amount * 100
@@ -0,0 +1,5 @@
+import { defaults } from './defaults.js'
+
+export function loadConfig() {
+  return { ...defaults, port: Number(process.env.PORT) || defaults.port }
+}
@@ -0,0 +1,3 @@
+export * from './limits'
+
+export const defaults = { port: 3000, title: 'Fixture' }
@@ -0,0 +1,7 @@
+import path from 'node:path'
+import { loadConfig } from './config'
+import { render } from '@/ui/render'
+
+export function main() {
+  return path.join('/', render(loadConfig()))
+}
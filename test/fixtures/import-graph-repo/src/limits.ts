@@ -0,0 +1 @@
+export const MAX_BODY_SIZE = 1024 * 1024
@@ -0,0 +1,6 @@
+import { loadConfig } from '../config'
+
+export async function handleRequest(path: string) {
+  const config = loadConfig()
+  return `${config.title}: ${path}`
+}
@@ -0,0 +1,5 @@
+import './styles.css'
+
+export function render(config: { title: string }) {
+  return `<h1>${config.title}</h1>`
+}
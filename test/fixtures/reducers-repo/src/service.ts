@@ -0,0 +1,74 @@
+/**
+ * Order service
+ *
+ * Fixture for the reducer tests: comments, blank lines and function bodies
+ * give removeComments, removeEmptyLines and compress something to strip.
+ */
+
+export interface Order {
+  id: string
+  items: Array<{ sku: string; quantity: number; price: number }>
+  discountCode?: string
+}
+
+// Discounts by code, as a fraction of the subtotal
+const DISCOUNTS: Record<string, number> = {
+  WELCOME10: 0.1,
+  VIP25: 0.25,
+}
+
+
+/**
+ * Sum of item prices before discounts
+ */
+export function subtotal(order: Order): number {
+  // Quantities are always whole numbers
+  let total = 0
+
+  for (const item of order.items) {
+    total += item.price * item.quantity
+  }
+
+  return total
+}
+
+
+/**
+ * Total after applying the order's discount code, rounded to cents
+ */
+export function total(order: Order): number {
+  const base = subtotal(order)
+
+  // Unknown codes are ignored rather than rejected
+  const discount = order.discountCode ? DISCOUNTS[order.discountCode] ?? 0 : 0
+
+  const discounted = base * (1 - discount)
+
+  return Math.round(discounted * 100) / 100
+}
+
+
+export class OrderBook {
+  private orders = new Map<string, Order>()
+
+  /**
+   * Add or replace an order
+   */
+  add(order: Order): void {
+    // Replacing keeps the original insertion order in the Map
+    this.orders.set(order.id, order)
+  }
+
+  /**
+   * Revenue across every order in the book
+   */
+  revenue(): number {
+    let sum = 0
+
+    for (const order of this.orders.values()) {
+      sum += total(order)
+    }
+
+    return sum
+  }
+}
@@ -0,0 +1,4 @@
+#!/bin/sh
+export DATABASE_PASSWORD="hunter2hunter2"
+export API_KEY=your-api-key-here
+LOG_LEVEL=debug